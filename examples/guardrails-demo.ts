@@ -61,7 +61,7 @@ async function main() {
     },
     {
       name: 'PII Detection - Phone',
-      input: 'Call me at 555-123-4567',
+      input: 'Call me at 415-555-2671',
       expectedPass: false,
     },
     {
@@ -144,7 +144,7 @@ async function main() {
   // Demonstrate redaction and masking
   console.log('\n\n=== PII Redaction Demo ===');
   const piiRedactor = new PIIDetectionGuardrail({ action: 'redact' });
-  const piiInput = 'Contact John at john@example.com or call 555-123-4567';
+  const piiInput = 'Contact John at john@example.com or call 415-555-2671';
   const redactResult = await piiRedactor.evaluate(piiInput);
 
   console.log(`Original: "${piiInput}"`);
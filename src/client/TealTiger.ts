@@ -14,12 +14,18 @@ import {
   AuditTrailResponse,
   SecurityPolicy,
   PolicyValidationResult,
-  SDKStatistics
+  SDKStatistics,
+  PolicyMode,
+  ToolExecutionRequest,
+  SecurityEvaluationResponse
 } from '../types';
 import { SSAClient } from './SSAClient';
 import { Configuration } from '../config/Configuration';
+import { LocalPolicyEngine } from '../policy/LocalPolicyEngine';
+import { ConfigReloader } from '../config/ConfigReloader';
+import { ConfigSource } from '../config/ConfigSource';
 import { validateToolName, validateToolParameters, sanitizeParameters } from '../utils/validation';
-import { TealTigerValidationError } from '../utils/errors';
+import { TealTigerValidationError, TealTigerNetworkError, TealTigerServerError } from '../utils/errors';
 import { TealTigerErrorCode } from '../types';
 
 /**
@@ -28,11 +34,15 @@ import { TealTigerErrorCode } from '../types';
 export class TealTiger {
   private readonly config: Configuration;
   private readonly ssaClient: SSAClient;
+  private readonly localPolicyEngine: LocalPolicyEngine;
+  private readonly policyMode: PolicyMode;
   private readonly statistics: SDKStatistics;
 
   constructor(config: Partial<TealTigerConfig>) {
     this.config = new Configuration(config);
     this.ssaClient = new SSAClient(this.config.getConfig());
+    this.policyMode = this.config.get('policyMode') || 'remote';
+    this.localPolicyEngine = new LocalPolicyEngine(this.config.get('policies') || []);
     
     // Initialize statistics
     this.statistics = {
@@ -80,7 +90,7 @@ export class TealTiger {
       }
 
       // Evaluate security
-      const evaluationResponse = await this.ssaClient.evaluateSecurity(request);
+      const evaluationResponse = await this.evaluateRequest(request);
       
       if (!evaluationResponse.success) {
         throw new TealTigerValidationError(
@@ -158,7 +168,7 @@ export class TealTiger {
       context
     };
 
-    const response = await this.ssaClient.evaluateSecurity(request);
+    const response = await this.evaluateRequest(request);
     
     if (!response.success) {
       throw new TealTigerValidationError(
@@ -182,9 +192,29 @@ export class TealTiger {
    * Get current security policies
    */
   async getPolicies(): Promise<{ policies: SecurityPolicy[]; version: string; count: number }> {
+    if (this.policyMode === 'local') {
+      return this.localPolicyEngine.getPolicies();
+    }
     return await this.ssaClient.getPolicies();
   }
 
+  /**
+   * Get the in-process policy engine used in 'local' and 'fallback' modes
+   */
+  getLocalPolicyEngine(): LocalPolicyEngine {
+    return this.localPolicyEngine;
+  }
+
+  /**
+   * Load the local policy set from a file or URL and hot-reload it on change
+   *
+   * Applies to 'local' and 'fallback' modes; decisions report the active
+   * version in `metadata.policyVersion`.
+   */
+  async watchPolicies(source: ConfigSource | string): Promise<ConfigReloader<SecurityPolicy[]>> {
+    return await this.localPolicyEngine.watch(source);
+  }
+
   /**
    * Validate security policies
    */
@@ -226,6 +256,30 @@ export class TealTiger {
     return this.config.getSafeConfig();
   }
 
+  /**
+   * Route a security evaluation to the configured decision source
+   */
+  private async evaluateRequest(request: ToolExecutionRequest): Promise<SecurityEvaluationResponse> {
+    if (this.policyMode === 'local') {
+      return await this.localPolicyEngine.evaluateSecurity(request);
+    }
+
+    try {
+      return await this.ssaClient.evaluateSecurity(request);
+    } catch (error) {
+      const ssaUnavailable = error instanceof TealTigerNetworkError || error instanceof TealTigerServerError;
+      if (this.policyMode !== 'fallback' || !ssaUnavailable) {
+        throw error;
+      }
+
+      if (this.config.get('debug')) {
+        console.warn('[TealTiger SDK] SSA unavailable, using local policy engine:', error.message);
+      }
+
+      return await this.localPolicyEngine.evaluateSecurity(request);
+    }
+  }
+
   /**
    * Handle allow decision
    */
@@ -0,0 +1,297 @@
+/**
+ * Guardrail Rewriter
+ *
+ * Applies redact, mask and transform guardrail results to message text
+ * so the clients forward rewritten input and return rewritten output,
+ * including streamed output
+ */
+
+import { GuardrailEngine, GuardrailEngineResult, PIIVault, TextEdit, applyEdits, diffText } from '../guardrails';
+
+/**
+ * Record of a guardrail rewrite (original values are not included)
+ */
+export interface GuardrailTransformation {
+  /** Whether the request or the response was rewritten */
+  target: 'input' | 'output';
+  /** Index of the rewritten message (input) or content block (output) */
+  messageIndex: number;
+  /** Guardrail that produced the rewrite */
+  guardrailName: string;
+  /** Rewrite action */
+  action: 'redact' | 'mask' | 'transform';
+  /** Guardrail reason */
+  reason: string;
+}
+
+/**
+ * Text with guardrail rewrites applied
+ */
+export interface TextRewrite {
+  text: string;
+  transformations: GuardrailTransformation[];
+}
+
+/**
+ * Check whether any guardrail in a result rewrote its input
+ */
+export function hasRewrites(result: GuardrailEngineResult): boolean {
+  return (
+    getRewritingGuardrails(result).length > 0 ||
+    result.results.some(r => Array.isArray(r.result?.metadata.transformedMessages))
+  );
+}
+
+/**
+ * Names of the guardrails in a result that rewrote their input
+ */
+export function getRewritingGuardrails(result: GuardrailEngineResult): string[] {
+  return result.results
+    .filter(r => r.result?.getRewrittenText() !== undefined)
+    .map(r => r.guardrailName);
+}
+
+/**
+ * Apply the rewrites in an engine result to the text it evaluated
+ *
+ * Pipeline engines chain rewrites themselves. Otherwise every guardrail
+ * rewrote the same text, so their edits are merged; where edits of two
+ * guardrails overlap, the edit of the guardrail that ran first is kept.
+ */
+export function applyRewrites(
+  text: string,
+  result: GuardrailEngineResult,
+  target: GuardrailTransformation['target'],
+  messageIndex: number
+): TextRewrite {
+  if (typeof result.rewrittenInput === 'string') {
+    return {
+      text: result.rewrittenInput,
+      transformations: result.changes.map(change => ({
+        target,
+        messageIndex,
+        guardrailName: change.guardrailName,
+        action: change.action,
+        reason: change.reason,
+      })),
+    };
+  }
+
+  const edits: TextEdit[] = [];
+  const transformations: GuardrailTransformation[] = [];
+
+  for (const { guardrailName, result: guardrailResult } of result.results) {
+    const rewritten = guardrailResult?.getRewrittenText();
+    if (!guardrailResult || rewritten === undefined || rewritten === text) {
+      continue;
+    }
+
+    const added = diffText(text, rewritten).filter(edit => !edits.some(other => overlaps(edit, other)));
+    if (added.length === 0) {
+      continue;
+    }
+    edits.push(...added);
+    transformations.push({
+      target,
+      messageIndex,
+      guardrailName,
+      action: guardrailResult.action as GuardrailTransformation['action'],
+      reason: guardrailResult.reason,
+    });
+  }
+
+  return { text: applyEdits(text, edits), transformations };
+}
+
+/**
+ * Messages with the per-message rewrites of a result applied
+ */
+export interface MessageRewrites<T> {
+  messages: T[];
+  transformations: GuardrailTransformation[];
+  /** Whether every rewrite is applied (pipeline mode), so no text rewrites remain */
+  complete: boolean;
+}
+
+/**
+ * Apply the per-message rewrites of a result for `{ messages }` input
+ *
+ * Pipeline engines return the rewritten messages themselves. Otherwise
+ * guardrails such as PromptInjectionGuardrail rewrite each message of
+ * message input themselves and return `transformedMessages`.
+ */
+export function applyMessageRewrites<T extends { content: unknown }>(
+  messages: T[],
+  result: GuardrailEngineResult
+): MessageRewrites<T> {
+  const pipelineMessages: unknown = result.rewrittenInput?.messages;
+  if (Array.isArray(pipelineMessages)) {
+    return {
+      messages: messages.map((message, index) => {
+        const rewritten = pipelineMessages[index] as { content?: unknown } | undefined;
+        return rewritten?.content === undefined ? message : { ...message, content: rewritten.content };
+      }),
+      transformations: result.changes.flatMap((change) =>
+        (change.messageIndexes || []).map((messageIndex) => ({
+          target: 'input' as const,
+          messageIndex,
+          guardrailName: change.guardrailName,
+          action: change.action,
+          reason: change.reason,
+        }))
+      ),
+      complete: true,
+    };
+  }
+
+  const rewritten = [...messages];
+  const transformations: GuardrailTransformation[] = [];
+
+  for (const { guardrailName, result: guardrailResult } of result.results) {
+    const transformed: unknown = guardrailResult?.metadata.transformedMessages;
+    if (!guardrailResult || !Array.isArray(transformed)) {
+      continue;
+    }
+
+    transformed.forEach((message: { content?: unknown } | undefined, index) => {
+      const content = message?.content;
+      if (index >= rewritten.length || typeof content !== 'string' || content === rewritten[index].content) {
+        return;
+      }
+      rewritten[index] = { ...rewritten[index], content };
+      transformations.push({
+        target: 'input',
+        messageIndex: index,
+        guardrailName,
+        action: guardrailResult.action as GuardrailTransformation['action'],
+        reason: guardrailResult.reason,
+      });
+    });
+  }
+
+  return { messages: rewritten, transformations, complete: false };
+}
+
+/**
+ * Apply the rewrites of a result to `text`, the input it evaluated or a part of it
+ *
+ * When `text` is the evaluated input the result's rewrites are reused.
+ * Otherwise, e.g. for one message of a request, only the guardrails that
+ * rewrote the input run again, once, on `text`.
+ */
+export async function rewriteText(
+  engine: GuardrailEngine,
+  result: GuardrailEngineResult,
+  evaluated: unknown,
+  text: string,
+  target: GuardrailTransformation['target'],
+  messageIndex: number,
+  context: Record<string, any> = {}
+): Promise<TextRewrite> {
+  if (evaluated === text) {
+    return applyRewrites(text, result, target, messageIndex);
+  }
+
+  const guardrailNames = getRewritingGuardrails(result);
+  if (guardrailNames.length === 0) {
+    return { text, transformations: [] };
+  }
+  return applyRewrites(text, await engine.executeOnly(guardrailNames, text, context), target, messageIndex);
+}
+
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  return a.position === b.position || (a.position < b.position + b.length && b.position < a.position + a.length);
+}
+
+/**
+ * Longest trailing partial word held back from a streamed release
+ */
+const MAX_HELD_CHARS = 64;
+
+/**
+ * Applies output guardrail rewrites and vault restoration to streamed text
+ *
+ * Clients check a trailing window of the text streamed so far and release
+ * the text received since the last release with the window's rewrites
+ * applied and allowed vault placeholders restored. A trailing partial word
+ * is held back until more text arrives, so a value or placeholder split
+ * across chunks is handled as a whole.
+ */
+export class StreamRewriter {
+  /** Rewrites applied to released text */
+  readonly transformations: GuardrailTransformation[] = [];
+  /** Vault placeholders restored in released text */
+  readonly restoredTokens: string[] = [];
+  private readonly vault: PIIVault | undefined;
+  private readonly sessionId: string;
+  private readonly messageIndex: number;
+  private released = 0;
+
+  constructor(options: { vault?: PIIVault | undefined; sessionId?: string; messageIndex?: number } = {}) {
+    this.vault = options.vault;
+    this.sessionId = options.sessionId || 'default';
+    this.messageIndex = options.messageIndex || 0;
+  }
+
+  /**
+   * Length of the streamed text released so far, before rewrites
+   */
+  getReleasedLength(): number {
+    return this.released;
+  }
+
+  /**
+   * Text to release, with rewrites applied
+   *
+   * @param content Text streamed so far
+   * @param window Start of the checked window in `content` and its guardrail result
+   * @param final Whether the stream has ended, releasing any held-back text
+   */
+  async release(
+    content: string,
+    window: { start: number; result: GuardrailEngineResult },
+    final: boolean
+  ): Promise<string> {
+    const held = final ? '' : /\S*$/.exec(content.slice(this.released))![0];
+    let end = held.length <= MAX_HELD_CHARS ? content.length - held.length : content.length;
+
+    const windowText = content.slice(window.start);
+    const rewrite = applyRewrites(windowText, window.result, 'output', this.messageIndex);
+    const edits: TextEdit[] = [];
+
+    for (const edit of diffText(windowText, rewrite.text)) {
+      const position = edit.position + window.start;
+      const editEnd = position + edit.length;
+      // Skip edits of released text and of text still held back
+      if (editEnd < this.released || (edit.length > 0 && editEnd === this.released) || position >= end) {
+        continue;
+      }
+      // An edit starting in released text replaces only its unreleased part
+      const start = Math.max(position, this.released);
+      edits.push({ position: start - this.released, length: editEnd - start, replacement: edit.replacement });
+      end = Math.max(end, editEnd);
+    }
+
+    if (edits.length > 0) {
+      for (const transformation of rewrite.transformations) {
+        if (!this.transformations.some(t => t.guardrailName === transformation.guardrailName)) {
+          this.transformations.push(transformation);
+        }
+      }
+    }
+
+    let text = applyEdits(content.slice(this.released, end), edits);
+    this.released = end;
+
+    if (this.vault) {
+      const restored = await this.vault.detokenize(this.sessionId, text, 'output');
+      text = restored.value;
+      for (const token of restored.restored) {
+        if (!this.restoredTokens.includes(token)) {
+          this.restoredTokens.push(token);
+        }
+      }
+    }
+    return text;
+  }
+}
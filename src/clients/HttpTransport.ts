@@ -0,0 +1,436 @@
+/**
+ * HTTP Transport
+ *
+ * Provider-agnostic HTTP layer used by the drop-in clients, with a pluggable
+ * fetch implementation, error mapping and retries
+ */
+
+import { TealTigerError, TealTigerErrorCode } from '../types';
+import { createTealTigerError, isTealTigerError } from '../utils/errors';
+
+/**
+ * Minimal response shape the transport relies on (compatible with global fetch)
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: {
+    get(name: string): string | null;
+  };
+  body?: (AsyncIterable<Uint8Array> & { cancel?(): Promise<void> }) | null;
+  text(): Promise<string>;
+}
+
+/**
+ * Minimal request init the transport passes to fetch
+ */
+export interface TransportRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch-compatible function
+ */
+export type FetchLike = (url: string, init: TransportRequestInit) => Promise<TransportResponse>;
+
+/**
+ * HTTP transport options
+ */
+export interface HttpTransportOptions {
+  /** Provider name used in error messages (e.g., 'OpenAI') */
+  provider: string;
+  /** Optional: Custom fetch implementation (default: global fetch) */
+  fetch?: FetchLike | undefined;
+  /** Optional: Retries for 429 and 5xx responses (default: 2) */
+  maxRetries?: number | undefined;
+  /** Optional: Request timeout in milliseconds, including reading the body or stream (default: 60000) */
+  timeout?: number | undefined;
+  /** Optional: Base delay for exponential backoff in milliseconds (default: 500) */
+  retryDelay?: number | undefined;
+  /** Optional: Longest wait between retries, including Retry-After, in milliseconds (default: 60000) */
+  maxRetryDelay?: number | undefined;
+}
+
+/**
+ * Transport request
+ */
+export interface TransportRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Optional: Cancels the request (including retries) when aborted */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Response of a single fetch; its timeout and abort listener stay active
+ * until the body has been read or discarded
+ */
+interface Exchange {
+  response: TransportResponse;
+  /** Map an error raised while reading the body */
+  mapError(error: unknown): TealTigerError;
+  /** Clear the timeout and abort listener */
+  release(): void;
+}
+
+/**
+ * HTTP transport with retry and error mapping
+ */
+export class HttpTransport {
+  private readonly options: HttpTransportOptions;
+
+  constructor(options: HttpTransportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Send a request and parse the JSON response
+   */
+  async request<T>(request: TransportRequest): Promise<T> {
+    const { status, text } = await this.readText(request);
+
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw createTealTigerError(
+        `${this.options.provider} returned an invalid JSON response`,
+        TealTigerErrorCode.SERVER_ERROR,
+        { status, body: text.substring(0, 500) }
+      );
+    }
+  }
+
+  /**
+   * Send a request and return the response body as text
+   */
+  async requestText(request: TransportRequest): Promise<string> {
+    const { text } = await this.readText(request);
+    return text;
+  }
+
+  /**
+   * Send a request and yield the data payloads of a server-sent event stream
+   */
+  async *stream(request: TransportRequest): AsyncGenerator<string> {
+    const exchange = await this.send(request);
+    const { response } = exchange;
+
+    if (!response.body) {
+      exchange.release();
+      throw createTealTigerError(
+        `${this.options.provider} returned an empty stream`,
+        TealTigerErrorCode.SERVER_ERROR,
+        { status: response.status }
+      );
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline).replace(/\r$/, '');
+          buffer = buffer.slice(newline + 1);
+
+          if (!line.startsWith('data:')) {
+            continue;
+          }
+
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') {
+            return;
+          }
+          if (data) {
+            yield data;
+          }
+        }
+      }
+
+      const trailing = buffer.trim();
+      if (trailing.startsWith('data:') && trailing.slice(5).trim() !== '[DONE]') {
+        yield trailing.slice(5).trim();
+      }
+    } catch (error) {
+      throw exchange.mapError(error);
+    } finally {
+      // Release the connection when the stream fails or the consumer stops early
+      await this.cancelBody(response);
+      exchange.release();
+    }
+  }
+
+  /**
+   * Send a request and read the response body, still subject to the timeout and signal
+   */
+  private async readText(request: TransportRequest): Promise<{ status: number; text: string }> {
+    const exchange = await this.send(request);
+
+    try {
+      return { status: exchange.response.status, text: await exchange.response.text() };
+    } catch (error) {
+      throw exchange.mapError(error);
+    } finally {
+      exchange.release();
+    }
+  }
+
+  /**
+   * Send a request, retrying 429 and 5xx responses
+   */
+  private async send(request: TransportRequest): Promise<Exchange> {
+    const maxRetries = this.options.maxRetries ?? 2;
+    let attempt = 0;
+
+    for (;;) {
+      const exchange = await this.fetchOnce(request);
+      const { response } = exchange;
+
+      if (response.ok) {
+        return exchange;
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= maxRetries) {
+        const error = await this.mapHttpError(response);
+        exchange.release();
+        throw error;
+      }
+
+      await this.cancelBody(response);
+      exchange.release();
+      const delay = Math.min(
+        this.getRetryAfter(response) ?? (this.options.retryDelay ?? 500) * Math.pow(2, attempt),
+        this.options.maxRetryDelay ?? 60000
+      );
+      await sleep(delay, request.signal);
+      if (request.signal?.aborted) {
+        throw this.abortError(request);
+      }
+      attempt++;
+    }
+  }
+
+  /**
+   * Perform a single fetch with timeout
+   */
+  private async fetchOnce(request: TransportRequest): Promise<Exchange> {
+    const fetchFn = this.options.fetch ?? (globalThis.fetch as unknown as FetchLike | undefined);
+    if (!fetchFn) {
+      throw createTealTigerError(
+        'No fetch implementation available - pass one in the client config',
+        TealTigerErrorCode.INVALID_CONFIG
+      );
+    }
+
+    if (request.signal?.aborted) {
+      throw this.abortError(request);
+    }
+
+    const timeout = this.options.timeout ?? 60000;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort);
+
+    const init: TransportRequestInit = {
+      method: request.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...request.headers,
+      },
+      signal: controller.signal,
+    };
+    if (request.body !== undefined) {
+      init.body = JSON.stringify(request.body);
+    }
+
+    const release = (): void => {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    };
+
+    let response: TransportResponse;
+    try {
+      response = await fetchFn(request.url, init);
+    } catch (error) {
+      release();
+      throw this.mapFetchError(error, request, controller.signal, timeout, `Unable to connect to ${this.options.provider}`);
+    }
+
+    return {
+      response,
+      mapError: (error: unknown) =>
+        this.mapFetchError(error, request, controller.signal, timeout, `${this.options.provider} response failed`),
+      release,
+    };
+  }
+
+  /**
+   * Convert a fetch or body read failure into a TealTiger error
+   */
+  private mapFetchError(
+    error: unknown,
+    request: TransportRequest,
+    signal: AbortSignal,
+    timeout: number,
+    prefix: string
+  ): TealTigerError {
+    if (request.signal?.aborted) {
+      return this.abortError(request);
+    }
+
+    if (signal.aborted) {
+      return createTealTigerError(
+        `${this.options.provider} request timed out after ${timeout}ms`,
+        TealTigerErrorCode.TIMEOUT_ERROR,
+        { url: request.url, timeout }
+      );
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return createTealTigerError(
+      `${prefix}: ${message}`,
+      TealTigerErrorCode.CONNECTION_ERROR,
+      { url: request.url },
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  /**
+   * Discard a response body that will not be read
+   */
+  private async cancelBody(response: TransportResponse): Promise<void> {
+    try {
+      await response.body?.cancel?.();
+    } catch {
+      // The body is already closed or errored
+    }
+  }
+
+  /**
+   * Error for a request cancelled through its signal
+   */
+  private abortError(request: TransportRequest): TealTigerError {
+    return createTealTigerError(
+      `${this.options.provider} request was aborted`,
+      TealTigerErrorCode.NETWORK_ERROR,
+      { url: request.url }
+    );
+  }
+
+  /**
+   * Parse Retry-After (seconds or HTTP date) and retry-after-ms headers
+   */
+  private getRetryAfter(response: TransportResponse): number | undefined {
+    const retryAfterMs = Number(response.headers.get('retry-after-ms'));
+    if (response.headers.get('retry-after-ms') !== null && Number.isFinite(retryAfterMs)) {
+      return Math.max(0, retryAfterMs);
+    }
+
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter === null) {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Convert a provider HTTP error into a TealTiger error
+   */
+  private async mapHttpError(response: TransportResponse): Promise<TealTigerError> {
+    const text = await response.text().catch(() => '');
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+
+    // OpenAI, Azure OpenAI and Anthropic all use { error: { message, type } }
+    const error: unknown = body && typeof body === 'object' ? (body as { error?: unknown }).error : undefined;
+    const errorMessage: unknown = error && typeof error === 'object' ? (error as { message?: unknown }).message : undefined;
+    const providerMessage = (typeof errorMessage === 'string' && errorMessage) || response.statusText || 'Unknown error';
+    const details = {
+      status: response.status,
+      provider: this.options.provider,
+      providerError: error ?? body,
+    };
+    const message = `${this.options.provider} API error (${response.status}): ${providerMessage}`;
+
+    return createTealTigerError(message, this.getErrorCode(response.status), details);
+  }
+
+  /**
+   * Map an HTTP status to a TealTiger error code
+   */
+  private getErrorCode(status: number): TealTigerErrorCode {
+    if (status === 401 || status === 403) {
+      return TealTigerErrorCode.AUTHENTICATION_ERROR;
+    }
+    if (status === 429) {
+      return TealTigerErrorCode.RATE_LIMITED;
+    }
+    if (status === 503 || status === 529) {
+      return TealTigerErrorCode.SERVICE_UNAVAILABLE;
+    }
+    if (status >= 500) {
+      return TealTigerErrorCode.SERVER_ERROR;
+    }
+    if (status === 408) {
+      return TealTigerErrorCode.TIMEOUT_ERROR;
+    }
+    return TealTigerErrorCode.INVALID_REQUEST;
+  }
+}
+
+/**
+ * Wait for a delay, returning early when the signal aborts
+ */
+function sleep(delay: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise(resolve => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Prefix an error with the client name, preserving TealTiger error codes
+ */
+export function wrapClientError(clientName: string, error: unknown): unknown {
+  if (isTealTigerError(error)) {
+    return createTealTigerError(
+      `${clientName} error: ${error.message}`,
+      error.code,
+      error.details,
+      error
+    );
+  }
+
+  if (error instanceof Error) {
+    return new Error(`${clientName} error: ${error.message}`);
+  }
+
+  return error;
+}
@@ -4,12 +4,17 @@
  * Drop-in replacement for Anthropic client with integrated security and cost tracking
  */
 
-import { GuardrailEngine, GuardrailEngineResult } from '../guardrails';
+import { GuardrailEngine, GuardrailEngineResult, PIIVault } from '../guardrails';
 import { CostTracker } from '../cost/CostTracker';
 import { BudgetManager, BudgetEnforcementResult } from '../cost/BudgetManager';
 import { ICostStorage } from '../cost/CostStorage';
 import { CostRecord } from '../cost/types';
 import { generateId } from '../cost/utils';
+import { TealTigerErrorCode } from '../types';
+import { createTealTigerError } from '../utils/errors';
+import { HttpTransport, FetchLike, wrapClientError } from './HttpTransport';
+import { ToolCallEnforcer, ToolCallPolicyConfig, ToolCallDecision } from './ToolCallEnforcer';
+import { GuardrailTransformation, applyMessageRewrites, hasRewrites, rewriteText } from './GuardrailRewriter';
 
 /**
  * Configuration for TealAnthropic client
@@ -33,21 +38,60 @@ export interface TealAnthropicConfig {
   costStorage?: ICostStorage;
   /** Optional: Anthropic base URL */
   baseURL?: string;
+  /** Optional: Anthropic API version header (default: 2023-06-01) */
+  anthropicVersion?: string;
+  /** Optional: Custom fetch implementation (default: global fetch) */
+  fetch?: FetchLike;
+  /** Optional: Retries for 429 and 5xx responses (default: 2) */
+  maxRetries?: number;
+  /** Optional: Request timeout in milliseconds (default: 60000) */
+  timeout?: number;
+  /** Optional: Policy enforcement for model-proposed tool calls */
+  toolCallPolicy?: ToolCallPolicyConfig;
+  /** Optional: Wait out 'throttle' budget delays or reject with a retry-after (default: 'wait') */
+  budgetThrottle?: 'wait' | 'reject';
+  /** Optional: Longest throttle delay to wait out in milliseconds (default: 60000) */
+  maxThrottleWaitMs?: number;
+  /** Optional: Vault used by PII guardrails; allowed placeholders are restored in output and tool calls */
+  piiVault?: PIIVault;
+  /** Optional: Session for vault placeholders and guardrail context (default: agentId) */
+  sessionId?: string;
 }
 
 /**
  * Message content types
  */
 export type MessageContent = string | Array<{
-  type: 'text' | 'image';
+  type: 'text' | 'image' | 'tool_use' | 'tool_result';
   text?: string;
   source?: {
     type: 'base64';
     media_type: string;
     data: string;
   };
+  /** tool_use: call ID */
+  id?: string;
+  /** tool_use: tool name */
+  name?: string;
+  /** tool_use: tool input */
+  input?: Record<string, unknown>;
+  /** tool_result: ID of the tool_use block being answered */
+  tool_use_id?: string;
+  /** tool_result: result content */
+  content?: string | Array<{ type: 'text'; text: string }>;
+  /** tool_result: whether the tool failed */
+  is_error?: boolean;
 }>;
 
+/**
+ * Tool definition offered to the model
+ */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
 /**
  * Message create request parameters
  */
@@ -64,6 +108,11 @@ export interface MessageCreateRequest {
   top_k?: number;
   stop_sequences?: string[];
   stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: {
+    type: 'auto' | 'any' | 'tool';
+    name?: string;
+  };
   metadata?: {
     user_id?: string;
   };
@@ -77,11 +126,18 @@ export interface MessageCreateResponse {
   type: 'message';
   role: 'assistant';
   content: Array<{
-    type: 'text';
-    text: string;
+    type: 'text' | 'tool_use';
+    /** text: generated text */
+    text?: string;
+    /** tool_use: call ID */
+    id?: string;
+    /** tool_use: tool name */
+    name?: string;
+    /** tool_use: tool input */
+    input?: Record<string, unknown>;
   }>;
   model: string;
-  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | null;
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
   stop_sequence: string | null;
   usage: {
     input_tokens: number;
@@ -92,6 +148,12 @@ export interface MessageCreateResponse {
     guardrailResult?: GuardrailEngineResult;
     costRecord?: CostRecord;
     budgetCheck?: BudgetEnforcementResult;
+    /** Policy decisions for model-proposed tool calls */
+    toolCalls?: ToolCallDecision[];
+    /** Redact, mask and transform rewrites applied to the request and response */
+    transformations?: GuardrailTransformation[];
+    /** Vault placeholders restored in the response */
+    restoredTokens?: string[];
   };
 }
 
@@ -104,6 +166,7 @@ export class TealAnthropic {
   private costTracker: CostTracker | undefined;
   private budgetManager: BudgetManager | undefined;
   private costStorage: ICostStorage | undefined;
+  private toolCallEnforcer: ToolCallEnforcer | undefined;
 
   constructor(config: TealAnthropicConfig) {
     this.config = {
@@ -117,6 +180,9 @@ export class TealAnthropic {
     this.costTracker = config.costTracker;
     this.budgetManager = config.budgetManager;
     this.costStorage = config.costStorage;
+    this.toolCallEnforcer = config.toolCallPolicy
+      ? new ToolCallEnforcer(config.toolCallPolicy)
+      : undefined;
   }
 
   /**
@@ -141,12 +207,13 @@ export class TealAnthropic {
     try {
       // 1. Run guardrails on input (if enabled)
       if (this.config.enableGuardrails && this.guardrailEngine) {
-        const userMessages = request.messages
-          .filter(m => m.role === 'user')
-          .map(m => this.extractTextContent(m.content))
-          .join('\n');
+        // Messages keep their roles, so guardrails can weigh system, user and tool content
+        const guardrailInput = { messages: this.getConversation(request) };
 
-        const guardrailResult = await this.guardrailEngine.execute(userMessages);
+        const guardrailResult = await this.guardrailEngine.execute(
+          guardrailInput,
+          this.getGuardrailContext(agentId)
+        );
         security.guardrailResult = guardrailResult;
 
         if (!guardrailResult.passed) {
@@ -155,16 +222,26 @@ export class TealAnthropic {
             `Guardrail check failed: ${failedGuardrails} (Risk: ${guardrailResult.maxRiskScore})`
           );
         }
+
+        // Send redacted/masked/transformed user messages to Anthropic
+        if (hasRewrites(guardrailResult)) {
+          request = await this.rewriteInput(
+            this.guardrailEngine,
+            guardrailResult,
+            guardrailInput,
+            request,
+            agentId,
+            security
+          );
+        }
       }
 
       // 2. Estimate cost and check budget (if enabled)
       if (this.config.enableCostTracking && this.costTracker) {
-        // Estimate tokens (rough approximation: 4 chars = 1 token)
-        const inputText = request.messages
-          .map(m => this.extractTextContent(m.content))
-          .join('\n');
-        const systemText = request.system || '';
-        const estimatedInputTokens = Math.ceil((inputText.length + systemText.length) / 4);
+        // Estimate input tokens with the model's tokenizer
+        const estimatedInputTokens =
+          this.costTracker.countMessageTokens(request.model, this.getConversation(request), 'anthropic') +
+          (request.tools ? this.costTracker.countTokens(request.model, JSON.stringify(request.tools), 'anthropic') : 0);
         const estimatedOutputTokens = request.max_tokens;
 
         const estimate = this.costTracker.estimateCost(
@@ -179,12 +256,21 @@ export class TealAnthropic {
 
         // Check budget
         if (this.budgetManager) {
-          const budgetCheck = await this.budgetManager.checkBudget(
-            agentId,
-            estimate.estimatedCost
-          );
+          const budgetCheck = this.config.budgetThrottle === 'reject'
+            ? await this.budgetManager.checkBudget(agentId, estimate.estimatedCost)
+            : await this.budgetManager.waitForBudget(agentId, estimate.estimatedCost, {
+              maxWaitMs: this.config.maxThrottleWaitMs ?? 60000,
+            });
           security.budgetCheck = budgetCheck;
 
+          if (budgetCheck.throttled) {
+            throw createTealTigerError(
+              `Budget throttled: ${budgetCheck.throttledBy?.name} (retry after ${budgetCheck.retryAfterMs}ms)`,
+              TealTigerErrorCode.RATE_LIMITED,
+              { budgetId: budgetCheck.throttledBy?.id, retryAfterMs: budgetCheck.retryAfterMs }
+            );
+          }
+
           if (!budgetCheck.allowed) {
             throw new Error(
               `Budget exceeded: ${budgetCheck.blockedBy?.name} (Limit: ${budgetCheck.blockedBy?.limit})`
@@ -199,9 +285,12 @@ export class TealAnthropic {
       // 4. Run guardrails on output (if enabled)
       if (this.config.enableGuardrails && this.guardrailEngine) {
         const assistantMessage = response.content
-          .map(c => c.text)
+          .map(c => (c.type === 'tool_use' ? `${c.name}(${JSON.stringify(c.input ?? {})})` : c.text))
           .join('\n');
-        const outputGuardrailResult = await this.guardrailEngine.execute(assistantMessage);
+        const outputGuardrailResult = await this.guardrailEngine.execute(
+          assistantMessage,
+          this.getGuardrailContext(agentId)
+        );
 
         if (!outputGuardrailResult.passed) {
           const failedGuardrails = outputGuardrailResult.getFailedGuardrails().join(', ');
@@ -209,9 +298,36 @@ export class TealAnthropic {
             `Output guardrail check failed: ${failedGuardrails}`
           );
         }
+
+        if (hasRewrites(outputGuardrailResult)) {
+          await this.rewriteOutput(
+            this.guardrailEngine,
+            outputGuardrailResult,
+            assistantMessage,
+            response,
+            agentId,
+            security
+          );
+        }
+
+        // Restore vault placeholders the vault policy allows
+        if (this.config.piiVault) {
+          await this.restoreTokens(this.config.piiVault, response, agentId, security);
+        }
+      }
+
+      // 5. Enforce tool call policies (if configured)
+      if (this.toolCallEnforcer) {
+        security.toolCalls = await this.enforceToolCalls(
+          this.toolCallEnforcer,
+          request,
+          response,
+          requestId,
+          agentId
+        );
       }
 
-      // 5. Track actual cost (if enabled)
+      // 6. Track actual cost (if enabled)
       if (this.config.enableCostTracking && this.costTracker && response.usage) {
         const costRecord = this.costTracker.calculateActualCost(
           requestId,
@@ -238,69 +354,203 @@ export class TealAnthropic {
         }
       }
 
-      // 6. Return response with security metadata
+      // 7. Return response with security metadata
       return {
         ...response,
         security,
       };
     } catch (error) {
       // Re-throw with context
-      if (error instanceof Error) {
-        throw new Error(`TealAnthropic error: ${error.message}`);
+      throw wrapClientError('TealAnthropic', error);
+    }
+  }
+
+  /**
+   * Restore vault placeholders in text blocks and tool_use inputs in place
+   */
+  private async restoreTokens(
+    vault: PIIVault,
+    response: MessageCreateResponse,
+    agentId: string,
+    security: NonNullable<MessageCreateResponse['security']>
+  ): Promise<void> {
+    const sessionId = this.getGuardrailContext(agentId).sessionId;
+    const restored = new Set<string>();
+
+    for (const block of response.content) {
+      if (block.type === 'text' && block.text) {
+        const result = await vault.detokenize(sessionId, block.text, 'output');
+        block.text = result.value;
+        result.restored.forEach(token => restored.add(token));
+      } else if (block.type === 'tool_use' && block.input) {
+        const result = await vault.detokenizeParameters(sessionId, block.input, 'toolCalls');
+        block.input = result.value;
+        result.restored.forEach(token => restored.add(token));
       }
-      throw error;
+    }
+
+    if (restored.size > 0) {
+      security.restoredTokens = Array.from(restored);
     }
   }
 
   /**
-   * Extract text content from message content (handles both string and array formats)
+   * Context passed to guardrails (sessionId scopes vault placeholders)
    */
-  private extractTextContent(content: MessageContent): string {
-    if (typeof content === 'string') {
-      return content;
+  private getGuardrailContext(agentId: string): { agentId: string; sessionId: string } {
+    return { agentId, sessionId: this.config.sessionId || agentId };
+  }
+
+  /**
+   * Evaluate proposed tool_use blocks and strip or rewrite them in place
+   */
+  private async enforceToolCalls(
+    enforcer: ToolCallEnforcer,
+    request: MessageCreateRequest,
+    response: MessageCreateResponse,
+    requestId: string,
+    agentId: string
+  ): Promise<ToolCallDecision[]> {
+    const toolUses = response.content.filter(c => c.type === 'tool_use');
+    if (toolUses.length === 0) {
+      return [];
+    }
+
+    const decisions = await enforcer.enforce(
+      toolUses.map(c => ({ id: c.id || '', name: c.name || '', arguments: c.input })),
+      agentId,
+      { metadata: { source: 'tool_call', provider: 'anthropic', model: request.model, requestId } }
+    );
+
+    const byId = new Map(decisions.map(d => [d.id, d]));
+    response.content = response.content.flatMap(block => {
+      const decision = block.type === 'tool_use' ? byId.get(block.id || '') : undefined;
+      if (!decision) {
+        return [block];
+      }
+      if (decision.stripped) {
+        return [];
+      }
+      if (decision.transformed) {
+        return [{ ...block, name: decision.transformed.toolName, input: decision.transformed.parameters }];
+      }
+      return [block];
+    });
+
+    if (response.stop_reason === 'tool_use' && !response.content.some(c => c.type === 'tool_use')) {
+      response.stop_reason = 'end_turn';
     }
-    
-    return content
-      .filter(item => item.type === 'text' && item.text)
-      .map(item => item.text)
-      .join('\n');
+
+    return decisions;
   }
 
   /**
-   * Call Anthropic API (mock implementation - would use actual Anthropic SDK in production)
+   * Apply the rewrites of the input guardrail result to the system prompt and
+   * the text of each message, returning a new request
+   *
+   * Transformation indexes count the system prompt as message 0.
+   */
+  private async rewriteInput(
+    engine: GuardrailEngine,
+    result: GuardrailEngineResult,
+    evaluated: unknown,
+    request: MessageCreateRequest,
+    agentId: string,
+    security: NonNullable<MessageCreateResponse['security']>
+  ): Promise<MessageCreateRequest> {
+    const context = this.getGuardrailContext(agentId);
+    const { messages, transformations, complete } = applyMessageRewrites(this.getConversation(request), result);
+    security.transformations = [...(security.transformations || []), ...transformations];
+
+    if (!complete) {
+      for (const [index, message] of messages.entries()) {
+        if (typeof message.content === 'string') {
+          const rewrite = await rewriteText(engine, result, evaluated, message.content, 'input', index, context);
+          messages[index] = { ...message, content: rewrite.text };
+          security.transformations = [...(security.transformations || []), ...rewrite.transformations];
+          continue;
+        }
+
+        const content = [...message.content];
+        for (const [partIndex, part] of content.entries()) {
+          if (part.type !== 'text' || !part.text) {
+            continue;
+          }
+          const rewrite = await rewriteText(engine, result, evaluated, part.text, 'input', index, context);
+          content[partIndex] = { ...part, text: rewrite.text };
+          security.transformations = [...(security.transformations || []), ...rewrite.transformations];
+        }
+        messages[index] = { ...message, content };
+      }
+    }
+
+    // Split the system prompt back out of the conversation
+    const offset = request.system === undefined ? 0 : 1;
+    const rewritten: MessageCreateRequest = {
+      ...request,
+      messages: request.messages.map((message, index) => ({ ...message, content: messages[index + offset].content })),
+    };
+    const system = messages[0]?.content;
+    if (offset === 1 && typeof system === 'string') {
+      rewritten.system = system;
+    }
+    return rewritten;
+  }
+
+  /**
+   * Messages with the system prompt as a leading system message, as guardrails and tokenizers see them
+   */
+  private getConversation(request: MessageCreateRequest): Array<{ role: string; content: MessageContent }> {
+    return request.system !== undefined
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+  }
+
+  /**
+   * Apply the rewrites of the output guardrail result to the text blocks of a response in place
+   */
+  private async rewriteOutput(
+    engine: GuardrailEngine,
+    result: GuardrailEngineResult,
+    evaluated: unknown,
+    response: MessageCreateResponse,
+    agentId: string,
+    security: NonNullable<MessageCreateResponse['security']>
+  ): Promise<void> {
+    const context = this.getGuardrailContext(agentId);
+    for (const [index, block] of response.content.entries()) {
+      if (block.type !== 'text' || !block.text) {
+        continue;
+      }
+      const rewrite = await rewriteText(engine, result, evaluated, block.text, 'output', index, context);
+      block.text = rewrite.text;
+      security.transformations = [...(security.transformations || []), ...rewrite.transformations];
+    }
+  }
+
+  /**
+   * Call Anthropic messages API
    */
   private async callAnthropic(
     request: MessageCreateRequest
   ): Promise<MessageCreateResponse> {
-    // In production, this would use the actual Anthropic SDK
-    // For now, we'll create a mock response for testing
-    
-    // This is a placeholder - in real implementation, you would:
-    // import Anthropic from '@anthropic-ai/sdk';
-    // const anthropic = new Anthropic({ apiKey: this.config.apiKey });
-    // return await anthropic.messages.create(request);
-
-    // Mock response for testing
-    const mockResponse: MessageCreateResponse = {
-      id: `msg-${generateId()}`,
-      type: 'message',
-      role: 'assistant',
-      content: [
-        {
-          type: 'text',
-          text: 'This is a mock response from TealAnthropic.',
-        },
-      ],
-      model: request.model,
-      stop_reason: 'end_turn',
-      stop_sequence: null,
-      usage: {
-        input_tokens: 50,
-        output_tokens: 10,
+    const transport = new HttpTransport({
+      provider: 'Anthropic',
+      fetch: this.config.fetch,
+      maxRetries: this.config.maxRetries,
+      timeout: this.config.timeout,
+    });
+    const baseURL = (this.config.baseURL || 'https://api.anthropic.com').replace(/\/+$/, '');
+
+    return await transport.request<MessageCreateResponse>({
+      method: 'POST',
+      url: `${baseURL}/v1/messages`,
+      headers: {
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': this.config.anthropicVersion || '2023-06-01',
       },
-    };
-
-    return mockResponse;
+      body: request,
+    });
   }
 
   /**
@@ -4,12 +4,18 @@
  * Drop-in replacement for Azure OpenAI client with integrated security and cost tracking
  */
 
-import { GuardrailEngine, GuardrailEngineResult } from '../guardrails';
+import { GuardrailEngine, GuardrailEngineResult, PIIVault } from '../guardrails';
 import { CostTracker } from '../cost/CostTracker';
 import { BudgetManager, BudgetEnforcementResult } from '../cost/BudgetManager';
 import { ICostStorage } from '../cost/CostStorage';
 import { CostRecord } from '../cost/types';
 import { generateId } from '../cost/utils';
+import { TealTigerErrorCode } from '../types';
+import { createTealTigerError } from '../utils/errors';
+import { HttpTransport, FetchLike, wrapClientError } from './HttpTransport';
+import { ToolCallEnforcer, ToolCallPolicyConfig, ToolCallDecision } from './ToolCallEnforcer';
+import { GuardrailTransformation, applyMessageRewrites, hasRewrites, rewriteText } from './GuardrailRewriter';
+import { ChatCompletionTool, ChatCompletionToolCall } from './TealOpenAI';
 
 /**
  * Configuration for TealAzureOpenAI client
@@ -37,6 +43,22 @@ export interface TealAzureOpenAIConfig {
   costStorage?: ICostStorage;
   /** Optional: Azure AD token for authentication */
   azureADToken?: string;
+  /** Optional: Custom fetch implementation (default: global fetch) */
+  fetch?: FetchLike;
+  /** Optional: Retries for 429 and 5xx responses (default: 2) */
+  maxRetries?: number;
+  /** Optional: Request timeout in milliseconds (default: 60000) */
+  timeout?: number;
+  /** Optional: Policy enforcement for model-proposed tool calls */
+  toolCallPolicy?: ToolCallPolicyConfig;
+  /** Optional: Wait out 'throttle' budget delays or reject with a retry-after (default: 'wait') */
+  budgetThrottle?: 'wait' | 'reject';
+  /** Optional: Longest throttle delay to wait out in milliseconds (default: 60000) */
+  maxThrottleWaitMs?: number;
+  /** Optional: Vault used by PII guardrails; allowed placeholders are restored in output and tool calls */
+  piiVault?: PIIVault;
+  /** Optional: Session for vault placeholders and guardrail context (default: agentId) */
+  sessionId?: string;
 }
 
 /**
@@ -46,10 +68,17 @@ export interface AzureChatCompletionRequest {
   /** Deployment name (not model name in Azure) */
   deployment: string;
   messages: Array<{
-    role: 'system' | 'user' | 'assistant' | 'function';
-    content: string;
+    role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
+    content: string | null;
     name?: string;
+    tool_calls?: ChatCompletionToolCall[];
+    tool_call_id?: string;
   }>;
+  tools?: ChatCompletionTool[];
+  tool_choice?: 'none' | 'auto' | 'required' | {
+    type: 'function';
+    function: { name: string };
+  };
   temperature?: number;
   top_p?: number;
   n?: number;
@@ -74,7 +103,8 @@ export interface AzureChatCompletionResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: ChatCompletionToolCall[];
     };
     finish_reason: string;
   }>;
@@ -88,6 +118,12 @@ export interface AzureChatCompletionResponse {
     guardrailResult?: GuardrailEngineResult;
     costRecord?: CostRecord;
     budgetCheck?: BudgetEnforcementResult;
+    /** Policy decisions for model-proposed tool calls */
+    toolCalls?: ToolCallDecision[];
+    /** Redact, mask and transform rewrites applied to the request and response */
+    transformations?: GuardrailTransformation[];
+    /** Vault placeholders restored in the response */
+    restoredTokens?: string[];
   };
 }
 
@@ -100,6 +136,7 @@ export class TealAzureOpenAI {
   private costTracker: CostTracker | undefined;
   private budgetManager: BudgetManager | undefined;
   private costStorage: ICostStorage | undefined;
+  private toolCallEnforcer: ToolCallEnforcer | undefined;
 
   constructor(config: TealAzureOpenAIConfig) {
     this.config = {
@@ -114,6 +151,9 @@ export class TealAzureOpenAI {
     this.costTracker = config.costTracker;
     this.budgetManager = config.budgetManager;
     this.costStorage = config.costStorage;
+    this.toolCallEnforcer = config.toolCallPolicy
+      ? new ToolCallEnforcer(config.toolCallPolicy)
+      : undefined;
   }
 
   /**
@@ -153,12 +193,13 @@ export class TealAzureOpenAI {
     try {
       // 1. Run guardrails on input (if enabled)
       if (this.config.enableGuardrails && this.guardrailEngine) {
-        const userMessages = request.messages
-          .filter(m => m.role === 'user')
-          .map(m => m.content)
-          .join('\n');
+        // Messages keep their roles, so guardrails can weigh system, user and tool content
+        const guardrailInput = { messages: request.messages };
 
-        const guardrailResult = await this.guardrailEngine.execute(userMessages);
+        const guardrailResult = await this.guardrailEngine.execute(
+          guardrailInput,
+          this.getGuardrailContext(agentId)
+        );
         security.guardrailResult = guardrailResult;
 
         if (!guardrailResult.passed) {
@@ -167,18 +208,31 @@ export class TealAzureOpenAI {
             `Guardrail check failed: ${failedGuardrails} (Risk: ${guardrailResult.maxRiskScore})`
           );
         }
+
+        // Send redacted/masked/transformed user messages to Azure OpenAI
+        if (hasRewrites(guardrailResult)) {
+          request = await this.rewriteInput(
+            this.guardrailEngine,
+            guardrailResult,
+            guardrailInput,
+            request,
+            agentId,
+            security
+          );
+        }
       }
 
       // 2. Estimate cost and check budget (if enabled)
       if (this.config.enableCostTracking && this.costTracker) {
-        // Estimate tokens (rough approximation: 4 chars = 1 token)
-        const inputText = request.messages.map(m => m.content).join('\n');
-        const estimatedInputTokens = Math.ceil(inputText.length / 4);
-        const estimatedOutputTokens = request.max_tokens || 500;
-
-        // Map deployment to model for pricing
+        // Map deployment to model for pricing and tokenization
         const model = this.mapDeploymentToModel(request.deployment);
 
+        // Estimate input tokens with the model's tokenizer
+        const estimatedInputTokens =
+          this.costTracker.countMessageTokens(model, request.messages, 'openai') +
+          (request.tools ? this.costTracker.countTokens(model, JSON.stringify(request.tools), 'openai') : 0);
+        const estimatedOutputTokens = request.max_tokens || 500;
+
         const estimate = this.costTracker.estimateCost(
           model,
           {
@@ -191,12 +245,21 @@ export class TealAzureOpenAI {
 
         // Check budget
         if (this.budgetManager) {
-          const budgetCheck = await this.budgetManager.checkBudget(
-            agentId,
-            estimate.estimatedCost
-          );
+          const budgetCheck = this.config.budgetThrottle === 'reject'
+            ? await this.budgetManager.checkBudget(agentId, estimate.estimatedCost)
+            : await this.budgetManager.waitForBudget(agentId, estimate.estimatedCost, {
+              maxWaitMs: this.config.maxThrottleWaitMs ?? 60000,
+            });
           security.budgetCheck = budgetCheck;
 
+          if (budgetCheck.throttled) {
+            throw createTealTigerError(
+              `Budget throttled: ${budgetCheck.throttledBy?.name} (retry after ${budgetCheck.retryAfterMs}ms)`,
+              TealTigerErrorCode.RATE_LIMITED,
+              { budgetId: budgetCheck.throttledBy?.id, retryAfterMs: budgetCheck.retryAfterMs }
+            );
+          }
+
           if (!budgetCheck.allowed) {
             throw new Error(
               `Budget exceeded: ${budgetCheck.blockedBy?.name} (Limit: ${budgetCheck.blockedBy?.limit})`
@@ -208,20 +271,28 @@ export class TealAzureOpenAI {
       // 3. Make actual Azure OpenAI API call
       const response = await this.callAzureOpenAI(request);
 
-      // 4. Run guardrails on output (if enabled)
+      // 4. Run guardrails on the output of each choice (if enabled)
       if (this.config.enableGuardrails && this.guardrailEngine) {
-        const assistantMessage = response.choices[0]?.message?.content || '';
-        const outputGuardrailResult = await this.guardrailEngine.execute(assistantMessage);
+        await this.checkOutput(this.guardrailEngine, response, agentId, security);
 
-        if (!outputGuardrailResult.passed) {
-          const failedGuardrails = outputGuardrailResult.getFailedGuardrails().join(', ');
-          throw new Error(
-            `Output guardrail check failed: ${failedGuardrails}`
-          );
+        // Restore vault placeholders the vault policy allows
+        if (this.config.piiVault) {
+          await this.restoreTokens(this.config.piiVault, response, agentId, security);
         }
       }
 
-      // 5. Track actual cost (if enabled)
+      // 5. Enforce tool call policies (if configured)
+      if (this.toolCallEnforcer) {
+        security.toolCalls = await this.enforceToolCalls(
+          this.toolCallEnforcer,
+          request,
+          response,
+          requestId,
+          agentId
+        );
+      }
+
+      // 6. Track actual cost (if enabled)
       if (this.config.enableCostTracking && this.costTracker && response.usage) {
         const model = this.mapDeploymentToModel(request.deployment);
         
@@ -250,18 +321,186 @@ export class TealAzureOpenAI {
         }
       }
 
-      // 6. Return response with security metadata
+      // 7. Return response with security metadata
       return {
         ...response,
         security,
       };
     } catch (error) {
       // Re-throw with context
-      if (error instanceof Error) {
-        throw new Error(`TealAzureOpenAI error: ${error.message}`);
+      throw wrapClientError('TealAzureOpenAI', error);
+    }
+  }
+
+  /**
+   * Apply the rewrites of the input guardrail result to each message, returning a new request
+   */
+  private async rewriteInput(
+    engine: GuardrailEngine,
+    result: GuardrailEngineResult,
+    evaluated: unknown,
+    request: AzureChatCompletionRequest,
+    agentId: string,
+    security: NonNullable<AzureChatCompletionResponse['security']>
+  ): Promise<AzureChatCompletionRequest> {
+    const context = this.getGuardrailContext(agentId);
+    const { messages, transformations, complete } = applyMessageRewrites(request.messages, result);
+    security.transformations = [...(security.transformations || []), ...transformations];
+    if (complete) {
+      return { ...request, messages };
+    }
+
+    for (const [index, message] of messages.entries()) {
+      if (typeof message.content !== 'string') {
+        continue;
       }
-      throw error;
+      const rewrite = await rewriteText(engine, result, evaluated, message.content, 'input', index, context);
+      if (rewrite.text !== message.content) {
+        messages[index] = { ...message, content: rewrite.text };
+      }
+      security.transformations = [...(security.transformations || []), ...rewrite.transformations];
     }
+
+    return { ...request, messages };
+  }
+
+  /**
+   * Run output guardrails on each choice and apply their rewrites to its content in place
+   */
+  private async checkOutput(
+    engine: GuardrailEngine,
+    response: AzureChatCompletionResponse,
+    agentId: string,
+    security: NonNullable<AzureChatCompletionResponse['security']>
+  ): Promise<void> {
+    const context = this.getGuardrailContext(agentId);
+
+    for (const [index, choice] of response.choices.entries()) {
+      const assistantMessage = [
+        choice.message.content || '',
+        ...(choice.message.tool_calls || []).map(c => `${c.function.name}(${c.function.arguments})`),
+      ].join('\n');
+      const result = await engine.execute(assistantMessage, context);
+
+      if (!result.passed) {
+        const failedGuardrails = result.getFailedGuardrails().join(', ');
+        throw new Error(
+          `Output guardrail check failed: ${failedGuardrails}`
+        );
+      }
+
+      // Return redacted/masked/transformed content to the caller
+      if (typeof choice.message.content === 'string' && hasRewrites(result)) {
+        const content = choice.message.content;
+        const rewrite = await rewriteText(engine, result, assistantMessage, content, 'output', index, context);
+        choice.message.content = rewrite.text;
+        security.transformations = [...(security.transformations || []), ...rewrite.transformations];
+      }
+    }
+  }
+
+  /**
+   * Restore vault placeholders in choice content and tool call arguments in place
+   */
+  private async restoreTokens(
+    vault: PIIVault,
+    response: AzureChatCompletionResponse,
+    agentId: string,
+    security: NonNullable<AzureChatCompletionResponse['security']>
+  ): Promise<void> {
+    const sessionId = this.getGuardrailContext(agentId).sessionId;
+    const restored = new Set<string>();
+
+    for (const choice of response.choices) {
+      if (typeof choice.message.content === 'string') {
+        const result = await vault.detokenize(sessionId, choice.message.content, 'output');
+        choice.message.content = result.value;
+        result.restored.forEach(token => restored.add(token));
+      }
+
+      for (const call of choice.message.tool_calls || []) {
+        let parameters: unknown;
+        try {
+          parameters = JSON.parse(call.function.arguments);
+        } catch {
+          // Leave malformed arguments for the tool call policy to reject
+          continue;
+        }
+        const result = await vault.detokenizeParameters(sessionId, parameters, 'toolCalls');
+        if (result.restored.length > 0) {
+          call.function.arguments = JSON.stringify(result.value);
+          result.restored.forEach(token => restored.add(token));
+        }
+      }
+    }
+
+    if (restored.size > 0) {
+      security.restoredTokens = Array.from(restored);
+    }
+  }
+
+  /**
+   * Context passed to guardrails (sessionId scopes vault placeholders)
+   */
+  private getGuardrailContext(agentId: string): { agentId: string; sessionId: string } {
+    return { agentId, sessionId: this.config.sessionId || agentId };
+  }
+
+  /**
+   * Evaluate proposed tool calls and strip or rewrite them in place
+   */
+  private async enforceToolCalls(
+    enforcer: ToolCallEnforcer,
+    request: AzureChatCompletionRequest,
+    response: AzureChatCompletionResponse,
+    requestId: string,
+    agentId: string
+  ): Promise<ToolCallDecision[]> {
+    const allDecisions: ToolCallDecision[] = [];
+
+    for (const choice of response.choices) {
+      const toolCalls = choice.message.tool_calls;
+      if (!toolCalls || toolCalls.length === 0) {
+        continue;
+      }
+
+      const decisions = await enforcer.enforce(
+        toolCalls.map(c => ({ id: c.id, name: c.function.name, arguments: c.function.arguments })),
+        agentId,
+        { metadata: { source: 'tool_call', provider: 'azure-openai', deployment: request.deployment, requestId } }
+      );
+      allDecisions.push(...decisions);
+
+      const remaining: ChatCompletionToolCall[] = [];
+      toolCalls.forEach((call, i) => {
+        const decision = decisions[i];
+        if (decision.stripped) {
+          return;
+        }
+        if (decision.transformed) {
+          remaining.push({
+            ...call,
+            function: {
+              name: decision.transformed.toolName,
+              arguments: JSON.stringify(decision.transformed.parameters),
+            },
+          });
+          return;
+        }
+        remaining.push(call);
+      });
+
+      if (remaining.length > 0) {
+        choice.message.tool_calls = remaining;
+      } else {
+        delete choice.message.tool_calls;
+        if (choice.finish_reason === 'tool_calls') {
+          choice.finish_reason = 'stop';
+        }
+      }
+    }
+
+    return allDecisions;
   }
 
   /**
@@ -287,43 +526,29 @@ export class TealAzureOpenAI {
   }
 
   /**
-   * Call Azure OpenAI API (mock implementation - would use actual Azure OpenAI SDK in production)
+   * Call Azure OpenAI chat completions API
    */
   private async callAzureOpenAI(
     request: AzureChatCompletionRequest
   ): Promise<AzureChatCompletionResponse> {
-    // In production, this would use the actual Azure OpenAI SDK
-    // For now, we'll create a mock response for testing
-    
-    // This is a placeholder - in real implementation, you would:
-    // import { OpenAIClient, AzureKeyCredential } from '@azure/openai';
-    // const client = new OpenAIClient(this.config.endpoint, new AzureKeyCredential(this.config.apiKey));
-    // return await client.getChatCompletions(request.deployment, request.messages, options);
-
-    // Mock response for testing
-    const mockResponse: AzureChatCompletionResponse = {
-      id: `chatcmpl-${generateId()}`,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model: request.deployment,
-      choices: [
-        {
-          index: 0,
-          message: {
-            role: 'assistant',
-            content: 'This is a mock response from TealAzureOpenAI.',
-          },
-          finish_reason: 'stop',
-        },
-      ],
-      usage: {
-        prompt_tokens: 50,
-        completion_tokens: 10,
-        total_tokens: 60,
-      },
-    };
-
-    return mockResponse;
+    const transport = new HttpTransport({
+      provider: 'Azure OpenAI',
+      fetch: this.config.fetch,
+      maxRetries: this.config.maxRetries,
+      timeout: this.config.timeout,
+    });
+    const { deployment, ...body } = request;
+    const endpoint = this.config.endpoint.replace(/\/+$/, '');
+    const apiVersion = encodeURIComponent(this.config.apiVersion || '2024-02-15-preview');
+
+    return await transport.request<AzureChatCompletionResponse>({
+      method: 'POST',
+      url: `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+      headers: this.config.azureADToken
+        ? { Authorization: `Bearer ${this.config.azureADToken}` }
+        : { 'api-key': this.config.apiKey },
+      body,
+    });
   }
 
   /**
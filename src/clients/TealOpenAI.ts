@@ -4,12 +4,23 @@
  * Drop-in replacement for OpenAI client with integrated security and cost tracking
  */
 
-import { GuardrailEngine, GuardrailEngineResult } from '../guardrails';
+import { GuardrailEngine, GuardrailEngineResult, PIIVault } from '../guardrails';
 import { CostTracker } from '../cost/CostTracker';
 import { BudgetManager, BudgetEnforcementResult } from '../cost/BudgetManager';
 import { ICostStorage } from '../cost/CostStorage';
 import { CostRecord } from '../cost/types';
 import { generateId } from '../cost/utils';
+import { TealTigerErrorCode } from '../types';
+import { createTealTigerError } from '../utils/errors';
+import { HttpTransport, FetchLike, wrapClientError } from './HttpTransport';
+import { ToolCallEnforcer, ToolCallPolicyConfig, ToolCallDecision } from './ToolCallEnforcer';
+import {
+  GuardrailTransformation,
+  StreamRewriter,
+  applyMessageRewrites,
+  hasRewrites,
+  rewriteText,
+} from './GuardrailRewriter';
 
 /**
  * Configuration for TealOpenAI client
@@ -35,6 +46,68 @@ export interface TealOpenAIConfig {
   baseURL?: string;
   /** Optional: Organization ID */
   organization?: string;
+  /** Optional: Custom fetch implementation (default: global fetch) */
+  fetch?: FetchLike;
+  /** Optional: Retries for 429 and 5xx responses (default: 2) */
+  maxRetries?: number;
+  /** Optional: Request timeout in milliseconds (default: 60000) */
+  timeout?: number;
+  /** Optional: Policy enforcement for model-proposed tool calls */
+  toolCallPolicy?: ToolCallPolicyConfig;
+  /** Optional: Wait out 'throttle' budget delays or reject with a retry-after (default: 'wait') */
+  budgetThrottle?: 'wait' | 'reject';
+  /** Optional: Longest throttle delay to wait out in milliseconds (default: 60000) */
+  maxThrottleWaitMs?: number;
+  /** Optional: Vault used by PII guardrails; allowed placeholders are restored in output and tool calls */
+  piiVault?: PIIVault;
+  /** Optional: Session for vault placeholders and guardrail context (default: agentId) */
+  sessionId?: string;
+  /** Optional: Output guardrail settings for streamed completions */
+  streamGuardrails?: {
+    /** Trailing characters of output evaluated on each check (default: 1000) */
+    windowSize?: number;
+    /** Characters held back between checks (default: 100) */
+    checkInterval?: number;
+  };
+}
+
+/**
+ * Tool call proposed by the model
+ */
+export interface ChatCompletionToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
+  };
+}
+
+/**
+ * Fragment of a tool call in a streamed chunk; `index` identifies the call
+ * its id, name and argument text belong to
+ */
+export interface ChatCompletionToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * Tool (function) definition offered to the model
+ */
+export interface ChatCompletionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
 }
 
 /**
@@ -43,10 +116,17 @@ export interface TealOpenAIConfig {
 export interface ChatCompletionRequest {
   model: string;
   messages: Array<{
-    role: 'system' | 'user' | 'assistant' | 'function';
-    content: string;
+    role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
+    content: string | null;
     name?: string;
+    tool_calls?: ChatCompletionToolCall[];
+    tool_call_id?: string;
   }>;
+  tools?: ChatCompletionTool[];
+  tool_choice?: 'none' | 'auto' | 'required' | {
+    type: 'function';
+    function: { name: string };
+  };
   temperature?: number;
   top_p?: number;
   n?: number;
@@ -57,6 +137,9 @@ export interface ChatCompletionRequest {
   frequency_penalty?: number;
   logit_bias?: Record<string, number>;
   user?: string;
+  stream_options?: {
+    include_usage?: boolean;
+  };
 }
 
 /**
@@ -71,7 +154,8 @@ export interface ChatCompletionResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: ChatCompletionToolCall[];
     };
     finish_reason: string;
   }>;
@@ -83,11 +167,95 @@ export interface ChatCompletionResponse {
   /** TealTiger security metadata */
   security?: {
     guardrailResult?: GuardrailEngineResult;
+    outputGuardrailResult?: GuardrailEngineResult;
     costRecord?: CostRecord;
     budgetCheck?: BudgetEnforcementResult;
+    /** Policy decisions for model-proposed tool calls */
+    toolCalls?: ToolCallDecision[];
+    /** Redact, mask and transform rewrites applied to the request and response */
+    transformations?: GuardrailTransformation[];
+    /** Vault placeholders restored in the response */
+    restoredTokens?: string[];
   };
 }
 
+/**
+ * Streamed chat completion chunk
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+      tool_calls?: ChatCompletionToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }>;
+  /** Only present on the final chunk when usage is requested */
+  usage?: ChatCompletionResponse['usage'] | null;
+}
+
+/**
+ * Streamed chat completion with TealTiger security metadata
+ */
+export class ChatCompletionStream implements AsyncIterable<ChatCompletionChunk> {
+  /** Security metadata, populated as the stream is consumed */
+  public readonly security: NonNullable<ChatCompletionResponse['security']>;
+  private readonly source: AsyncIterable<ChatCompletionChunk>;
+
+  constructor(
+    source: AsyncIterable<ChatCompletionChunk>,
+    security: NonNullable<ChatCompletionResponse['security']>
+  ) {
+    this.source = source;
+    this.security = security;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ChatCompletionChunk> {
+    return this.source[Symbol.asyncIterator]();
+  }
+}
+
+/**
+ * Chat completions API surface
+ */
+export interface ChatCompletions {
+  create(request: ChatCompletionRequest & { stream: true }): Promise<ChatCompletionStream>;
+  create(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+}
+
+/**
+ * Streamed text of one choice and the chunks held back until it is checked
+ */
+interface StreamedChoice {
+  content: string;
+  pending: ChatCompletionChunk[];
+  pendingText: string;
+  rewriter: StreamRewriter;
+  last?: ChatCompletionChunk;
+  /** Tool calls gathered from streamed fragments, by index */
+  toolCalls: Map<number, ChatCompletionToolCall>;
+}
+
+/**
+ * Stream guardrail window of a configuration, with defaults applied
+ */
+function getStreamWindow(config: TealOpenAIConfig): { windowSize: number; checkInterval: number } {
+  const windowSize = config.streamGuardrails?.windowSize || 1000;
+  const checkInterval = config.streamGuardrails?.checkInterval || 100;
+  if (checkInterval > windowSize) {
+    throw new Error(
+      `TealOpenAI error: streamGuardrails.checkInterval (${checkInterval}) must not exceed windowSize (${windowSize})`
+    );
+  }
+  return { windowSize, checkInterval };
+}
+
 /**
  * TealOpenAI client - drop-in replacement for OpenAI with security
  */
@@ -97,6 +265,7 @@ export class TealOpenAI {
   private costTracker: CostTracker | undefined;
   private budgetManager: BudgetManager | undefined;
   private costStorage: ICostStorage | undefined;
+  private toolCallEnforcer: ToolCallEnforcer | undefined;
 
   constructor(config: TealOpenAIConfig) {
     this.config = {
@@ -104,21 +273,25 @@ export class TealOpenAI {
       enableCostTracking: true,
       ...config,
     };
+    getStreamWindow(this.config);
 
     // Initialize components
     this.guardrailEngine = config.guardrailEngine;
     this.costTracker = config.costTracker;
     this.budgetManager = config.budgetManager;
     this.costStorage = config.costStorage;
+    this.toolCallEnforcer = config.toolCallPolicy
+      ? new ToolCallEnforcer(config.toolCallPolicy)
+      : undefined;
   }
 
   /**
    * Chat completions API
    */
-  get chat() {
+  get chat(): { completions: ChatCompletions } {
     return {
       completions: {
-        create: this.createChatCompletion.bind(this),
+        create: this.createChatCompletion.bind(this) as ChatCompletions['create'],
       },
     };
   }
@@ -128,158 +301,689 @@ export class TealOpenAI {
    */
   private async createChatCompletion(
     request: ChatCompletionRequest
-  ): Promise<ChatCompletionResponse> {
+  ): Promise<ChatCompletionResponse | ChatCompletionStream> {
     const requestId = generateId();
     const agentId = this.config.agentId || 'default-agent';
-    const security: ChatCompletionResponse['security'] = {};
+    const security: NonNullable<ChatCompletionResponse['security']> = {};
 
     try {
-      // 1. Run guardrails on input (if enabled)
+      // 1-2. Run input guardrails (applying rewrites) and check budget
+      request = await this.runPreflightChecks(request, agentId, security);
+
+      if (request.stream) {
+        return new ChatCompletionStream(
+          this.streamChatCompletion(request, requestId, agentId, security),
+          security
+        );
+      }
+
+      // 3. Make actual OpenAI API call
+      const response = await this.callOpenAI(request);
+
+      // 4. Run guardrails on the output of each choice (if enabled)
       if (this.config.enableGuardrails && this.guardrailEngine) {
-        const userMessages = request.messages
-          .filter(m => m.role === 'user')
-          .map(m => m.content)
-          .join('\n');
+        await this.checkOutput(this.guardrailEngine, response, agentId, security);
+
+        // Restore vault placeholders the vault policy allows
+        if (this.config.piiVault) {
+          await this.restoreTokens(this.config.piiVault, response, agentId, security);
+        }
+      }
 
-        const guardrailResult = await this.guardrailEngine.execute(userMessages);
-        security.guardrailResult = guardrailResult;
+      // 5. Enforce tool call policies (if configured)
+      if (this.toolCallEnforcer) {
+        security.toolCalls = await this.enforceToolCalls(
+          this.toolCallEnforcer,
+          request,
+          response,
+          requestId,
+          agentId
+        );
+      }
 
-        if (!guardrailResult.passed) {
-          const failedGuardrails = guardrailResult.getFailedGuardrails().join(', ');
+      // 6. Track actual cost (if enabled)
+      if (response.usage) {
+        await this.trackCost(requestId, agentId, request.model, response.usage, security);
+      }
+
+      // 7. Return response with security metadata
+      return {
+        ...response,
+        security,
+      };
+    } catch (error) {
+      // Re-throw with context
+      throw wrapClientError('TealOpenAI', error);
+    }
+  }
+
+  /**
+   * Run input guardrails and budget checks before calling the provider
+   * @returns The request to send, with guardrail rewrites applied
+   */
+  private async runPreflightChecks(
+    request: ChatCompletionRequest,
+    agentId: string,
+    security: NonNullable<ChatCompletionResponse['security']>
+  ): Promise<ChatCompletionRequest> {
+    // 1. Run guardrails on input (if enabled)
+    if (this.config.enableGuardrails && this.guardrailEngine) {
+      // Messages keep their roles, so guardrails can weigh system, user and tool content
+      const guardrailInput = { messages: request.messages };
+
+      const guardrailResult = await this.guardrailEngine.execute(
+        guardrailInput,
+        this.getGuardrailContext(agentId)
+      );
+      security.guardrailResult = guardrailResult;
+
+      if (!guardrailResult.passed) {
+        const failedGuardrails = guardrailResult.getFailedGuardrails().join(', ');
+        throw new Error(
+          `Guardrail check failed: ${failedGuardrails} (Risk: ${guardrailResult.maxRiskScore})`
+        );
+      }
+
+      // Send redacted/masked/transformed user messages to the provider
+      if (hasRewrites(guardrailResult)) {
+        request = await this.rewriteInput(
+          this.guardrailEngine,
+          guardrailResult,
+          guardrailInput,
+          request,
+          agentId,
+          security
+        );
+      }
+    }
+
+    // 2. Estimate cost and check budget (if enabled)
+    if (this.config.enableCostTracking && this.costTracker) {
+      // Estimate input tokens with the model's tokenizer
+      const estimatedInputTokens =
+        this.costTracker.countMessageTokens(request.model, request.messages, 'openai') +
+        (request.tools ? this.costTracker.countTokens(request.model, JSON.stringify(request.tools), 'openai') : 0);
+      const estimatedOutputTokens = request.max_tokens || 500;
+
+      const estimate = this.costTracker.estimateCost(
+        request.model,
+        {
+          inputTokens: estimatedInputTokens,
+          outputTokens: estimatedOutputTokens,
+          totalTokens: estimatedInputTokens + estimatedOutputTokens,
+        },
+        'openai'
+      );
+
+      // Check budget
+      if (this.budgetManager) {
+        const budgetCheck = this.config.budgetThrottle === 'reject'
+          ? await this.budgetManager.checkBudget(agentId, estimate.estimatedCost)
+          : await this.budgetManager.waitForBudget(agentId, estimate.estimatedCost, {
+            maxWaitMs: this.config.maxThrottleWaitMs ?? 60000,
+          });
+        security.budgetCheck = budgetCheck;
+
+        if (budgetCheck.throttled) {
+          throw createTealTigerError(
+            `Budget throttled: ${budgetCheck.throttledBy?.name} (retry after ${budgetCheck.retryAfterMs}ms)`,
+            TealTigerErrorCode.RATE_LIMITED,
+            { budgetId: budgetCheck.throttledBy?.id, retryAfterMs: budgetCheck.retryAfterMs }
+          );
+        }
+
+        if (!budgetCheck.allowed) {
           throw new Error(
-            `Guardrail check failed: ${failedGuardrails} (Risk: ${guardrailResult.maxRiskScore})`
+            `Budget exceeded: ${budgetCheck.blockedBy?.name} (Limit: $${budgetCheck.blockedBy?.limit})`
           );
         }
       }
+    }
 
-      // 2. Estimate cost and check budget (if enabled)
-      if (this.config.enableCostTracking && this.costTracker) {
-        // Estimate tokens (rough approximation: 4 chars = 1 token)
-        const inputText = request.messages.map(m => m.content).join('\n');
-        const estimatedInputTokens = Math.ceil(inputText.length / 4);
-        const estimatedOutputTokens = request.max_tokens || 500;
+    return request;
+  }
 
-        const estimate = this.costTracker.estimateCost(
-          request.model,
-          {
-            inputTokens: estimatedInputTokens,
-            outputTokens: estimatedOutputTokens,
-            totalTokens: estimatedInputTokens + estimatedOutputTokens,
+  /**
+   * Apply the rewrites of the input guardrail result to each message, returning a new request
+   */
+  private async rewriteInput(
+    engine: GuardrailEngine,
+    result: GuardrailEngineResult,
+    evaluated: unknown,
+    request: ChatCompletionRequest,
+    agentId: string,
+    security: NonNullable<ChatCompletionResponse['security']>
+  ): Promise<ChatCompletionRequest> {
+    const context = this.getGuardrailContext(agentId);
+    const { messages, transformations, complete } = applyMessageRewrites(request.messages, result);
+    security.transformations = [...(security.transformations || []), ...transformations];
+    if (complete) {
+      return { ...request, messages };
+    }
+
+    for (const [index, message] of messages.entries()) {
+      if (typeof message.content !== 'string') {
+        continue;
+      }
+      const rewrite = await rewriteText(engine, result, evaluated, message.content, 'input', index, context);
+      if (rewrite.text !== message.content) {
+        messages[index] = { ...message, content: rewrite.text };
+      }
+      security.transformations = [...(security.transformations || []), ...rewrite.transformations];
+    }
+
+    return { ...request, messages };
+  }
+
+  /**
+   * Run output guardrails on each choice and apply their rewrites to its content in place
+   */
+  private async checkOutput(
+    engine: GuardrailEngine,
+    response: ChatCompletionResponse,
+    agentId: string,
+    security: NonNullable<ChatCompletionResponse['security']>
+  ): Promise<void> {
+    const context = this.getGuardrailContext(agentId);
+
+    for (const [index, choice] of response.choices.entries()) {
+      const assistantMessage = [
+        choice.message.content || '',
+        ...(choice.message.tool_calls || []).map(c => `${c.function.name}(${c.function.arguments})`),
+      ].join('\n');
+      const result = await engine.execute(assistantMessage, context);
+
+      if (!result.passed) {
+        const failedGuardrails = result.getFailedGuardrails().join(', ');
+        throw new Error(
+          `Output guardrail check failed: ${failedGuardrails}`
+        );
+      }
+
+      // Return redacted/masked/transformed content to the caller
+      if (typeof choice.message.content === 'string' && hasRewrites(result)) {
+        const content = choice.message.content;
+        const rewrite = await rewriteText(engine, result, assistantMessage, content, 'output', index, context);
+        choice.message.content = rewrite.text;
+        security.transformations = [...(security.transformations || []), ...rewrite.transformations];
+      }
+    }
+  }
+
+  /**
+   * Restore vault placeholders in choice content and tool call arguments in place
+   */
+  private async restoreTokens(
+    vault: PIIVault,
+    response: ChatCompletionResponse,
+    agentId: string,
+    security: NonNullable<ChatCompletionResponse['security']>
+  ): Promise<void> {
+    const sessionId = this.getGuardrailContext(agentId).sessionId;
+    const restored = new Set<string>();
+
+    for (const choice of response.choices) {
+      if (typeof choice.message.content === 'string') {
+        const result = await vault.detokenize(sessionId, choice.message.content, 'output');
+        choice.message.content = result.value;
+        result.restored.forEach(token => restored.add(token));
+      }
+
+      for (const call of choice.message.tool_calls || []) {
+        let parameters: unknown;
+        try {
+          parameters = JSON.parse(call.function.arguments);
+        } catch {
+          // Leave malformed arguments for the tool call policy to reject
+          continue;
+        }
+        const result = await vault.detokenizeParameters(sessionId, parameters, 'toolCalls');
+        if (result.restored.length > 0) {
+          call.function.arguments = JSON.stringify(result.value);
+          result.restored.forEach(token => restored.add(token));
+        }
+      }
+    }
+
+    if (restored.size > 0) {
+      security.restoredTokens = Array.from(restored);
+    }
+  }
+
+  /**
+   * Context passed to guardrails (sessionId scopes vault placeholders)
+   */
+  private getGuardrailContext(agentId: string): { agentId: string; sessionId: string } {
+    return { agentId, sessionId: this.config.sessionId || agentId };
+  }
+
+  /**
+   * Evaluate proposed tool calls and strip or rewrite them in place
+   */
+  private async enforceToolCalls(
+    enforcer: ToolCallEnforcer,
+    request: ChatCompletionRequest,
+    response: ChatCompletionResponse,
+    requestId: string,
+    agentId: string
+  ): Promise<ToolCallDecision[]> {
+    const allDecisions: ToolCallDecision[] = [];
+
+    for (const choice of response.choices) {
+      const toolCalls = choice.message.tool_calls;
+      if (!toolCalls || toolCalls.length === 0) {
+        continue;
+      }
+
+      const { decisions, remaining } = await this.enforceCalls(enforcer, toolCalls, request, requestId, agentId);
+      allDecisions.push(...decisions);
+
+      if (remaining.length > 0) {
+        choice.message.tool_calls = remaining;
+      } else {
+        delete choice.message.tool_calls;
+        if (choice.finish_reason === 'tool_calls') {
+          choice.finish_reason = 'stop';
+        }
+      }
+    }
+
+    return allDecisions;
+  }
+
+  /**
+   * Evaluate the tool calls of one choice and return those to keep, rewritten
+   * by transform decisions
+   */
+  private async enforceCalls(
+    enforcer: ToolCallEnforcer,
+    toolCalls: ChatCompletionToolCall[],
+    request: ChatCompletionRequest,
+    requestId: string,
+    agentId: string
+  ): Promise<{ decisions: ToolCallDecision[]; remaining: ChatCompletionToolCall[] }> {
+    const decisions = await enforcer.enforce(
+      toolCalls.map(c => ({ id: c.id, name: c.function.name, arguments: c.function.arguments })),
+      agentId,
+      { metadata: { source: 'tool_call', provider: 'openai', model: request.model, requestId } }
+    );
+
+    const remaining: ChatCompletionToolCall[] = [];
+    toolCalls.forEach((call, i) => {
+      const decision = decisions[i];
+      if (decision.stripped) {
+        return;
+      }
+      if (decision.transformed) {
+        remaining.push({
+          ...call,
+          function: {
+            name: decision.transformed.toolName,
+            arguments: JSON.stringify(decision.transformed.parameters),
           },
-          'openai'
+        });
+        return;
+      }
+      remaining.push(call);
+    });
+
+    return { decisions, remaining };
+  }
+
+  /**
+   * Calculate, store and record the actual cost of a completion (if enabled)
+   */
+  private async trackCost(
+    requestId: string,
+    agentId: string,
+    model: string,
+    usage: ChatCompletionResponse['usage'],
+    security: NonNullable<ChatCompletionResponse['security']>,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    if (!this.config.enableCostTracking || !this.costTracker) {
+      return;
+    }
+
+    const costRecord = this.costTracker.calculateActualCost(
+      requestId,
+      agentId,
+      model,
+      {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      },
+      'openai',
+      metadata
+    );
+
+    security.costRecord = costRecord;
+
+    // Store cost record
+    if (this.costStorage) {
+      await this.costStorage.store(costRecord);
+    }
+
+    // Record cost with budget manager
+    if (this.budgetManager) {
+      await this.budgetManager.recordCost(costRecord);
+    }
+  }
+
+  /**
+   * Relay a streamed completion, running output guardrails over a sliding window
+   *
+   * Each choice is buffered separately: its chunks are held back until `checkInterval`
+   * characters have accumulated and the trailing `windowSize` characters of its text
+   * have passed the guardrails, so blocked text is never released to the caller.
+   * Redact, mask and transform rewrites found in the window are applied to the
+   * released text, and vault placeholders the vault policy allows are restored.
+   * With a tool call policy, tool call fragments are gathered until their choice
+   * finishes and only the calls the policy keeps are released.
+   */
+  private async *streamChatCompletion(
+    request: ChatCompletionRequest,
+    requestId: string,
+    agentId: string,
+    security: NonNullable<ChatCompletionResponse['security']>
+  ): AsyncGenerator<ChatCompletionChunk> {
+    const { windowSize, checkInterval } = getStreamWindow(this.config);
+    const guardrailEngine = this.config.enableGuardrails ? this.guardrailEngine : undefined;
+    const sessionId = this.getGuardrailContext(agentId).sessionId;
+    const inputTransformations = security.transformations || [];
+
+    // Usage is requested for cost tracking, but only relayed if the caller asked for it
+    const includeUsage = request.stream_options?.include_usage === true;
+    const upstreamRequest: ChatCompletionRequest = this.config.enableCostTracking && this.costTracker
+      ? { ...request, stream_options: { ...request.stream_options, include_usage: true } }
+      : request;
+
+    const choices = new Map<number, StreamedChoice>();
+    const trailing: ChatCompletionChunk[] = [];
+    let usage: ChatCompletionResponse['usage'] | undefined;
+
+    const getChoice = (index: number): StreamedChoice => {
+      let streamed = choices.get(index);
+      if (!streamed) {
+        streamed = {
+          content: '',
+          pending: [],
+          pendingText: '',
+          rewriter: new StreamRewriter({ vault: this.config.piiVault, sessionId, messageIndex: index }),
+          toolCalls: new Map(),
+        };
+        choices.set(index, streamed);
+      }
+      return streamed;
+    };
+
+    /**
+     * Check the trailing window of a choice and return the rewritten text to release
+     */
+    const release = async (engine: GuardrailEngine, streamed: StreamedChoice, final: boolean): Promise<string> => {
+      const start = Math.max(0, streamed.content.length - windowSize);
+      const result = await engine.execute(streamed.content.slice(start), this.getGuardrailContext(agentId));
+      security.outputGuardrailResult = result;
+
+      if (!result.passed) {
+        const failedGuardrails = result.getFailedGuardrails().join(', ');
+        throw new Error(
+          `TealOpenAI error: Output guardrail check failed: ${failedGuardrails}`
         );
+      }
 
-        // Check budget
-        if (this.budgetManager) {
-          const budgetCheck = await this.budgetManager.checkBudget(
-            agentId,
-            estimate.estimatedCost
-          );
-          security.budgetCheck = budgetCheck;
+      const text = await streamed.rewriter.release(streamed.content, { start, result }, final);
+      const rewriters = [...choices.values()].map(choice => choice.rewriter);
+      const transformations = rewriters.flatMap(rewriter => rewriter.transformations);
+      if (transformations.length > 0) {
+        security.transformations = [...inputTransformations, ...transformations];
+      }
+      const restoredTokens = [...new Set(rewriters.flatMap(rewriter => rewriter.restoredTokens))];
+      if (restoredTokens.length > 0) {
+        security.restoredTokens = restoredTokens;
+      }
+      return text;
+    };
 
-          if (!budgetCheck.allowed) {
-            throw new Error(
-              `Budget exceeded: ${budgetCheck.blockedBy?.name} (Limit: $${budgetCheck.blockedBy?.limit})`
-            );
+    /**
+     * Hold back tool call fragments, releasing the calls the policy allows in
+     * full once their choice finishes
+     */
+    const gatherToolCalls = async (
+      enforcer: ToolCallEnforcer,
+      chunk: ChatCompletionChunk
+    ): Promise<ChatCompletionChunk> => {
+      const released: ChatCompletionChunk['choices'] = [];
+
+      for (const choice of chunk.choices) {
+        const streamed = getChoice(choice.index);
+        const { tool_calls: fragments, ...delta } = choice.delta;
+        for (const fragment of fragments || []) {
+          const call = streamed.toolCalls.get(fragment.index)
+            || { id: '', type: 'function' as const, function: { name: '', arguments: '' } };
+          call.id = fragment.id || call.id;
+          call.function.name += fragment.function?.name || '';
+          call.function.arguments += fragment.function?.arguments || '';
+          streamed.toolCalls.set(fragment.index, call);
+        }
+
+        if (!choice.finish_reason || streamed.toolCalls.size === 0) {
+          // Drop choices that only carried tool call fragments
+          if (!fragments || Object.keys(delta).length > 0 || choice.finish_reason) {
+            released.push({ ...choice, delta });
           }
+          continue;
         }
+
+        const toolCalls = [...streamed.toolCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call);
+        streamed.toolCalls.clear();
+        const { decisions, remaining } = await this.enforceCalls(enforcer, toolCalls, request, requestId, agentId);
+        security.toolCalls = [...(security.toolCalls || []), ...decisions];
+
+        released.push({
+          ...choice,
+          delta: remaining.length > 0
+            ? { ...delta, tool_calls: remaining.map((call, index) => ({ index, ...call })) }
+            : delta,
+          finish_reason: remaining.length === 0 && choice.finish_reason === 'tool_calls' ? 'stop' : choice.finish_reason,
+        });
       }
 
-      // 3. Make actual OpenAI API call
-      const response = await this.callOpenAI(request);
+      return { ...chunk, choices: released };
+    };
 
-      // 4. Run guardrails on output (if enabled)
-      if (this.config.enableGuardrails && this.guardrailEngine) {
-        const assistantMessage = response.choices[0]?.message?.content || '';
-        const outputGuardrailResult = await this.guardrailEngine.execute(assistantMessage);
+    const toolCallEnforcer = request.tools?.length ? this.toolCallEnforcer : undefined;
 
-        if (!outputGuardrailResult.passed) {
-          const failedGuardrails = outputGuardrailResult.getFailedGuardrails().join(', ');
-          throw new Error(
-            `Output guardrail check failed: ${failedGuardrails}`
-          );
+    try {
+      for await (const upstream of this.callOpenAIStream(upstreamRequest)) {
+        if (upstream.usage) {
+          usage = upstream.usage;
+          if (upstream.choices.length === 0 && !includeUsage) {
+            continue;
+          }
+        }
+
+        const chunk = toolCallEnforcer && upstream.choices.length > 0
+          ? await gatherToolCalls(toolCallEnforcer, upstream)
+          : upstream;
+        if (upstream.choices.length > 0 && chunk.choices.length === 0) {
+          continue;
+        }
+
+        for (const choice of chunk.choices) {
+          getChoice(choice.index).content += choice.delta?.content || '';
+        }
+
+        if (!guardrailEngine) {
+          yield chunk;
+          continue;
+        }
+
+        // Chunks without choices follow the choices' text
+        if (chunk.choices.length === 0) {
+          trailing.push(chunk);
+          continue;
+        }
+
+        for (const choice of chunk.choices) {
+          const streamed = getChoice(choice.index);
+          const part: ChatCompletionChunk = { ...chunk, choices: [choice] };
+          streamed.pending.push(part);
+          streamed.pendingText += choice.delta?.content || '';
+          streamed.last = part;
+
+          if (streamed.pendingText.length >= checkInterval) {
+            yield* this.withStreamedText(
+              streamed.pending,
+              streamed.pendingText,
+              await release(guardrailEngine, streamed, false),
+              part
+            );
+            streamed.pending = [];
+            streamed.pendingText = '';
+          }
         }
       }
 
-      // 5. Track actual cost (if enabled)
-      if (this.config.enableCostTracking && this.costTracker && response.usage) {
-        const costRecord = this.costTracker.calculateActualCost(
+      // Flush the held-back tail of each choice
+      for (const streamed of choices.values()) {
+        if (guardrailEngine && streamed.last && streamed.rewriter.getReleasedLength() < streamed.content.length) {
+          yield* this.withStreamedText(
+            streamed.pending,
+            streamed.pendingText,
+            await release(guardrailEngine, streamed, true),
+            streamed.last
+          );
+        } else {
+          yield* streamed.pending;
+        }
+      }
+      yield* trailing;
+    } finally {
+      // Finalise cost from the usage chunk, or estimate it if the stream was cut off
+      if (usage) {
+        await this.trackCost(requestId, agentId, request.model, usage, security);
+      } else if (this.costTracker) {
+        const content = [...choices.values()].map(streamed => streamed.content).join('');
+        const promptTokens = this.costTracker.countMessageTokens(request.model, request.messages, 'openai');
+        const completionTokens = this.costTracker.countTokens(request.model, content, 'openai');
+        await this.trackCost(
           requestId,
           agentId,
           request.model,
           {
-            inputTokens: response.usage.prompt_tokens,
-            outputTokens: response.usage.completion_tokens,
-            totalTokens: response.usage.total_tokens,
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens,
           },
-          'openai'
+          security,
+          { usageEstimated: true }
         );
+      }
+    }
+  }
 
-        security.costRecord = costRecord;
+  /**
+   * Chunks carrying the released text in place of their streamed content
+   *
+   * Unchanged chunks are returned as they are; otherwise the first content
+   * chunk carries the released text and the others carry none. Without a
+   * chunk to carry it, a chunk like `template` is added.
+   */
+  private withStreamedText(
+    chunks: ChatCompletionChunk[],
+    streamed: string,
+    released: string,
+    template: ChatCompletionChunk
+  ): ChatCompletionChunk[] {
+    if (released === streamed) {
+      return chunks;
+    }
 
-        // Store cost record
-        if (this.costStorage) {
-          await this.costStorage.store(costRecord);
-        }
+    let carrier = chunks.findIndex(chunk => typeof chunk.choices[0]?.delta?.content === 'string');
+    if (carrier === -1) {
+      carrier = chunks.findIndex(chunk => chunk.choices.length > 0);
+    }
+    if (carrier === -1) {
+      const { id, object, created, model } = template;
+      const index = template.choices[0]?.index || 0;
+      return [...chunks, { id, object, created, model, choices: [{ index, delta: { content: released }, finish_reason: null }] }];
+    }
 
-        // Record cost with budget manager
-        if (this.budgetManager) {
-          await this.budgetManager.recordCost(costRecord);
-        }
+    return chunks.map((chunk, index) => {
+      const [choice, ...others] = chunk.choices;
+      if (!choice || (index !== carrier && typeof choice.delta?.content !== 'string')) {
+        return chunk;
       }
-
-      // 6. Return response with security metadata
-      return {
-        ...response,
-        security,
-      };
-    } catch (error) {
-      // Re-throw with context
-      if (error instanceof Error) {
-        throw new Error(`TealOpenAI error: ${error.message}`);
-      }
-      throw error;
-    }
+      const content = index === carrier ? released : '';
+      return { ...chunk, choices: [{ ...choice, delta: { ...choice.delta, content } }, ...others] };
+    });
   }
 
   /**
-   * Call OpenAI API (mock implementation - would use actual OpenAI SDK in production)
+   * Call OpenAI chat completions API
    */
   private async callOpenAI(
     request: ChatCompletionRequest
   ): Promise<ChatCompletionResponse> {
-    // In production, this would use the actual OpenAI SDK
-    // For now, we'll create a mock response for testing
-    
-    // This is a placeholder - in real implementation, you would:
-    // import OpenAI from 'openai';
-    // const openai = new OpenAI({ apiKey: this.config.apiKey });
-    // return await openai.chat.completions.create(request);
-
-    // Mock response for testing
-    const mockResponse: ChatCompletionResponse = {
-      id: `chatcmpl-${generateId()}`,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model: request.model,
-      choices: [
-        {
-          index: 0,
-          message: {
-            role: 'assistant',
-            content: 'This is a mock response from TealOpenAI.',
-          },
-          finish_reason: 'stop',
-        },
-      ],
-      usage: {
-        prompt_tokens: 50,
-        completion_tokens: 10,
-        total_tokens: 60,
-      },
-    };
+    return await this.createTransport().request<ChatCompletionResponse>({
+      method: 'POST',
+      url: `${this.getBaseURL()}/chat/completions`,
+      headers: this.getHeaders(),
+      body: request,
+    });
+  }
+
+  /**
+   * Stream from OpenAI chat completions API
+   */
+  private async *callOpenAIStream(
+    request: ChatCompletionRequest
+  ): AsyncGenerator<ChatCompletionChunk> {
+    try {
+      const events = this.createTransport().stream({
+        method: 'POST',
+        url: `${this.getBaseURL()}/chat/completions`,
+        headers: this.getHeaders(),
+        body: { ...request, stream: true },
+      });
+
+      for await (const data of events) {
+        yield JSON.parse(data) as ChatCompletionChunk;
+      }
+    } catch (error) {
+      throw wrapClientError('TealOpenAI', error);
+    }
+  }
+
+  /**
+   * Create an HTTP transport from the current configuration
+   */
+  private createTransport(): HttpTransport {
+    return new HttpTransport({
+      provider: 'OpenAI',
+      fetch: this.config.fetch,
+      maxRetries: this.config.maxRetries,
+      timeout: this.config.timeout,
+    });
+  }
 
-    return mockResponse;
+  /**
+   * Get the API base URL without a trailing slash
+   */
+  private getBaseURL(): string {
+    return (this.config.baseURL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  /**
+   * Get request headers
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.config.apiKey}`,
+      ...(this.config.organization && { 'OpenAI-Organization': this.config.organization }),
+    };
   }
 
   /**
@@ -293,7 +997,9 @@ export class TealOpenAI {
    * Update configuration
    */
   updateConfig(updates: Partial<TealOpenAIConfig>): void {
-    this.config = { ...this.config, ...updates };
+    const config = { ...this.config, ...updates };
+    getStreamWindow(config);
+    this.config = config;
   }
 }
 
@@ -0,0 +1,191 @@
+/**
+ * Tool Call Enforcer
+ *
+ * Runs model-proposed tool calls through TealTiger security policies
+ * before they are returned to the caller
+ */
+
+import {
+  ToolParameters,
+  SecurityContext,
+  SecurityDecision,
+  SecurityAction
+} from '../types';
+
+/**
+ * Anything that evaluates a tool call the way TealTiger.evaluateTool does
+ */
+export interface ToolCallEvaluator {
+  evaluateTool(
+    toolName: string,
+    parameters: ToolParameters,
+    context?: SecurityContext
+  ): Promise<SecurityDecision>;
+}
+
+/**
+ * Tool call policy options for the drop-in clients
+ */
+export interface ToolCallPolicyConfig {
+  /** Decision source, e.g. a TealTiger instance */
+  evaluator: ToolCallEvaluator;
+  /**
+   * What to do with denied calls (default: 'annotate')
+   * - annotate: keep the call and record the decision
+   * - strip: remove the call from the response
+   * - block: reject the whole response
+   */
+  onDeny?: 'annotate' | 'strip' | 'block';
+  /** Rewrite calls with the transformed request of 'transform' decisions (default: true) */
+  applyTransforms?: boolean;
+}
+
+/**
+ * Provider-neutral tool call proposed by the model
+ */
+export interface ProposedToolCall {
+  id: string;
+  name: string;
+  /** Parsed parameters, or the raw provider value if parsing failed */
+  arguments: unknown;
+}
+
+/**
+ * Policy decision for a single tool call
+ */
+export interface ToolCallDecision {
+  /** Provider tool call ID */
+  id: string;
+  /** Tool name proposed by the model */
+  toolName: string;
+  /** Parameters proposed by the model */
+  parameters: ToolParameters;
+  /** Resulting action */
+  action: SecurityAction;
+  /** Full security decision */
+  decision: SecurityDecision;
+  /** Whether the call was removed from the response */
+  stripped: boolean;
+  /** Rewritten call (if a transform was applied) */
+  transformed?: {
+    toolName: string;
+    parameters: ToolParameters;
+  };
+}
+
+/**
+ * Evaluates proposed tool calls against a ToolCallEvaluator
+ */
+export class ToolCallEnforcer {
+  private readonly config: ToolCallPolicyConfig;
+
+  constructor(config: ToolCallPolicyConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Evaluate each proposed call; throws if any call is denied in 'block' mode
+   */
+  async enforce(
+    calls: ProposedToolCall[],
+    agentId: string,
+    context: SecurityContext = {}
+  ): Promise<ToolCallDecision[]> {
+    const onDeny = this.config.onDeny || 'annotate';
+    const applyTransforms = this.config.applyTransforms !== false;
+    const decisions: ToolCallDecision[] = [];
+
+    for (const call of calls) {
+      const parameters = this.toParameters(call.arguments);
+      const decision = parameters
+        ? await this.evaluate(agentId, call.name, parameters, context)
+        : this.createDenyDecision(agentId, call.name, 'Tool call arguments are not a valid JSON object');
+
+      const result: ToolCallDecision = {
+        id: call.id,
+        toolName: call.name,
+        parameters: parameters || {},
+        action: decision.action,
+        decision,
+        stripped: decision.action === 'deny' && onDeny === 'strip',
+      };
+
+      if (decision.action === 'transform' && applyTransforms && decision.transformedRequest) {
+        result.transformed = {
+          toolName: decision.transformedRequest.toolName,
+          parameters: decision.transformedRequest.parameters,
+        };
+      }
+
+      decisions.push(result);
+    }
+
+    const denied = decisions.filter(d => d.action === 'deny');
+    if (onDeny === 'block' && denied.length > 0) {
+      throw new Error(
+        `Tool call denied by policy: ${denied.map(d => `${d.toolName} (${d.decision.reason})`).join(', ')}`
+      );
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Evaluate a single call, failing closed on evaluator errors
+   */
+  private async evaluate(
+    agentId: string,
+    toolName: string,
+    parameters: ToolParameters,
+    context: SecurityContext
+  ): Promise<SecurityDecision> {
+    try {
+      return await this.config.evaluator.evaluateTool(toolName, parameters, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.createDenyDecision(agentId, toolName, `Tool call evaluation failed: ${message}`);
+    }
+  }
+
+  /**
+   * Normalize provider arguments (JSON string or object) into parameters
+   */
+  private toParameters(args: unknown): ToolParameters | undefined {
+    let value = args;
+    if (typeof value === 'string') {
+      if (value.trim() === '') {
+        return {};
+      }
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    }
+
+    if (value === undefined || value === null) {
+      return {};
+    }
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+
+    return value as ToolParameters;
+  }
+
+  /**
+   * Create a local deny decision
+   */
+  private createDenyDecision(agentId: string, toolName: string, reason: string): SecurityDecision {
+    return {
+      requestId: `tool-call-${Date.now()}`,
+      agentId,
+      toolName,
+      action: 'deny',
+      reason,
+      riskLevel: 'high',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
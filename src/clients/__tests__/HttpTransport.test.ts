@@ -0,0 +1,268 @@
+/**
+ * HttpTransport Tests
+ *
+ * Runs against a local stub server using the global fetch implementation
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpTransport, TransportResponse } from '../HttpTransport';
+import { TealTigerErrorCode } from '../../types';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, body: string) => void;
+
+describe('HttpTransport', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let handler: Handler;
+  let requestCount: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requestCount++;
+        handler(req, res, body);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requestCount = 0;
+  });
+
+  function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  it('should send JSON and parse the response', async () => {
+    handler = (req, res, body) => sendJson(res, 200, {
+      method: req.method,
+      auth: req.headers.authorization,
+      received: JSON.parse(body),
+    });
+
+    const transport = new HttpTransport({ provider: 'Stub' });
+    const result = await transport.request<any>({
+      method: 'POST',
+      url: `${baseURL}/echo`,
+      headers: { Authorization: 'Bearer token' },
+      body: { hello: 'world' },
+    });
+
+    expect(result).toEqual({ method: 'POST', auth: 'Bearer token', received: { hello: 'world' } });
+  });
+
+  it('should yield server-sent event payloads until [DONE]', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"n":1}\n\n');
+      res.write(': keep-alive\n\ndata: {"n"');
+      res.write(':2}\n\ndata: [DONE]\n\n');
+      res.end();
+    };
+
+    const transport = new HttpTransport({ provider: 'Stub' });
+    const events: string[] = [];
+    for await (const data of transport.stream({ method: 'POST', url: `${baseURL}/stream`, body: {} })) {
+      events.push(data);
+    }
+
+    expect(events).toEqual(['{"n":1}', '{"n":2}']);
+  });
+
+  it('should retry 429 responses honouring Retry-After', async () => {
+    handler = (_req, res) => {
+      if (requestCount === 1) {
+        sendJson(res, 429, { error: { message: 'Slow down' } }, { 'Retry-After': '0' });
+      } else {
+        sendJson(res, 200, { ok: true });
+      }
+    };
+
+    const transport = new HttpTransport({ provider: 'Stub', retryDelay: 60000 });
+    const result = await transport.request<{ ok: boolean }>({ method: 'GET', url: `${baseURL}/retry` });
+
+    expect(result.ok).toBe(true);
+    expect(requestCount).toBe(2);
+  });
+
+  it('should cap Retry-After at maxRetryDelay', async () => {
+    handler = (_req, res) => {
+      if (requestCount === 1) {
+        sendJson(res, 429, { error: { message: 'Slow down' } }, { 'Retry-After': '3600' });
+      } else {
+        sendJson(res, 200, { ok: true });
+      }
+    };
+
+    const transport = new HttpTransport({ provider: 'Stub', maxRetryDelay: 10 });
+    const result = await transport.request<{ ok: boolean }>({ method: 'GET', url: `${baseURL}/retry` });
+
+    expect(result.ok).toBe(true);
+    expect(requestCount).toBe(2);
+  });
+
+  it('should stop waiting to retry when the signal aborts', async () => {
+    handler = (_req, res) => sendJson(res, 429, { error: { message: 'Slow down' } }, { 'Retry-After': '30' });
+
+    const transport = new HttpTransport({ provider: 'Stub' });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const started = Date.now();
+
+    await expect(
+      transport.request({ method: 'GET', url: `${baseURL}/limited`, signal: controller.signal })
+    ).rejects.toMatchObject({ message: 'Stub request was aborted' });
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(requestCount).toBe(1);
+  });
+
+  it('should cancel the bodies of retried responses and failed streams', async () => {
+    const cancel = jest.fn(async () => undefined);
+    const response = (status: number, chunks: string[], error?: Error): TransportResponse => ({
+      ok: status < 400,
+      status,
+      statusText: String(status),
+      headers: { get: () => null },
+      body: {
+        async *[Symbol.asyncIterator]() {
+          for (const chunk of chunks) {
+            yield new TextEncoder().encode(chunk);
+          }
+          if (error) {
+            throw error;
+          }
+        },
+        cancel,
+      },
+      text: async () => chunks.join(''),
+    });
+    const responses = [
+      response(503, ['{}']),
+      response(200, ['data: {"n":1}\n\n'], new Error('socket hang up')),
+    ];
+    const transport = new HttpTransport({
+      provider: 'Stub',
+      retryDelay: 1,
+      fetch: async () => responses.shift()!,
+    });
+
+    const events: string[] = [];
+    await expect((async () => {
+      for await (const data of transport.stream({ method: 'POST', url: `${baseURL}/stream`, body: {} })) {
+        events.push(data);
+      }
+    })()).rejects.toThrow('socket hang up');
+
+    expect(events).toEqual(['{"n":1}']);
+    expect(cancel).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up on 5xx responses after maxRetries', async () => {
+    handler = (_req, res) => sendJson(res, 500, { error: { message: 'Internal error' } });
+
+    const transport = new HttpTransport({ provider: 'Stub', maxRetries: 2, retryDelay: 1 });
+
+    await expect(transport.request({ method: 'GET', url: `${baseURL}/fail` })).rejects.toMatchObject({
+      code: TealTigerErrorCode.SERVER_ERROR,
+      message: 'Stub API error (500): Internal error',
+      details: expect.objectContaining({ status: 500 }),
+    });
+    expect(requestCount).toBe(3);
+  });
+
+  it('should map rate limits to RATE_LIMITED when retries are exhausted', async () => {
+    handler = (_req, res) => sendJson(res, 429, { error: { message: 'Rate limited' } }, { 'Retry-After': '0' });
+
+    const transport = new HttpTransport({ provider: 'Stub', maxRetries: 0 });
+
+    await expect(transport.request({ method: 'GET', url: `${baseURL}/limited` })).rejects.toMatchObject({
+      code: TealTigerErrorCode.RATE_LIMITED,
+    });
+  });
+
+  it('should report timeouts', async () => {
+    handler = (_req, res) => setTimeout(() => sendJson(res, 200, {}), 200);
+
+    const transport = new HttpTransport({ provider: 'Stub', timeout: 20 });
+
+    await expect(transport.request({ method: 'GET', url: `${baseURL}/slow` })).rejects.toMatchObject({
+      code: TealTigerErrorCode.TIMEOUT_ERROR,
+    });
+  });
+
+  it('should time out while the response body is still arriving', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.write('{');
+      setTimeout(() => res.end('}'), 200);
+    };
+
+    const transport = new HttpTransport({ provider: 'Stub', timeout: 50 });
+
+    await expect(transport.request({ method: 'GET', url: `${baseURL}/slow-body` })).rejects.toMatchObject({
+      code: TealTigerErrorCode.TIMEOUT_ERROR,
+    });
+  });
+
+  it('should cancel a stream when the signal aborts', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"n":1}\n\n');
+      setTimeout(() => res.end('data: [DONE]\n\n'), 200);
+    };
+
+    const transport = new HttpTransport({ provider: 'Stub' });
+    const controller = new AbortController();
+    const events: string[] = [];
+
+    await expect((async () => {
+      for await (const data of transport.stream({ method: 'POST', url: `${baseURL}/stream`, signal: controller.signal })) {
+        events.push(data);
+        controller.abort();
+      }
+    })()).rejects.toMatchObject({
+      code: TealTigerErrorCode.NETWORK_ERROR,
+      message: 'Stub request was aborted',
+    });
+    expect(events).toEqual(['{"n":1}']);
+  });
+
+  it('should cancel requests when the signal aborts', async () => {
+    handler = (_req, res) => setTimeout(() => sendJson(res, 200, {}), 200);
+
+    const transport = new HttpTransport({ provider: 'Stub' });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(
+      transport.request({ method: 'GET', url: `${baseURL}/slow`, signal: controller.signal })
+    ).rejects.toMatchObject({
+      code: TealTigerErrorCode.NETWORK_ERROR,
+      message: 'Stub request was aborted',
+    });
+  });
+
+  it('should report connection failures', async () => {
+    const transport = new HttpTransport({
+      provider: 'Stub',
+      fetch: async () => {
+        throw new Error('connect ECONNREFUSED');
+      },
+    });
+
+    await expect(transport.request({ method: 'GET', url: `${baseURL}/down` })).rejects.toMatchObject({
+      code: TealTigerErrorCode.CONNECTION_ERROR,
+      message: 'Unable to connect to Stub: connect ECONNREFUSED',
+    });
+  });
+});
@@ -3,18 +3,52 @@
  */
 
 import { TealAnthropic, MessageCreateRequest } from '../TealAnthropic';
-import { GuardrailEngine, Guardrail, GuardrailResult } from '../../guardrails';
+import { GuardrailEngine, Guardrail, GuardrailResult, PIIDetectionGuardrail } from '../../guardrails';
 import { CostTracker } from '../../cost/CostTracker';
 import { BudgetManager } from '../../cost/BudgetManager';
 import { InMemoryCostStorage } from '../../cost/CostStorage';
+import { TransportRequestInit, TransportResponse } from '../HttpTransport';
+import { TealTigerErrorCode, SecurityPolicy } from '../../types';
+import { TealTiger } from '../../client/TealTiger';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): TransportResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => JSON.stringify(body),
+  };
+}
+
+// Stub of the Anthropic messages endpoint
+async function anthropicStub(_url: string, init: TransportRequestInit): Promise<TransportResponse> {
+  const body = JSON.parse(init.body || '{}');
+  return jsonResponse({
+    id: 'msg-test',
+    type: 'message',
+    role: 'assistant',
+    content: [{ type: 'text', text: 'This is a mock response from TealAnthropic.' }],
+    model: body.model,
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 50, output_tokens: 10 },
+  });
+}
 
 describe('TealAnthropic', () => {
   let storage: InMemoryCostStorage;
   let costTracker: CostTracker;
   let budgetManager: BudgetManager;
   let guardrailEngine: GuardrailEngine;
+  let fetchMock: jest.SpyInstance;
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
 
   beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(anthropicStub as any);
     storage = new InMemoryCostStorage();
     costTracker = new CostTracker({
       enabled: true,
@@ -259,6 +293,58 @@ describe('TealAnthropic', () => {
       expect(response).toBeDefined();
       expect(response.security?.guardrailResult).toBeUndefined();
     });
+
+    it('should send redacted text parts to the provider', async () => {
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+
+      const client = new TealAnthropic({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      const response = await client.messages.create({
+        model: 'claude-3-opus-20240229',
+        max_tokens: 100,
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'My SSN is 123-45-6789' }] },
+        ],
+      });
+
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(sent.messages[0].content[0].text).toBe('My SSN is [REDACTED_SSN]');
+      expect(response.security?.transformations).toEqual([
+        expect.objectContaining({ target: 'input', messageIndex: 0, action: 'redact' }),
+      ]);
+    });
+
+    it('should check and redact the system prompt', async () => {
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+
+      const client = new TealAnthropic({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      const response = await client.messages.create({
+        model: 'claude-3-opus-20240229',
+        max_tokens: 100,
+        system: 'Escalate to admin@example.com',
+        messages: [
+          { role: 'user', content: 'Hello!' },
+        ],
+      });
+
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(sent.system).toBe('Escalate to [REDACTED_EMAIL]');
+      expect(sent.messages).toEqual([{ role: 'user', content: 'Hello!' }]);
+      expect(response.security?.transformations).toEqual([
+        expect.objectContaining({ target: 'input', messageIndex: 0, action: 'redact' }),
+      ]);
+    });
   });
 
   describe('cost tracking integration', () => {
@@ -431,6 +517,104 @@ describe('TealAnthropic', () => {
     });
   });
 
+  describe('HTTP transport', () => {
+    const request: MessageCreateRequest = {
+      model: 'claude-3-opus-20240229',
+      messages: [{ role: 'user', content: 'Hello!' }],
+      max_tokens: 100,
+    };
+
+    it('should send the request with Anthropic headers', async () => {
+      const fetch = jest.fn(anthropicStub);
+      const client = new TealAnthropic({
+        apiKey: 'sk-ant-test',
+        baseURL: 'http://localhost:8080',
+        fetch,
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      await client.messages.create(request);
+
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/v1/messages');
+      expect(init.headers['x-api-key']).toBe('sk-ant-test');
+      expect(init.headers['anthropic-version']).toBe('2023-06-01');
+      expect(JSON.parse(init.body!)).toEqual(request);
+    });
+
+    it('should map overloaded errors after exhausting retries', async () => {
+      const fetch = jest.fn(async () =>
+        jsonResponse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, 529, { 'retry-after': '0' })
+      );
+      const client = new TealAnthropic({
+        apiKey: 'sk-ant-test',
+        fetch,
+        maxRetries: 1,
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      await expect(client.messages.create(request)).rejects.toMatchObject({
+        code: TealTigerErrorCode.SERVICE_UNAVAILABLE,
+      });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('tool call policies', () => {
+    const policies: SecurityPolicy[] = [
+      {
+        name: 'deny-shell',
+        action: 'deny',
+        reason: 'Shell access is not allowed',
+        conditions: [{ type: 'tool_name', pattern: 'shell*' }],
+      },
+    ];
+    const request: MessageCreateRequest = {
+      model: 'claude-3-opus-20240229',
+      messages: [{ role: 'user', content: 'Clean up the temp directory' }],
+      max_tokens: 100,
+      tools: [{ name: 'shell_exec', input_schema: { type: 'object' } }],
+    };
+
+    it('should strip denied tool_use blocks and end the turn', async () => {
+      const client = new TealAnthropic({
+        apiKey: 'sk-ant-test',
+        fetch: async () => jsonResponse({
+          id: 'msg-test',
+          type: 'message',
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Running the command now.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'shell_exec', input: { cmd: 'rm -rf /tmp' } },
+          ],
+          model: 'claude-3-opus-20240229',
+          stop_reason: 'tool_use',
+          stop_sequence: null,
+          usage: { input_tokens: 50, output_tokens: 10 },
+        }),
+        enableGuardrails: false,
+        enableCostTracking: false,
+        toolCallPolicy: {
+          evaluator: new TealTiger({ policyMode: 'local', policies }),
+          onDeny: 'strip',
+        },
+      });
+
+      const response = await client.messages.create(request);
+
+      expect(response.content).toEqual([{ type: 'text', text: 'Running the command now.' }]);
+      expect(response.stop_reason).toBe('end_turn');
+      expect(response.security?.toolCalls?.[0]).toMatchObject({
+        id: 'toolu_1',
+        toolName: 'shell_exec',
+        action: 'deny',
+        stripped: true,
+      });
+    });
+  });
+
   describe('configuration', () => {
     it('should get configuration', () => {
       const client = new TealAnthropic({
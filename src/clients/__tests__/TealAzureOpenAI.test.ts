@@ -7,14 +7,45 @@ import { GuardrailEngine, Guardrail, GuardrailResult } from '../../guardrails';
 import { CostTracker } from '../../cost/CostTracker';
 import { BudgetManager } from '../../cost/BudgetManager';
 import { InMemoryCostStorage } from '../../cost/CostStorage';
+import { TransportRequestInit, TransportResponse } from '../HttpTransport';
+import { TealTigerErrorCode } from '../../types';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): TransportResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => JSON.stringify(body),
+  };
+}
+
+// Stub of the Azure OpenAI deployment chat completions endpoint
+async function azureStub(url: string, _init: TransportRequestInit): Promise<TransportResponse> {
+  const deployment = decodeURIComponent(/\/deployments\/([^/]+)\//.exec(url)?.[1] || '');
+  return jsonResponse({
+    id: 'chatcmpl-test',
+    object: 'chat.completion',
+    created: 1700000000,
+    model: deployment,
+    choices: [{ index: 0, message: { role: 'assistant', content: 'This is a mock response from TealAzureOpenAI.' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+  });
+}
 
 describe('TealAzureOpenAI', () => {
   let storage: InMemoryCostStorage;
   let costTracker: CostTracker;
   let budgetManager: BudgetManager;
   let guardrailEngine: GuardrailEngine;
+  let fetchMock: jest.SpyInstance;
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
 
   beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(azureStub as any);
     storage = new InMemoryCostStorage();
     costTracker = new CostTracker({
       enabled: true,
@@ -460,6 +491,68 @@ describe('TealAzureOpenAI', () => {
     });
   });
 
+  describe('HTTP transport', () => {
+    const request: AzureChatCompletionRequest = {
+      deployment: 'gpt-4-deployment',
+      messages: [{ role: 'user', content: 'Hello!' }],
+    };
+
+    it('should call the deployment endpoint with the API key header', async () => {
+      const fetch = jest.fn(azureStub);
+      const client = new TealAzureOpenAI({
+        apiKey: 'azure-key',
+        endpoint: 'https://test.openai.azure.com/',
+        apiVersion: '2024-06-01',
+        fetch,
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      await client.chat.completions.create(request);
+
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe(
+        'https://test.openai.azure.com/openai/deployments/gpt-4-deployment/chat/completions?api-version=2024-06-01'
+      );
+      expect(init.headers['api-key']).toBe('azure-key');
+      expect(JSON.parse(init.body!)).toEqual({ messages: request.messages });
+    });
+
+    it('should use Azure AD token when provided', async () => {
+      const fetch = jest.fn(azureStub);
+      const client = new TealAzureOpenAI({
+        apiKey: 'azure-key',
+        endpoint: 'https://test.openai.azure.com',
+        azureADToken: 'aad-token',
+        fetch,
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      await client.chat.completions.create(request);
+
+      const [, init] = fetch.mock.calls[0];
+      expect(init.headers.Authorization).toBe('Bearer aad-token');
+      expect(init.headers['api-key']).toBeUndefined();
+    });
+
+    it('should map bad requests onto INVALID_REQUEST without retrying', async () => {
+      const fetch = jest.fn(async () => jsonResponse({ error: { message: 'Invalid deployment' } }, 404));
+      const client = new TealAzureOpenAI({
+        apiKey: 'azure-key',
+        endpoint: 'https://test.openai.azure.com',
+        fetch,
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      await expect(client.chat.completions.create(request)).rejects.toMatchObject({
+        code: TealTigerErrorCode.INVALID_REQUEST,
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('configuration', () => {
     it('should get configuration', () => {
       const client = new TealAzureOpenAI({
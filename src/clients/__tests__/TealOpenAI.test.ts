@@ -2,19 +2,100 @@
  * TealOpenAI Tests
  */
 
-import { TealOpenAI, ChatCompletionRequest } from '../TealOpenAI';
-import { GuardrailEngine, Guardrail, GuardrailResult } from '../../guardrails';
+import { TealOpenAI, ChatCompletionRequest, ChatCompletionChunk } from '../TealOpenAI';
+import {
+  GuardrailEngine,
+  Guardrail,
+  GuardrailResult,
+  PIIDetectionGuardrail,
+  PIIVault,
+  getMessagesText,
+} from '../../guardrails';
 import { CostTracker } from '../../cost/CostTracker';
 import { BudgetManager } from '../../cost/BudgetManager';
 import { InMemoryCostStorage } from '../../cost/CostStorage';
+import { TransportRequestInit, TransportResponse } from '../HttpTransport';
+import { TealTigerErrorCode, SecurityPolicy } from '../../types';
+import { TealTiger } from '../../client/TealTiger';
+
+const MOCK_CONTENT = 'This is a mock response from TealOpenAI.';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): TransportResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => JSON.stringify(body),
+  };
+}
+
+function sseResponse(events: unknown[]): TransportResponse {
+  const payload = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => null },
+    body: (async function* () {
+      yield new TextEncoder().encode(payload);
+    })(),
+    text: async () => payload,
+  };
+}
+
+async function collect(stream: AsyncIterable<ChatCompletionChunk>): Promise<ChatCompletionChunk[]> {
+  const chunks: ChatCompletionChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+// Stub of the OpenAI chat completions endpoint
+async function openAIStub(_url: string, init: TransportRequestInit): Promise<TransportResponse> {
+  const body = JSON.parse(init.body || '{}');
+  const base = { id: 'chatcmpl-test', created: 1700000000, model: body.model };
+  const usage = { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 };
+
+  if (body.stream) {
+    const chunk = (delta: Record<string, string>, finish_reason: string | null) => ({
+      ...base,
+      object: 'chat.completion.chunk',
+      choices: [{ index: 0, delta, finish_reason }],
+    });
+    const events: unknown[] = [
+      chunk({ role: 'assistant', content: '' }, null),
+      ...MOCK_CONTENT.split(/(?<= )/).map(word => chunk({ content: word }, null)),
+      chunk({}, 'stop'),
+    ];
+    if (body.stream_options?.include_usage) {
+      events.push({ ...base, object: 'chat.completion.chunk', choices: [], usage });
+    }
+    return sseResponse(events);
+  }
+
+  return jsonResponse({
+    ...base,
+    object: 'chat.completion',
+    choices: [{ index: 0, message: { role: 'assistant', content: MOCK_CONTENT }, finish_reason: 'stop' }],
+    usage,
+  });
+}
 
 describe('TealOpenAI', () => {
   let storage: InMemoryCostStorage;
   let costTracker: CostTracker;
   let budgetManager: BudgetManager;
   let guardrailEngine: GuardrailEngine;
+  let fetchMock: jest.SpyInstance;
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
 
   beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(openAIStub as any);
     storage = new InMemoryCostStorage();
     costTracker = new CostTracker({
       enabled: true,
@@ -230,6 +311,254 @@ describe('TealOpenAI', () => {
       expect(response).toBeDefined();
       expect(response.security?.guardrailResult).toBeUndefined();
     });
+
+    it('should send redacted input to the provider', async () => {
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      const response = await client.chat.completions.create({
+        model: 'gpt-4',
+        messages: [
+          { role: 'system', content: 'Support agent for test@example.com' },
+          { role: 'user', content: 'Email me at jane@example.com' },
+        ],
+      });
+
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(sent.messages[0].content).toBe('Support agent for [REDACTED_EMAIL]');
+      expect(sent.messages[1].content).toBe('Email me at [REDACTED_EMAIL]');
+      expect(response.security?.transformations).toEqual([
+        expect.objectContaining({ target: 'input', messageIndex: 0, guardrailName: 'PIIDetection', action: 'redact' }),
+        expect.objectContaining({ target: 'input', messageIndex: 1, guardrailName: 'PIIDetection', action: 'redact' }),
+      ]);
+      expect(JSON.stringify(response.security?.transformations)).not.toContain('jane@example.com');
+    });
+
+    it('should pass messages with their roles to input guardrails', async () => {
+      class RecordingGuardrail extends Guardrail {
+        public inputs: unknown[] = [];
+        async evaluate(input: unknown): Promise<GuardrailResult> {
+          this.inputs.push(input);
+          return new GuardrailResult({ passed: true, action: 'allow', reason: 'Safe' });
+        }
+      }
+      const recording = new RecordingGuardrail({ name: 'recording' });
+      guardrailEngine.registerGuardrail(recording);
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      const messages: ChatCompletionRequest['messages'] = [
+        { role: 'system', content: 'You are a support agent' },
+        { role: 'user', content: 'Look up my account' },
+        { role: 'tool', content: 'Account owner: jane@example.com', tool_call_id: 'call_1' },
+      ];
+      await client.chat.completions.create({ model: 'gpt-4', messages });
+
+      expect(recording.inputs[0]).toEqual({ messages });
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(sent.messages[2].content).toBe('Account owner: [REDACTED_EMAIL]');
+    });
+
+    it('should merge rewrites without running other guardrails again', async () => {
+      class CountingGuardrail extends Guardrail {
+        public inputs: unknown[] = [];
+        async evaluate(input: unknown): Promise<GuardrailResult> {
+          this.inputs.push(input);
+          return new GuardrailResult({ passed: true, action: 'allow', reason: 'Safe' });
+        }
+      }
+      class RefundGuardrail extends Guardrail {
+        async evaluate(input: string | { messages: unknown[] }): Promise<GuardrailResult> {
+          const text = typeof input === 'string' ? input : getMessagesText(input.messages);
+          if (!text.includes('refund')) {
+            return new GuardrailResult({ passed: true, action: 'allow', reason: 'Safe' });
+          }
+          return new GuardrailResult({
+            passed: true,
+            action: 'transform',
+            reason: 'Replaced refund',
+            metadata: { transformedText: text.replace(/refund/g, 'credit') },
+          });
+        }
+      }
+      const counting = new CountingGuardrail({ name: 'counting' });
+      guardrailEngine.registerGuardrail(counting);
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+      guardrailEngine.registerGuardrail(new RefundGuardrail({ name: 'refund' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      const response = await client.chat.completions.create({
+        model: 'gpt-4',
+        messages: [
+          { role: 'user', content: 'Email jane@example.com about the refund' },
+          { role: 'user', content: 'The refund is late' },
+        ],
+      });
+
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(sent.messages[0].content).toBe('Email [REDACTED_EMAIL] about the credit');
+      expect(sent.messages[1].content).toBe('The credit is late');
+      expect(response.security?.transformations?.map(t => [t.messageIndex, t.guardrailName])).toEqual([
+        [0, 'PIIDetection'],
+        [0, 'refund'],
+        [1, 'refund'],
+      ]);
+      // One input and one output check
+      expect(counting.inputs).toHaveLength(2);
+    });
+
+    it('should send pipeline rewrites of the messages to the provider', async () => {
+      const pipeline = new GuardrailEngine({ pipeline: true });
+      pipeline.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact', priority: 1 }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine: pipeline,
+        enableCostTracking: false,
+      });
+
+      const response = await client.chat.completions.create({
+        model: 'gpt-4',
+        messages: [
+          { role: 'system', content: 'You are a support agent' },
+          { role: 'user', content: 'Email me at jane@example.com' },
+        ],
+      });
+
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(sent.messages[0].content).toBe('You are a support agent');
+      expect(sent.messages[1].content).toBe('Email me at [REDACTED_EMAIL]');
+      expect(response.security?.transformations).toEqual([
+        expect.objectContaining({ target: 'input', messageIndex: 1, guardrailName: 'PIIDetection', action: 'redact' }),
+      ]);
+    });
+
+    it('should check the output of every choice', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'gpt-4',
+        choices: [
+          { index: 0, message: { role: 'assistant', content: 'Happy to help' }, finish_reason: 'stop' },
+          { index: 1, message: { role: 'assistant', content: 'Email jane@example.com' }, finish_reason: 'stop' },
+        ],
+        usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+      }));
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail());
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      await expect(client.chat.completions.create({
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'Who should I email?' }],
+        n: 2,
+      })).rejects.toThrow(/Output guardrail check failed: PIIDetection/);
+    });
+
+    it('should return masked output to the caller', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'gpt-4',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Call 415-555-2671' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+      }));
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'mask' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      const response = await client.chat.completions.create({
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'What is the support number?' }],
+      });
+
+      expect(response.choices[0].message.content).toBe('Call ************');
+      expect(response.security?.transformations).toEqual([
+        expect.objectContaining({ target: 'output', messageIndex: 0, action: 'mask' }),
+      ]);
+    });
+
+    it('should round-trip vault placeholders through the model', async () => {
+      fetchMock.mockImplementation(async (_url: string, init: TransportRequestInit) => {
+        const body = JSON.parse(init.body || '{}');
+        const placeholder = body.messages[0].content.match(/\[EMAIL_\d+\]/)[0];
+        return jsonResponse({
+          id: 'chatcmpl-test',
+          object: 'chat.completion',
+          created: 1700000000,
+          model: 'gpt-4',
+          choices: [{
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: `I will email ${placeholder}`,
+              tool_calls: [{
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'send_email', arguments: JSON.stringify({ to: placeholder }) },
+              }],
+            },
+            finish_reason: 'tool_calls',
+          }],
+          usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 },
+        });
+      });
+      const piiVault = new PIIVault({ detokenize: { toolCalls: ['email'] } });
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact', vault: piiVault }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        sessionId: 'ticket-42',
+        guardrailEngine,
+        piiVault,
+        enableCostTracking: false,
+      });
+
+      const response = await client.chat.completions.create({
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'Email jane@example.com the refund' }],
+      });
+
+      const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(sent.messages[0].content).toBe('Email [EMAIL_1] the refund');
+      expect(response.choices[0].message.content).toBe('I will email [EMAIL_1]');
+      expect(JSON.parse(response.choices[0].message.tool_calls![0].function.arguments)).toEqual({
+        to: 'jane@example.com',
+      });
+      expect(response.security?.restoredTokens).toEqual(['[EMAIL_1]']);
+    });
   });
 
   describe('cost tracking integration', () => {
@@ -298,6 +627,58 @@ describe('TealOpenAI', () => {
       );
     });
 
+    describe('throttle budgets', () => {
+      const request: ChatCompletionRequest = {
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'Hello!' }],
+        max_tokens: 20,
+      };
+
+      const createClient = (ratePerMinute: number, budgetThrottle?: 'wait' | 'reject') => {
+        budgetManager.createBudget({
+          name: 'Batch Budget',
+          limit: 1.0,
+          period: 'daily',
+          alertThresholds: [],
+          action: 'throttle',
+          throttle: { threshold: 0, ratePerMinute, burst: 0.002 },
+          enabled: true,
+        });
+
+        return new TealOpenAI({
+          apiKey: 'test-key',
+          agentId: 'batch-agent',
+          costTracker,
+          budgetManager,
+          costStorage: storage,
+          enableGuardrails: false,
+          ...(budgetThrottle && { budgetThrottle }),
+        });
+      };
+
+      it('should reject throttled requests with a retry-after signal', async () => {
+        const client = createClient(0.0001, 'reject');
+
+        await client.chat.completions.create(request);
+
+        await expect(client.chat.completions.create(request)).rejects.toMatchObject({
+          code: TealTigerErrorCode.RATE_LIMITED,
+          details: expect.objectContaining({ retryAfterMs: expect.any(Number) }),
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      });
+
+      it('should wait out short throttle delays by default', async () => {
+        const client = createClient(0.6);
+
+        await client.chat.completions.create(request);
+        const response = await client.chat.completions.create(request);
+
+        expect(response.security?.budgetCheck?.allowed).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      });
+    });
+
     it('should work without cost tracking when disabled', async () => {
       const client = new TealOpenAI({
         apiKey: 'test-key',
@@ -398,6 +779,459 @@ describe('TealOpenAI', () => {
     });
   });
 
+  describe('streaming', () => {
+    const streamRequest = {
+      model: 'gpt-4',
+      messages: [{ role: 'user' as const, content: 'Hello!' }],
+      stream: true as const,
+    };
+
+    it('should return an async iterable of chunks', async () => {
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      const stream = await client.chat.completions.create(streamRequest);
+      const chunks = await collect(stream);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0].object).toBe('chat.completion.chunk');
+      const text = chunks.map(c => c.choices[0]?.delta.content || '').join('');
+      expect(text).toBe('This is a mock response from TealOpenAI.');
+    });
+
+    it('should run output guardrails over the streamed text', async () => {
+      class PassingGuardrail extends Guardrail {
+        async evaluate(_input: string): Promise<GuardrailResult> {
+          return new GuardrailResult({ passed: true, action: 'allow', reason: 'Safe' });
+        }
+      }
+      guardrailEngine.registerGuardrail(new PassingGuardrail({ name: 'passing' }));
+      const executeSpy = jest.spyOn(guardrailEngine, 'execute');
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        guardrailEngine,
+        enableCostTracking: false,
+        streamGuardrails: { windowSize: 20, checkInterval: 10 },
+      });
+
+      const stream = await client.chat.completions.create(streamRequest);
+      await collect(stream);
+
+      // One input check plus several windowed output checks
+      expect(executeSpy.mock.calls.length).toBeGreaterThan(2);
+      for (const [window] of executeSpy.mock.calls.slice(1)) {
+        expect((window as string).length).toBeLessThanOrEqual(20);
+      }
+      expect(stream.security.outputGuardrailResult?.passed).toBe(true);
+    });
+
+    it('should cut off the stream when output is blocked', async () => {
+      class MockWordGuardrail extends Guardrail {
+        async evaluate(input: string): Promise<GuardrailResult> {
+          const blocked = typeof input === 'string' && input.includes('TealOpenAI');
+          return new GuardrailResult({
+            passed: !blocked,
+            action: blocked ? 'block' : 'allow',
+            reason: blocked ? 'Forbidden word' : 'Safe',
+          });
+        }
+      }
+      guardrailEngine.registerGuardrail(new MockWordGuardrail({ name: 'mock-word' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        guardrailEngine,
+        enableCostTracking: false,
+        streamGuardrails: { checkInterval: 1 },
+      });
+
+      const stream = await client.chat.completions.create(streamRequest);
+      const received: string[] = [];
+
+      await expect((async () => {
+        for await (const chunk of stream) {
+          received.push(chunk.choices[0]?.delta.content || '');
+        }
+      })()).rejects.toThrow(/Output guardrail check failed: mock-word/);
+
+      expect(received.join('')).toBe('This is a mock response from ');
+    });
+
+    it('should redact streamed output split across chunks', async () => {
+      fetchMock.mockImplementation(async () => sseResponse(
+        ['Reach me at jane@exa', 'mple.com or 415-555-', '2671 today.'].map(content => ({
+          id: 'chatcmpl-test',
+          object: 'chat.completion.chunk',
+          created: 1700000000,
+          model: 'gpt-4',
+          choices: [{ index: 0, delta: { content }, finish_reason: null }],
+        }))
+      ));
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        guardrailEngine,
+        enableCostTracking: false,
+        streamGuardrails: { checkInterval: 5 },
+      });
+
+      const stream = await client.chat.completions.create(streamRequest);
+      const text = (await collect(stream)).map(c => c.choices[0]?.delta.content || '').join('');
+
+      expect(text).toBe('Reach me at [REDACTED_EMAIL] or [REDACTED_PHONE] today.');
+      expect(stream.security.transformations).toEqual([
+        expect.objectContaining({ target: 'output', messageIndex: 0, guardrailName: 'PIIDetection', action: 'redact' }),
+      ]);
+    });
+
+    it('should restore vault placeholders split across chunks', async () => {
+      fetchMock.mockImplementation(async (_url: string, init: TransportRequestInit) => {
+        const body = JSON.parse(init.body || '{}');
+        const placeholder: string = body.messages[0].content.match(/\[EMAIL_\d+\]/)[0];
+        return sseResponse(
+          ['I will email ', placeholder.slice(0, 4), `${placeholder.slice(4)} today.`].map(content => ({
+            id: 'chatcmpl-test',
+            object: 'chat.completion.chunk',
+            created: 1700000000,
+            model: 'gpt-4',
+            choices: [{ index: 0, delta: { content }, finish_reason: null }],
+          }))
+        );
+      });
+      const piiVault = new PIIVault({ detokenize: { output: ['email'] } });
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact', vault: piiVault }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        sessionId: 'ticket-42',
+        guardrailEngine,
+        piiVault,
+        enableCostTracking: false,
+        streamGuardrails: { checkInterval: 1 },
+      });
+
+      const stream = await client.chat.completions.create({
+        ...streamRequest,
+        messages: [{ role: 'user', content: 'Email jane@example.com the refund' }],
+      });
+      const text = (await collect(stream)).map(c => c.choices[0]?.delta.content || '').join('');
+
+      expect(text).toBe('I will email jane@example.com today.');
+      expect(stream.security.restoredTokens).toEqual(['[EMAIL_1]']);
+    });
+
+    it('should finalise cost from the usage chunk', async () => {
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        costTracker,
+        budgetManager,
+        costStorage: storage,
+        enableGuardrails: false,
+      });
+      const recordSpy = jest.spyOn(budgetManager, 'recordCost');
+
+      const stream = await client.chat.completions.create(streamRequest);
+      const chunks = await collect(stream);
+
+      // The usage chunk was only requested for cost tracking
+      expect(chunks.every(chunk => chunk.choices.length > 0)).toBe(true);
+      expect(stream.security.costRecord?.actualTokens.totalTokens).toBe(60);
+      expect(recordSpy).toHaveBeenCalledWith(stream.security.costRecord);
+
+      const records = await storage.getByAgentId('test-agent');
+      expect(records).toHaveLength(1);
+    });
+
+    it('should relay the usage chunk when the caller requests it', async () => {
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        agentId: 'test-agent',
+        costTracker,
+        costStorage: storage,
+        enableGuardrails: false,
+      });
+
+      const stream = await client.chat.completions.create({
+        ...streamRequest,
+        stream_options: { include_usage: true },
+      });
+      const chunks = await collect(stream);
+
+      expect(chunks[chunks.length - 1].usage?.total_tokens).toBe(60);
+      expect(stream.security.costRecord?.actualTokens.totalTokens).toBe(60);
+    });
+
+    it('should check and release each choice separately', async () => {
+      const chunk = (index: number, content: string) => ({
+        id: 'chatcmpl-test',
+        object: 'chat.completion.chunk',
+        created: 1700000000,
+        model: 'gpt-4',
+        choices: [{ index, delta: { content }, finish_reason: null }],
+      });
+      fetchMock.mockImplementation(async () => sseResponse([
+        chunk(0, 'Reach me at jane@exa'),
+        chunk(1, 'Call 415-555-'),
+        chunk(0, 'mple.com today.'),
+        chunk(1, '2671 now.'),
+      ]));
+      guardrailEngine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        guardrailEngine,
+        enableCostTracking: false,
+        streamGuardrails: { checkInterval: 5 },
+      });
+
+      const stream = await client.chat.completions.create({ ...streamRequest, n: 2 });
+      const texts = ['', ''];
+      for (const received of await collect(stream)) {
+        for (const choice of received.choices) {
+          texts[choice.index] += choice.delta.content || '';
+        }
+      }
+
+      expect(texts).toEqual(['Reach me at [REDACTED_EMAIL] today.', 'Call [REDACTED_PHONE] now.']);
+      expect(stream.security.transformations?.map(t => t.messageIndex).sort()).toEqual([0, 1]);
+    });
+
+    it('should reject a check interval larger than the window', () => {
+      expect(() => new TealOpenAI({
+        apiKey: 'test-key',
+        streamGuardrails: { windowSize: 50, checkInterval: 100 },
+      })).toThrow(/checkInterval \(100\) must not exceed windowSize \(50\)/);
+    });
+
+    it('should block the stream before it starts when input fails', async () => {
+      class FailingGuardrail extends Guardrail {
+        async evaluate(_input: string): Promise<GuardrailResult> {
+          return new GuardrailResult({ passed: false, action: 'block', reason: 'Blocked', riskScore: 90 });
+        }
+      }
+      guardrailEngine.registerGuardrail(new FailingGuardrail({ name: 'failing' }));
+
+      const client = new TealOpenAI({
+        apiKey: 'test-key',
+        guardrailEngine,
+        enableCostTracking: false,
+      });
+
+      await expect(client.chat.completions.create(streamRequest)).rejects.toThrow(
+        /Guardrail check failed/
+      );
+    });
+  });
+
+  describe('HTTP transport', () => {
+    const request: ChatCompletionRequest = {
+      model: 'gpt-4',
+      messages: [{ role: 'user', content: 'Hello!' }],
+    };
+
+    it('should send the request to the configured base URL with auth headers', async () => {
+      const fetch = jest.fn(openAIStub);
+      const client = new TealOpenAI({
+        apiKey: 'sk-test',
+        organization: 'org-123',
+        baseURL: 'http://localhost:8080/v1/',
+        fetch,
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      await client.chat.completions.create(request);
+
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/v1/chat/completions');
+      expect(init.method).toBe('POST');
+      expect(init.headers.Authorization).toBe('Bearer sk-test');
+      expect(init.headers['OpenAI-Organization']).toBe('org-123');
+      expect(JSON.parse(init.body!)).toEqual(request);
+    });
+
+    it('should map provider errors onto TealTiger error codes', async () => {
+      const client = new TealOpenAI({
+        apiKey: 'sk-bad',
+        fetch: async () => jsonResponse({ error: { message: 'Incorrect API key', type: 'invalid_request_error' } }, 401),
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      await expect(client.chat.completions.create(request)).rejects.toMatchObject({
+        code: TealTigerErrorCode.AUTHENTICATION_ERROR,
+        message: 'TealOpenAI error: OpenAI API error (401): Incorrect API key',
+      });
+    });
+
+    it('should retry rate-limited requests honouring Retry-After', async () => {
+      const fetch = jest.fn()
+        .mockResolvedValueOnce(jsonResponse({ error: { message: 'Rate limited' } }, 429, { 'retry-after': '0' }))
+        .mockImplementation(openAIStub);
+      const client = new TealOpenAI({
+        apiKey: 'sk-test',
+        fetch,
+        enableGuardrails: false,
+        enableCostTracking: false,
+      });
+
+      const response = await client.chat.completions.create(request);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(response.choices[0].message.content).toBe(MOCK_CONTENT);
+    });
+  });
+
+  describe('tool call policies', () => {
+    const policies: SecurityPolicy[] = [
+      {
+        name: 'deny-shell',
+        action: 'deny',
+        reason: 'Shell access is not allowed',
+        conditions: [{ type: 'tool_name', pattern: 'shell*' }],
+      },
+    ];
+    const request: ChatCompletionRequest = {
+      model: 'gpt-4',
+      messages: [{ role: 'user', content: 'Clean up the temp directory' }],
+      tools: [
+        { type: 'function', function: { name: 'shell_exec', parameters: { type: 'object' } } },
+        { type: 'function', function: { name: 'list_files', parameters: { type: 'object' } } },
+      ],
+    };
+    const toolCallResponse = async () => jsonResponse({
+      id: 'chatcmpl-test',
+      object: 'chat.completion',
+      created: 1700000000,
+      model: 'gpt-4',
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'shell_exec', arguments: '{"cmd":"rm -rf /tmp"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'list_files', arguments: '{"path":"/tmp"}' } },
+          ],
+        },
+        finish_reason: 'tool_calls',
+      }],
+      usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+    });
+
+    it('should strip denied tool calls and report decisions', async () => {
+      const client = new TealOpenAI({
+        apiKey: 'sk-test',
+        fetch: toolCallResponse,
+        enableGuardrails: false,
+        enableCostTracking: false,
+        toolCallPolicy: {
+          evaluator: new TealTiger({ policyMode: 'local', policies }),
+          onDeny: 'strip',
+        },
+      });
+
+      const response = await client.chat.completions.create(request);
+
+      expect(response.choices[0].message.tool_calls?.map(c => c.id)).toEqual(['call_2']);
+      expect(response.security?.toolCalls?.map(d => [d.toolName, d.action])).toEqual([
+        ['shell_exec', 'deny'],
+        ['list_files', 'allow'],
+      ]);
+    });
+
+    it('should reject the response in block mode', async () => {
+      const client = new TealOpenAI({
+        apiKey: 'sk-test',
+        fetch: toolCallResponse,
+        enableGuardrails: false,
+        enableCostTracking: false,
+        toolCallPolicy: {
+          evaluator: new TealTiger({ policyMode: 'local', policies }),
+          onDeny: 'block',
+        },
+      });
+
+      await expect(client.chat.completions.create(request)).rejects.toThrow(
+        'TealOpenAI error: Tool call denied by policy: shell_exec (Shell access is not allowed)'
+      );
+    });
+
+    describe('streamed', () => {
+      const toolCallStream = async () => {
+        const chunk = (delta: Record<string, unknown>, finish_reason: string | null = null) => ({
+          id: 'chatcmpl-test',
+          object: 'chat.completion.chunk',
+          created: 1700000000,
+          model: 'gpt-4',
+          choices: [{ index: 0, delta, finish_reason }],
+        });
+        const fragment = (index: number, fields: Record<string, unknown>) => chunk({ tool_calls: [{ index, ...fields }] });
+        return sseResponse([
+          chunk({ role: 'assistant', content: null }),
+          fragment(0, { id: 'call_1', type: 'function', function: { name: 'shell_exec', arguments: '' } }),
+          fragment(1, { id: 'call_2', type: 'function', function: { name: 'list_files', arguments: '{"pa' } }),
+          fragment(0, { function: { arguments: '{"cmd":"rm -rf /tmp"}' } }),
+          fragment(1, { function: { arguments: 'th":"/tmp"}' } }),
+          chunk({}, 'tool_calls'),
+        ]);
+      };
+
+      it('should release only the complete calls the policy keeps', async () => {
+        const client = new TealOpenAI({
+          apiKey: 'sk-test',
+          fetch: toolCallStream,
+          enableGuardrails: false,
+          enableCostTracking: false,
+          toolCallPolicy: {
+            evaluator: new TealTiger({ policyMode: 'local', policies }),
+            onDeny: 'strip',
+          },
+        });
+
+        const stream = await client.chat.completions.create({ ...request, stream: true });
+        const toolCalls = (await collect(stream)).flatMap(c => c.choices[0]?.delta.tool_calls || []);
+
+        expect(toolCalls).toEqual([
+          { index: 0, id: 'call_2', type: 'function', function: { name: 'list_files', arguments: '{"path":"/tmp"}' } },
+        ]);
+        expect(stream.security.toolCalls?.map(d => [d.toolName, d.action])).toEqual([
+          ['shell_exec', 'deny'],
+          ['list_files', 'allow'],
+        ]);
+      });
+
+      it('should end the stream before releasing calls in block mode', async () => {
+        const client = new TealOpenAI({
+          apiKey: 'sk-test',
+          fetch: toolCallStream,
+          enableGuardrails: false,
+          enableCostTracking: false,
+          toolCallPolicy: {
+            evaluator: new TealTiger({ policyMode: 'local', policies }),
+            onDeny: 'block',
+          },
+        });
+
+        const stream = await client.chat.completions.create({ ...request, stream: true });
+        const received: ChatCompletionChunk[] = [];
+
+        await expect((async () => {
+          for await (const chunk of stream) {
+            received.push(chunk);
+          }
+        })()).rejects.toThrow('Tool call denied by policy: shell_exec (Shell access is not allowed)');
+        expect(received.some(c => c.choices[0]?.delta.tool_calls)).toBe(false);
+      });
+    });
+  });
+
   describe('configuration', () => {
     it('should get configuration', () => {
       const client = new TealOpenAI({
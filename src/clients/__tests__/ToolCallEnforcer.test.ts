@@ -0,0 +1,108 @@
+/**
+ * ToolCallEnforcer Tests
+ */
+
+import { ToolCallEnforcer, ToolCallEvaluator } from '../ToolCallEnforcer';
+import { TealTiger } from '../../client/TealTiger';
+import { SecurityPolicy } from '../../types';
+
+describe('ToolCallEnforcer', () => {
+  const policies: SecurityPolicy[] = [
+    {
+      name: 'deny-shell',
+      action: 'deny',
+      reason: 'Shell access is not allowed',
+      conditions: [{ type: 'tool_name', pattern: 'shell*' }]
+    },
+    {
+      name: 'filter-passwords',
+      action: 'transform',
+      reason: 'Remove sensitive data',
+      conditions: [{ type: 'parameter_exists', parameter: 'password' }],
+      transformation: { type: 'parameter_filter', remove_parameters: ['password'] }
+    }
+  ];
+
+  let evaluator: TealTiger;
+
+  beforeEach(() => {
+    evaluator = new TealTiger({ policyMode: 'local', agentId: 'tool-agent', policies });
+  });
+
+  it('should annotate denied calls by default', async () => {
+    const enforcer = new ToolCallEnforcer({ evaluator });
+
+    const decisions = await enforcer.enforce(
+      [
+        { id: 'call_1', name: 'shell_exec', arguments: '{"cmd":"rm -rf /"}' },
+        { id: 'call_2', name: 'web_search', arguments: { query: 'weather' } }
+      ],
+      'tool-agent'
+    );
+
+    expect(decisions.map(d => d.action)).toEqual(['deny', 'allow']);
+    expect(decisions[0].parameters).toEqual({ cmd: 'rm -rf /' });
+    expect(decisions[0].stripped).toBe(false);
+  });
+
+  it('should mark denied calls as stripped in strip mode', async () => {
+    const enforcer = new ToolCallEnforcer({ evaluator, onDeny: 'strip' });
+
+    const [decision] = await enforcer.enforce(
+      [{ id: 'call_1', name: 'shell_exec', arguments: '{}' }],
+      'tool-agent'
+    );
+
+    expect(decision.stripped).toBe(true);
+  });
+
+  it('should throw in block mode', async () => {
+    const enforcer = new ToolCallEnforcer({ evaluator, onDeny: 'block' });
+
+    await expect(
+      enforcer.enforce([{ id: 'call_1', name: 'shell_exec', arguments: '{}' }], 'tool-agent')
+    ).rejects.toThrow('Tool call denied by policy: shell_exec (Shell access is not allowed)');
+  });
+
+  it('should expose transformed parameters unless transforms are disabled', async () => {
+    const call = { id: 'call_1', name: 'login', arguments: '{"user":"alice","password":"hunter2"}' };
+
+    const [transformed] = await new ToolCallEnforcer({ evaluator }).enforce([call], 'tool-agent');
+    expect(transformed.action).toBe('transform');
+    expect(transformed.transformed).toEqual({ toolName: 'login', parameters: { user: 'alice' } });
+
+    const [untouched] = await new ToolCallEnforcer({ evaluator, applyTransforms: false }).enforce([call], 'tool-agent');
+    expect(untouched.transformed).toBeUndefined();
+  });
+
+  it('should deny calls with unparseable arguments without consulting the evaluator', async () => {
+    const evaluateTool = jest.fn();
+    const enforcer = new ToolCallEnforcer({ evaluator: { evaluateTool } });
+
+    const [decision] = await enforcer.enforce(
+      [{ id: 'call_1', name: 'web_search', arguments: '{"query": ' }],
+      'tool-agent'
+    );
+
+    expect(decision.action).toBe('deny');
+    expect(decision.decision.reason).toMatch(/not a valid JSON object/);
+    expect(evaluateTool).not.toHaveBeenCalled();
+  });
+
+  it('should fail closed when the evaluator throws', async () => {
+    const failing: ToolCallEvaluator = {
+      evaluateTool: async () => {
+        throw new Error('SSA unreachable');
+      }
+    };
+    const enforcer = new ToolCallEnforcer({ evaluator: failing });
+
+    const [decision] = await enforcer.enforce(
+      [{ id: 'call_1', name: 'web_search', arguments: '{}' }],
+      'tool-agent'
+    );
+
+    expect(decision.action).toBe('deny');
+    expect(decision.decision.reason).toBe('Tool call evaluation failed: SSA unreachable');
+  });
+});
@@ -7,3 +7,6 @@
 export * from './TealOpenAI';
 export * from './TealAnthropic';
 export * from './TealAzureOpenAI';
+export * from './HttpTransport';
+export * from './ToolCallEnforcer';
+export * from './GuardrailRewriter';
@@ -0,0 +1,203 @@
+/**
+ * Configuration Reloader
+ *
+ * Watches a configuration source and swaps in new versions only after they
+ * load and validate, keeping the previous version for instant rollback
+ */
+
+import { createHash } from 'crypto';
+import { ConfigFormat, ConfigSource } from './ConfigSource';
+
+/**
+ * Reload outcome
+ * - 'applied': a new version is active
+ * - 'rejected': the source could not be read or did not validate; the active version is unchanged
+ * - 'rolled-back': the previous version is active again
+ */
+export interface ConfigReloadEvent {
+  type: 'applied' | 'rejected' | 'rolled-back';
+  /** Source location */
+  source: string;
+  /** Active version after the event */
+  version: string | undefined;
+  /** Version that was active before the event */
+  previousVersion: string | undefined;
+  /** Read or validation error of a rejected reload */
+  error?: string;
+  timestamp: string;
+}
+
+/**
+ * Loaded configuration
+ */
+export interface LoadedConfig<T> {
+  value: T;
+  /** Version label (default: a hash of the source content) */
+  version?: string | undefined;
+}
+
+export interface ConfigReloaderOptions<T> {
+  source: ConfigSource;
+  /** Parse and validate source content; throw to reject it */
+  load(content: string, format: ConfigFormat | undefined): LoadedConfig<T>;
+  /** Activate a loaded configuration */
+  apply(value: T, version: string): void;
+}
+
+interface ConfigVersion<T> {
+  value: T;
+  version: string;
+}
+
+export class ConfigReloader<T> {
+  private readonly options: ConfigReloaderOptions<T>;
+  private active: ConfigVersion<T> | undefined;
+  private previous: ConfigVersion<T> | undefined;
+  private listeners: Array<(event: ConfigReloadEvent) => void> = [];
+  private lastContentHash: string | undefined;
+  private pending: Promise<unknown> = Promise.resolve();
+  private stopWatching: (() => void) | undefined;
+
+  constructor(options: ConfigReloaderOptions<T>) {
+    this.options = options;
+  }
+
+  /**
+   * Load the source and watch it for changes
+   *
+   * Throws when the initial configuration cannot be loaded.
+   */
+  async start(): Promise<void> {
+    let initialError: unknown;
+    if (!this.active) {
+      // Retry content rejected by an earlier start
+      this.lastContentHash = undefined;
+    }
+    const event = await this.enqueue(() => this.load((error) => {
+      initialError = error;
+    }));
+    if (event?.type === 'rejected') {
+      throw initialError;
+    }
+
+    this.stopWatching?.();
+    this.stopWatching = this.options.source.watch(() => {
+      void this.reload();
+    });
+  }
+
+  /**
+   * Stop watching the source; the active version stays in place
+   */
+  stop(): void {
+    this.stopWatching?.();
+    this.stopWatching = undefined;
+  }
+
+  /**
+   * Read the source now and apply it if it changed and validates
+   *
+   * Resolves to undefined when the content is unchanged.
+   */
+  reload(): Promise<ConfigReloadEvent | undefined> {
+    return this.enqueue(() => this.load());
+  }
+
+  /**
+   * Reactivate the previous version
+   *
+   * Runs after reloads already in progress. The version rolled back from
+   * becomes the previous one, so a second rollback restores it.
+   */
+  rollback(): Promise<ConfigReloadEvent> {
+    return this.enqueue(() => {
+      if (!this.active || !this.previous) {
+        throw new Error('No previous configuration version to roll back to');
+      }
+
+      const current = this.active;
+      this.options.apply(this.previous.value, this.previous.version);
+      this.active = this.previous;
+      this.previous = current;
+
+      return this.emit({ type: 'rolled-back', version: this.active.version, previousVersion: current.version });
+    });
+  }
+
+  /**
+   * Subscribe to reload events; returns an unsubscribe function
+   */
+  onReload(listener: (event: ConfigReloadEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  getActiveVersion(): string | undefined {
+    return this.active?.version;
+  }
+
+  getPreviousVersion(): string | undefined {
+    return this.previous?.version;
+  }
+
+  /**
+   * Run reloads and rollbacks one at a time so versions are applied in order
+   */
+  private enqueue<R>(operation: () => R | Promise<R>): Promise<R> {
+    const next = this.pending.then(operation);
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(onError?: (error: unknown) => void): Promise<ConfigReloadEvent | undefined> {
+    const activeVersion = this.active?.version;
+    let loaded: ConfigVersion<T>;
+
+    try {
+      const { content, format } = await this.options.source.read();
+      const contentHash = createHash('sha256').update(content).digest('hex');
+
+      // Content already seen, including content rolled back from
+      if (contentHash === this.lastContentHash) {
+        return undefined;
+      }
+      this.lastContentHash = contentHash;
+
+      const result = this.options.load(content, format);
+      loaded = { value: result.value, version: result.version ?? contentHash.slice(0, 12) };
+    } catch (error) {
+      onError?.(error);
+      return this.emit({
+        type: 'rejected',
+        version: activeVersion,
+        previousVersion: activeVersion,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.options.apply(loaded.value, loaded.version);
+    this.previous = this.active;
+    this.active = loaded;
+
+    return this.emit({ type: 'applied', version: loaded.version, previousVersion: activeVersion });
+  }
+
+  private emit(event: Omit<ConfigReloadEvent, 'source' | 'timestamp'>): ConfigReloadEvent {
+    const full: ConfigReloadEvent = {
+      ...event,
+      source: this.options.source.location,
+      timestamp: new Date().toISOString(),
+    };
+
+    for (const listener of this.listeners) {
+      try {
+        listener(full);
+      } catch (error) {
+        console.error('[ConfigReloader] Reload listener failed:', error instanceof Error ? error.message : error);
+      }
+    }
+    return full;
+  }
+}
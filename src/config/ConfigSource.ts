@@ -0,0 +1,151 @@
+/**
+ * Configuration Sources
+ *
+ * Files and URLs that guardrail and policy configuration is loaded from
+ * and watched for changes
+ */
+
+import { promises as fs, watchFile, unwatchFile, Stats } from 'fs';
+import { extname } from 'path';
+import { FetchLike, HttpTransport } from '../clients/HttpTransport';
+import { loadOptionalModule } from '../utils/modules';
+
+/**
+ * Configuration document format
+ */
+export type ConfigFormat = 'json' | 'yaml';
+
+/**
+ * Source content with its format when the source knows it
+ */
+export interface ConfigSourceContent {
+  content: string;
+  format?: ConfigFormat | undefined;
+}
+
+/**
+ * Readable, watchable configuration source
+ */
+export interface ConfigSource {
+  /** File path or URL, reported in reload events */
+  readonly location: string;
+  read(): Promise<ConfigSourceContent>;
+  /**
+   * Call onChange whenever the source may have changed
+   *
+   * Returns a function that stops watching. Watching must not keep the
+   * process alive.
+   */
+  watch(onChange: () => void): () => void;
+}
+
+function formatFromPath(path: string): ConfigFormat | undefined {
+  const extension = extname(path).toLowerCase();
+  if (extension === '.json') return 'json';
+  if (extension === '.yaml' || extension === '.yml') return 'yaml';
+  return undefined;
+}
+
+/**
+ * Local file, watched by polling its modification time
+ */
+export class FileConfigSource implements ConfigSource {
+  readonly location: string;
+  private readonly interval: number;
+
+  /**
+   * @param path - Configuration file (format from the .json, .yaml or .yml extension)
+   * @param options.interval - Polling interval in milliseconds (default: 1000)
+   */
+  constructor(path: string, options: { interval?: number } = {}) {
+    this.location = path;
+    this.interval = options.interval ?? 1000;
+  }
+
+  async read(): Promise<ConfigSourceContent> {
+    return {
+      content: await fs.readFile(this.location, 'utf8'),
+      format: formatFromPath(this.location),
+    };
+  }
+
+  watch(onChange: () => void): () => void {
+    // Polling survives editors and deploy tools that replace the file
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+        onChange();
+      }
+    };
+    watchFile(this.location, { interval: this.interval, persistent: false }, listener);
+    return () => unwatchFile(this.location, listener);
+  }
+}
+
+/**
+ * HTTP(S) URL, polled at an interval
+ */
+export class UrlConfigSource implements ConfigSource {
+  readonly location: string;
+  private readonly interval: number;
+  private readonly headers: Record<string, string>;
+  private readonly transport: HttpTransport;
+
+  /**
+   * @param url - Configuration URL (format from the path extension, or detected)
+   * @param options.interval - Polling interval in milliseconds (default: 30000)
+   */
+  constructor(
+    url: string,
+    options: { interval?: number; headers?: Record<string, string>; fetch?: FetchLike; timeout?: number } = {}
+  ) {
+    this.location = url;
+    this.interval = options.interval ?? 30000;
+    this.headers = options.headers ?? {};
+    this.transport = new HttpTransport({
+      provider: 'Configuration source',
+      fetch: options.fetch,
+      timeout: options.timeout ?? 10000,
+    });
+  }
+
+  async read(): Promise<ConfigSourceContent> {
+    return {
+      content: await this.transport.requestText({ method: 'GET', url: this.location, headers: this.headers }),
+      format: formatFromPath(new URL(this.location).pathname),
+    };
+  }
+
+  watch(onChange: () => void): () => void {
+    const timer = setInterval(onChange, this.interval);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+}
+
+/**
+ * Source for a file path or an http(s) URL
+ */
+export function createConfigSource(location: string): ConfigSource {
+  return /^https?:\/\//i.test(location) ? new UrlConfigSource(location) : new FileConfigSource(location);
+}
+
+/**
+ * Parse JSON or YAML configuration text
+ *
+ * Without a format, text starting with '{' or '[' is parsed as JSON and
+ * anything else as YAML (requires the optional js-yaml package).
+ */
+export function parseConfigContent(content: string, format?: ConfigFormat): unknown {
+  const resolved = format ?? (/^\s*[{[]/.test(content) ? 'json' : 'yaml');
+  if (resolved === 'json') {
+    return JSON.parse(content);
+  }
+
+  let yaml: { load(text: string): unknown };
+  try {
+    yaml = loadOptionalModule<{ load(text: string): unknown }>('js-yaml');
+  } catch {
+    throw new Error('Loading YAML configuration requires the "js-yaml" package. Install it or use JSON.');
+  }
+  return yaml.load(content);
+}
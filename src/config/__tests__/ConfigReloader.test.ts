@@ -0,0 +1,243 @@
+/**
+ * ConfigReloader Unit Tests
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigReloader, ConfigReloadEvent } from '../ConfigReloader';
+import { ConfigSource, FileConfigSource, createConfigSource, UrlConfigSource, parseConfigContent } from '../ConfigSource';
+
+/**
+ * In-memory source whose content and change notifications are test-controlled
+ */
+class FakeSource implements ConfigSource {
+  readonly location = 'memory://config';
+  content = '';
+  onChange: (() => void) | undefined;
+
+  async read() {
+    return { content: this.content, format: 'json' as const };
+  }
+
+  watch(onChange: () => void): () => void {
+    this.onChange = onChange;
+    return () => {
+      this.onChange = undefined;
+    };
+  }
+}
+
+interface Settings {
+  limit: number;
+}
+
+describe('ConfigReloader', () => {
+  let source: FakeSource;
+  let active: { value: Settings; version: string } | undefined;
+  let reloader: ConfigReloader<Settings>;
+  let events: ConfigReloadEvent[];
+
+  beforeEach(() => {
+    source = new FakeSource();
+    active = undefined;
+    events = [];
+    reloader = new ConfigReloader<Settings>({
+      source,
+      load: (content) => {
+        const parsed = JSON.parse(content);
+        if (typeof parsed.limit !== 'number') {
+          throw new Error('limit must be a number');
+        }
+        return { value: { limit: parsed.limit }, version: parsed.version };
+      },
+      apply: (value, version) => {
+        active = { value, version };
+      }
+    });
+    reloader.onReload((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    reloader.stop();
+  });
+
+  it('should apply the initial configuration and watch the source', async () => {
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+
+    expect(active).toEqual({ value: { limit: 10 }, version: 'v1' });
+    expect(reloader.getActiveVersion()).toBe('v1');
+    expect(source.onChange).toBeDefined();
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'applied', source: 'memory://config', version: 'v1', previousVersion: undefined })
+    ]);
+
+    reloader.stop();
+    expect(source.onChange).toBeUndefined();
+  });
+
+  it('should throw when the initial configuration is invalid', async () => {
+    source.content = '{"limit": "ten"}';
+
+    await expect(reloader.start()).rejects.toThrow('limit must be a number');
+    expect(active).toBeUndefined();
+    expect(source.onChange).toBeUndefined();
+  });
+
+  it('should keep the active version when a reload is rejected', async () => {
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+
+    source.content = '{"version": "v2", "limit": null}';
+    const event = await reloader.reload();
+
+    expect(event).toEqual(
+      expect.objectContaining({ type: 'rejected', version: 'v1', error: 'limit must be a number' })
+    );
+    expect(active?.version).toBe('v1');
+    expect(reloader.getPreviousVersion()).toBeUndefined();
+  });
+
+  it('should skip unchanged content', async () => {
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+
+    expect(await reloader.reload()).toBeUndefined();
+    expect(events).toHaveLength(1);
+  });
+
+  it('should version content without a version by its hash', async () => {
+    source.content = '{"limit": 10}';
+    await reloader.start();
+
+    expect(reloader.getActiveVersion()).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it('should roll back to the previous version and forward again', async () => {
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+    source.content = '{"version": "v2", "limit": 20}';
+    await reloader.reload();
+
+    expect(active).toEqual({ value: { limit: 20 }, version: 'v2' });
+
+    const event = await reloader.rollback();
+    expect(event).toEqual(expect.objectContaining({ type: 'rolled-back', version: 'v1', previousVersion: 'v2' }));
+    expect(active).toEqual({ value: { limit: 10 }, version: 'v1' });
+
+    // The rolled-back content is not re-applied until the source changes
+    expect(await reloader.reload()).toBeUndefined();
+
+    await reloader.rollback();
+    expect(active?.version).toBe('v2');
+  });
+
+  it('should reject rollback without a previous version', async () => {
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+
+    await expect(reloader.rollback()).rejects.toThrow('No previous configuration version');
+  });
+
+  it('should roll back after a reload in progress', async () => {
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+    source.content = '{"version": "v2", "limit": 20}';
+    await reloader.reload();
+
+    source.content = '{"version": "v3", "limit": 30}';
+    const reload = reloader.reload();
+    const event = await reloader.rollback();
+    await reload;
+
+    expect(event).toEqual(expect.objectContaining({ type: 'rolled-back', version: 'v2', previousVersion: 'v3' }));
+    expect(reloader.getActiveVersion()).toBe('v2');
+  });
+
+  it('should apply reloads in order', async () => {
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+
+    source.content = '{"version": "v2", "limit": 20}';
+    const first = reloader.reload();
+    source.content = '{"version": "v3", "limit": 30}';
+    const second = reloader.reload();
+    await Promise.all([first, second]);
+
+    expect(reloader.getActiveVersion()).toBe('v3');
+  });
+
+  it('should unsubscribe listeners and isolate listener errors', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const unsubscribe = reloader.onReload(() => {
+      throw new Error('listener failed');
+    });
+
+    source.content = '{"version": "v1", "limit": 10}';
+    await reloader.start();
+    unsubscribe();
+    source.content = '{"version": "v2", "limit": 20}';
+    await reloader.reload();
+
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(events.map((event) => event.version)).toEqual(['v1', 'v2']);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('ConfigSource', () => {
+  it('should read files with the format of their extension', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'tealtiger-config-'));
+    try {
+      const path = join(dir, 'guardrails.yaml');
+      writeFileSync(path, 'guardrails: []\n');
+
+      expect(await new FileConfigSource(path).read()).toEqual({ content: 'guardrails: []\n', format: 'yaml' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should notify file changes', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'tealtiger-config-'));
+    const path = join(dir, 'policies.json');
+    writeFileSync(path, '{"policies": []}');
+    const source = new FileConfigSource(path, { interval: 20 });
+
+    let stop: (() => void) | undefined;
+    try {
+      await new Promise<void>((resolve) => {
+        stop = source.watch(resolve);
+        setTimeout(() => writeFileSync(path, '{"version": 2, "policies": []}'), 50);
+      });
+    } finally {
+      stop?.();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should read URLs through the injected fetch', async () => {
+    const fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, text: async () => 'guardrails: []' });
+    const source = new UrlConfigSource('https://config.example.com/guardrails.yml', {
+      fetch,
+      headers: { Authorization: 'Bearer token' }
+    });
+
+    expect(await source.read()).toEqual({ content: 'guardrails: []', format: 'yaml' });
+    expect(fetch).toHaveBeenCalledWith(
+      'https://config.example.com/guardrails.yml',
+      expect.objectContaining({ method: 'GET', headers: expect.objectContaining({ Authorization: 'Bearer token' }) })
+    );
+  });
+
+  it('should pick the source for a location', () => {
+    expect(createConfigSource('https://config.example.com/policies')).toBeInstanceOf(UrlConfigSource);
+    expect(createConfigSource('./policies.json')).toBeInstanceOf(FileConfigSource);
+  });
+
+  it('should detect JSON content without a format', () => {
+    expect(parseConfigContent('  {"a": 1}')).toEqual({ a: 1 });
+    expect(parseConfigContent('a: 1')).toEqual({ a: 1 });
+  });
+});
@@ -7,8 +7,11 @@
 import {
   BudgetConfig,
   BudgetStatus,
+  BudgetThrottleConfig,
+  BudgetScopeAssignment,
   CostAlert,
   CostRecord,
+  ResolvedBudgetScope,
 } from './types';
 import { ICostStorage } from './CostStorage';
 import { generateId } from './utils';
@@ -21,24 +24,112 @@ export interface BudgetEnforcementResult {
   allowed: boolean;
   /** Budget that triggered the block (if any) */
   blockedBy?: BudgetConfig | undefined;
+  /** Whether the request was held back by a 'throttle' budget */
+  throttled?: boolean | undefined;
+  /** Budget that triggered the throttle (if any) */
+  throttledBy?: BudgetConfig | undefined;
+  /** Milliseconds to wait before retrying a throttled request */
+  retryAfterMs?: number | undefined;
   /** Active alerts */
   alerts: CostAlert[];
   /** Current budget status */
   status?: BudgetStatus | undefined;
 }
 
+/**
+ * Budget manager options
+ */
+export interface BudgetManagerOptions {
+  /** Agent ID → project/organization membership */
+  agents?: Record<string, BudgetScopeAssignment>;
+  /** Project ID → organization ID */
+  projects?: Record<string, string>;
+}
+
+/**
+ * Evaluation order of budget scopes - most specific first
+ */
+const SCOPE_ORDER = ['agent', 'project', 'organization'] as const;
+
+/**
+ * Minutes per budget period, used for the default throttle rate
+ * ('total' budgets spread their limit over 30 days)
+ */
+const PERIOD_MINUTES: Record<BudgetConfig['period'], number> = {
+  hourly: 60,
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+  monthly: 30 * 24 * 60,
+  total: 30 * 24 * 60,
+};
+
+/**
+ * Token bucket state for a throttle budget
+ */
+interface ThrottleBucket {
+  /** Available dollars */
+  tokens: number;
+  /** Last refill time (ms) */
+  updatedAt: number;
+}
+
 /**
  * Budget Manager class for cost control
+ *
+ * Budgets form an agent → project → organization hierarchy. Membership is
+ * configured up front or learned from the projectId / organizationId fields
+ * of CostRecord.metadata.
  */
 export class BudgetManager {
   private budgets: Map<string, BudgetConfig>;
   private alerts: Map<string, CostAlert[]>;
   private storage: ICostStorage;
+  private agentScopes: Map<string, BudgetScopeAssignment>;
+  private projectOrganizations: Map<string, string>;
+  private throttleBuckets: Map<string, ThrottleBucket>;
 
-  constructor(storage: ICostStorage) {
+  constructor(storage: ICostStorage, options: BudgetManagerOptions = {}) {
     this.budgets = new Map();
     this.alerts = new Map();
     this.storage = storage;
+    this.agentScopes = new Map(Object.entries(options.agents || {}));
+    this.projectOrganizations = new Map(Object.entries(options.projects || {}));
+    this.throttleBuckets = new Map();
+  }
+
+  /**
+   * Assign an agent to a project and/or organization
+   * @param agentId Agent ID
+   * @param assignment Project and organization membership
+   */
+  setAgentScope(agentId: string, assignment: BudgetScopeAssignment): void {
+    this.agentScopes.set(agentId, { ...assignment });
+  }
+
+  /**
+   * Assign a project to an organization
+   * @param projectId Project ID
+   * @param organizationId Organization ID
+   */
+  setProjectOrganization(projectId: string, organizationId: string): void {
+    this.projectOrganizations.set(projectId, organizationId);
+  }
+
+  /**
+   * Resolve the project and organization an agent's spend rolls up to
+   * @param agentId Agent ID
+   * @param metadata Optional request or cost record metadata (projectId, organizationId)
+   * @returns Resolved scope
+   */
+  resolveScope(agentId: string, metadata?: Record<string, any>): ResolvedBudgetScope {
+    const assignment = this.agentScopes.get(agentId);
+    const projectId: string | undefined = metadata?.projectId ?? assignment?.projectId;
+    const organizationId: string | undefined =
+      metadata?.organizationId ??
+      assignment?.organizationId ??
+      (projectId !== undefined ? this.projectOrganizations.get(projectId) : undefined);
+
+    return { agentId, projectId, organizationId };
   }
 
   /**
@@ -92,6 +183,7 @@ export class BudgetManager {
    */
   deleteBudget(id: string): boolean {
     this.alerts.delete(id);
+    this.throttleBuckets.delete(id);
     return this.budgets.delete(id);
   }
 
@@ -126,14 +218,26 @@ export class BudgetManager {
 
   /**
    * Check if a cost record would exceed any budgets
+   *
+   * Every applicable agent, project, organization and global budget is
+   * checked; blockedBy is the most specific budget that blocks. 'throttle'
+   * budgets near their limit return throttled with retryAfterMs instead.
    * @param agentId Agent ID
    * @param estimatedCost Estimated cost
+   * @param metadata Optional request metadata (projectId, organizationId)
    * @returns Enforcement result
    */
-  async checkBudget(agentId: string, estimatedCost: number): Promise<BudgetEnforcementResult> {
-    const relevantBudgets = this.getRelevantBudgets(agentId);
+  async checkBudget(
+    agentId: string,
+    estimatedCost: number,
+    metadata?: Record<string, any>
+  ): Promise<BudgetEnforcementResult> {
+    const relevantBudgets = this.getRelevantBudgets(this.resolveScope(agentId, metadata));
     const alerts: CostAlert[] = [];
     let blockedBy: BudgetConfig | undefined;
+    let throttledBy: BudgetConfig | undefined;
+    let retryAfterMs = 0;
+    const buckets: ThrottleBucket[] = [];
 
     for (const budget of relevantBudgets) {
       if (!budget.enabled) {
@@ -160,27 +264,91 @@ export class BudgetManager {
 
       // Check if budget would be exceeded
       if (projectedSpending > budget.limit) {
-        if (budget.action === 'block') {
+        if (budget.action === 'block' && !blockedBy) {
           blockedBy = budget;
-          break;
         }
       }
+
+      // Shape the spending rate of throttle budgets near their limit
+      if (budget.action === 'throttle') {
+        const throttle = this.getThrottleSettings(budget);
+        if (projectedPercentage >= throttle.threshold) {
+          const bucket = this.refillBucket(budget.id, throttle);
+          const needed = Math.min(estimatedCost, throttle.burst);
+          const waitMs = bucket.tokens >= needed
+            ? 0
+            : Math.ceil(((needed - bucket.tokens) / throttle.ratePerMinute) * 60000);
+
+          if (waitMs > retryAfterMs) {
+            retryAfterMs = waitMs;
+            throttledBy = budget;
+          }
+          buckets.push(bucket);
+        }
+      }
+    }
+
+    if (blockedBy) {
+      return {
+        allowed: false,
+        blockedBy,
+        alerts,
+        status: await this.getBudgetStatus(blockedBy.id),
+      };
+    }
+
+    if (throttledBy) {
+      return {
+        allowed: false,
+        throttled: true,
+        throttledBy,
+        retryAfterMs,
+        alerts,
+        status: await this.getBudgetStatus(throttledBy.id),
+      };
+    }
+
+    // Only draw from the buckets once the request is actually allowed
+    for (const bucket of buckets) {
+      bucket.tokens -= estimatedCost;
     }
 
     return {
-      allowed: !blockedBy,
-      blockedBy,
+      allowed: true,
       alerts,
-      status: blockedBy ? await this.getBudgetStatus(blockedBy.id) : undefined,
     };
   }
 
+  /**
+   * Check budgets, waiting out throttle delays up to maxWaitMs
+   * @param agentId Agent ID
+   * @param estimatedCost Estimated cost
+   * @param options Maximum wait (default: 60000ms) and request metadata
+   * @returns Enforcement result; still throttled if the wait would exceed maxWaitMs
+   */
+  async waitForBudget(
+    agentId: string,
+    estimatedCost: number,
+    options: { maxWaitMs?: number; metadata?: Record<string, any> } = {}
+  ): Promise<BudgetEnforcementResult> {
+    const deadline = Date.now() + (options.maxWaitMs ?? 60000);
+
+    for (;;) {
+      const result = await this.checkBudget(agentId, estimatedCost, options.metadata);
+      if (!result.throttled || Date.now() + (result.retryAfterMs || 0) > deadline) {
+        return result;
+      }
+      await new Promise(resolve => setTimeout(resolve, result.retryAfterMs));
+    }
+  }
+
   /**
    * Record a cost and update budget tracking
    * @param record Cost record
    */
   async recordCost(record: CostRecord): Promise<void> {
-    const relevantBudgets = this.getRelevantBudgets(record.agentId);
+    this.learnScope(record);
+    const relevantBudgets = this.getRelevantBudgets(this.resolveScope(record.agentId, record.metadata));
 
     for (const budget of relevantBudgets) {
       if (!budget.enabled) {
@@ -223,12 +391,10 @@ export class BudgetManager {
     // Get spending for the period
     let records = await this.storage.getByDateRange(start, end);
 
-    // Filter by scope if applicable
+    // Filter by scope if applicable - project and organization spend rolls up from agents
     if (budget.scope) {
-      if (budget.scope.type === 'agent') {
-        records = records.filter(r => r.agentId === budget.scope!.id);
-      }
-      // TODO: Add project and organization filtering when those concepts are implemented
+      const scope = budget.scope;
+      records = records.filter(r => this.isInScope(this.resolveScope(r.agentId, r.metadata), scope));
     }
 
     const currentSpending = records.reduce((sum, r) => sum + r.actualCost, 0);
@@ -286,28 +452,98 @@ export class BudgetManager {
   }
 
   /**
-   * Get relevant budgets for an agent
+   * Get relevant budgets for a resolved scope, most specific first
    */
-  private getRelevantBudgets(agentId: string): BudgetConfig[] {
-    return Array.from(this.budgets.values()).filter(b => {
-      if (!b.enabled) {
-        return false;
-      }
+  private getRelevantBudgets(scope: ResolvedBudgetScope): BudgetConfig[] {
+    const rank = (budget: BudgetConfig): number =>
+      budget.scope ? SCOPE_ORDER.indexOf(budget.scope.type) : SCOPE_ORDER.length;
+
+    return Array.from(this.budgets.values())
+      .filter(b => {
+        if (!b.enabled) {
+          return false;
+        }
 
-      // No scope = applies to all
-      if (!b.scope) {
-        return true;
-      }
+        // No scope = applies to all
+        if (!b.scope) {
+          return true;
+        }
 
-      // Agent-specific budget
-      if (b.scope.type === 'agent' && b.scope.id === agentId) {
-        return true;
-      }
+        return this.isInScope(scope, b.scope);
+      })
+      .sort((a, b) => rank(a) - rank(b));
+  }
 
-      // TODO: Add project and organization scope checking
+  /**
+   * Check whether a resolved scope falls under a budget scope
+   */
+  private isInScope(scope: ResolvedBudgetScope, budgetScope: NonNullable<BudgetConfig['scope']>): boolean {
+    switch (budgetScope.type) {
+      case 'agent':
+        return scope.agentId === budgetScope.id;
+      case 'project':
+        return scope.projectId === budgetScope.id;
+      case 'organization':
+        return scope.organizationId === budgetScope.id;
+    }
+  }
 
-      return false;
-    });
+  /**
+   * Resolve throttle settings with defaults
+   */
+  private getThrottleSettings(budget: BudgetConfig): Required<BudgetThrottleConfig> {
+    const config = budget.throttle || {};
+    const ratePerMinute = config.ratePerMinute ?? budget.limit / PERIOD_MINUTES[budget.period];
+
+    return {
+      threshold: config.threshold ?? 80,
+      ratePerMinute,
+      burst: config.burst ?? ratePerMinute,
+    };
+  }
+
+  /**
+   * Refill a throttle bucket for the time elapsed since it was last used
+   */
+  private refillBucket(budgetId: string, throttle: Required<BudgetThrottleConfig>): ThrottleBucket {
+    const now = Date.now();
+    let bucket = this.throttleBuckets.get(budgetId);
+
+    if (!bucket) {
+      bucket = { tokens: throttle.burst, updatedAt: now };
+      this.throttleBuckets.set(budgetId, bucket);
+    } else {
+      const refill = ((now - bucket.updatedAt) / 60000) * throttle.ratePerMinute;
+      bucket.tokens = Math.min(throttle.burst, bucket.tokens + refill);
+      bucket.updatedAt = now;
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Remember hierarchy membership reported in cost record metadata
+   * without overriding configured assignments
+   */
+  private learnScope(record: CostRecord): void {
+    const projectId = record.metadata?.projectId;
+    const organizationId = record.metadata?.organizationId;
+    if (typeof projectId !== 'string' && typeof organizationId !== 'string') {
+      return;
+    }
+
+    const assignment = this.agentScopes.get(record.agentId) || {};
+    if (assignment.projectId === undefined && typeof projectId === 'string') {
+      assignment.projectId = projectId;
+    }
+    if (assignment.organizationId === undefined && typeof organizationId === 'string') {
+      assignment.organizationId = organizationId;
+    }
+    this.agentScopes.set(record.agentId, assignment);
+
+    if (typeof projectId === 'string' && typeof organizationId === 'string' && !this.projectOrganizations.has(projectId)) {
+      this.projectOrganizations.set(projectId, organizationId);
+    }
   }
 
   /**
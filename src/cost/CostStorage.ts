@@ -4,7 +4,10 @@
  * Persists and retrieves cost records for analytics and reporting
  */
 
-import { CostRecord, CostSummary, ModelProvider } from './types';
+import { CostRecord, CostSummary } from './types';
+import { summarizeCostRecords } from './utils';
+import { JsonlCostStorage } from './JsonlCostStorage';
+import { SqliteCostStorage, SqliteDatabase } from './SqliteCostStorage';
 
 /**
  * Storage interface for cost records
@@ -71,7 +74,7 @@ export interface ICostStorage {
 
 /**
  * In-memory cost storage implementation
- * For production, use database-backed storage
+ * For production, use JsonlCostStorage or SqliteCostStorage
  */
 export class InMemoryCostStorage implements ICostStorage {
   private records: Map<string, CostRecord>;
@@ -124,49 +127,7 @@ export class InMemoryCostStorage implements ICostStorage {
       records = records.filter(r => r.agentId === agentId);
     }
 
-    // Calculate totals
-    const totalCost = records.reduce((sum, r) => sum + r.actualCost, 0);
-    const totalRequests = records.length;
-    const averageCostPerRequest = totalRequests > 0 ? totalCost / totalRequests : 0;
-
-    // Breakdown by model
-    const byModel: Record<string, number> = {};
-    records.forEach(r => {
-      byModel[r.model] = (byModel[r.model] || 0) + r.actualCost;
-    });
-
-    // Breakdown by provider
-    const byProvider: Record<ModelProvider, number> = {} as Record<ModelProvider, number>;
-    records.forEach(r => {
-      byProvider[r.provider] = (byProvider[r.provider] || 0) + r.actualCost;
-    });
-
-    // Breakdown by agent
-    const byAgent: Record<string, number> = {};
-    records.forEach(r => {
-      byAgent[r.agentId] = (byAgent[r.agentId] || 0) + r.actualCost;
-    });
-
-    // Total tokens
-    const totalTokens = {
-      input: records.reduce((sum, r) => sum + r.actualTokens.inputTokens, 0),
-      output: records.reduce((sum, r) => sum + r.actualTokens.outputTokens, 0),
-      total: records.reduce((sum, r) => sum + r.actualTokens.totalTokens, 0),
-    };
-
-    return {
-      totalCost,
-      totalRequests,
-      averageCostPerRequest,
-      byModel,
-      byProvider,
-      byAgent,
-      period: {
-        start: startDate.toISOString(),
-        end: endDate.toISOString(),
-      },
-      totalTokens,
-    };
+    return summarizeCostRecords(records, startDate, endDate);
   }
 
   async deleteOlderThan(beforeDate: Date): Promise<number> {
@@ -193,15 +154,40 @@ export class InMemoryCostStorage implements ICostStorage {
   }
 }
 
+/**
+ * Options for createCostStorage
+ */
+export interface CostStorageOptions {
+  /** JSONL file path ('jsonl') */
+  filePath?: string;
+  /** SQLite database file ('sqlite' / 'database') */
+  filename?: string;
+  /** Already opened SQLite connection ('sqlite' / 'database') */
+  database?: SqliteDatabase;
+}
+
 /**
  * Create a cost storage instance
- * @param type Storage type ('memory' or 'database')
+ * @param type Storage type ('memory', 'jsonl', or 'sqlite'; 'database' is an alias for 'sqlite')
+ * @param options Storage options for persistent storage types
  * @returns Cost storage instance
  */
-export function createCostStorage(type: 'memory' | 'database' = 'memory'): ICostStorage {
-  if (type === 'database') {
-    // TODO: Implement database-backed storage
-    throw new Error('Database storage not yet implemented. Use "memory" for now.');
+export function createCostStorage(
+  type: 'memory' | 'jsonl' | 'sqlite' | 'database' = 'memory',
+  options: CostStorageOptions = {}
+): ICostStorage {
+  if (type === 'jsonl') {
+    if (!options.filePath) {
+      throw new Error('JSONL storage requires a filePath');
+    }
+    return new JsonlCostStorage({ filePath: options.filePath });
+  }
+
+  if (type === 'sqlite' || type === 'database') {
+    return new SqliteCostStorage({
+      ...(options.filename !== undefined && { filename: options.filename }),
+      ...(options.database !== undefined && { database: options.database }),
+    });
   }
 
   return new InMemoryCostStorage();
@@ -14,6 +14,7 @@ import {
 } from './types';
 import { getModelPricing } from './pricing';
 import { generateId } from './utils';
+import { Tokenizer, TokenizerMessage, getTokenizerForModel } from './Tokenizer';
 
 /**
  * Default configuration for cost tracker
@@ -47,6 +48,38 @@ export class CostTracker {
     }
   }
 
+  /**
+   * Get the tokenizer used for a model
+   * @param model Model identifier
+   * @param provider Optional provider hint
+   * @returns Configured tokenizer, or the model's default offline tokenizer
+   */
+  getTokenizer(model: string, provider?: ModelProvider): Tokenizer {
+    return this.config.tokenizer || getTokenizerForModel(model, provider);
+  }
+
+  /**
+   * Count tokens in text for a model
+   * @param model Model identifier
+   * @param text Text to count
+   * @param provider Optional provider hint
+   * @returns Token count
+   */
+  countTokens(model: string, text: string, provider?: ModelProvider): number {
+    return this.getTokenizer(model, provider).countTokens(text);
+  }
+
+  /**
+   * Count prompt tokens for chat messages, including framing and images
+   * @param model Model identifier
+   * @param messages Chat messages
+   * @param provider Optional provider hint
+   * @returns Token count
+   */
+  countMessageTokens(model: string, messages: TokenizerMessage[], provider?: ModelProvider): number {
+    return this.getTokenizer(model, provider).countMessageTokens(messages);
+  }
+
   /**
    * Estimate cost before API call
    * @param model Model identifier
@@ -0,0 +1,366 @@
+/**
+ * JSONL Cost Storage
+ *
+ * Durable append-only cost storage backed by a newline-delimited JSON file
+ */
+
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { CostRecord, CostSummary } from './types';
+import { ICostStorage } from './CostStorage';
+import { summarizeCostRecords } from './utils';
+
+/** Bytes read at a time when looking for the start of the last line */
+const TAIL_BLOCK_SIZE = 64 * 1024;
+
+/**
+ * JSONL storage options
+ */
+export interface JsonlCostStorageOptions {
+  /** Path of the JSONL file (created if missing) */
+  filePath: string;
+}
+
+/**
+ * Timeline entry used for date range lookups
+ */
+interface TimelineEntry {
+  time: number;
+  id: string;
+}
+
+/**
+ * File-backed cost storage
+ *
+ * Every store appends one line; a later line with the same ID replaces the
+ * earlier one. Records are loaded once and indexed in memory by ID, agent,
+ * request and timestamp, so queries never scan the file.
+ * deleteOlderThan and clear rewrite the file atomically.
+ */
+export class JsonlCostStorage implements ICostStorage {
+  private readonly filePath: string;
+  private readonly records: Map<string, CostRecord>;
+  private readonly byAgent: Map<string, Set<string>>;
+  private readonly byRequest: Map<string, Set<string>>;
+  private timeline: TimelineEntry[];
+  private loading: Promise<void> | undefined;
+  private writeQueue: Promise<void>;
+
+  constructor(options: JsonlCostStorageOptions) {
+    this.filePath = options.filePath;
+    this.records = new Map();
+    this.byAgent = new Map();
+    this.byRequest = new Map();
+    this.timeline = [];
+    this.writeQueue = Promise.resolve();
+  }
+
+  async store(record: CostRecord): Promise<void> {
+    await this.load();
+    await this.enqueue(async () => {
+      await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+      this.index(record);
+    });
+  }
+
+  async get(id: string): Promise<CostRecord | undefined> {
+    await this.load();
+    return this.records.get(id);
+  }
+
+  async getByRequestId(requestId: string): Promise<CostRecord[]> {
+    await this.load();
+    return this.resolve(this.byRequest.get(requestId));
+  }
+
+  async getByAgentId(
+    agentId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<CostRecord[]> {
+    await this.load();
+    const start = startDate ? startDate.getTime() : -Infinity;
+    const end = endDate ? endDate.getTime() : Infinity;
+
+    return this.resolve(this.byAgent.get(agentId)).filter(r => {
+      const time = Date.parse(r.timestamp);
+      return time >= start && time <= end;
+    });
+  }
+
+  async getByDateRange(startDate: Date, endDate: Date): Promise<CostRecord[]> {
+    await this.load();
+    const from = this.lowerBound(startDate.getTime());
+    const to = this.upperBound(endDate.getTime());
+
+    const records: CostRecord[] = [];
+    for (let i = from; i < to; i++) {
+      records.push(this.records.get(this.timeline[i].id)!);
+    }
+    return records;
+  }
+
+  async getSummary(startDate: Date, endDate: Date, agentId?: string): Promise<CostSummary> {
+    const records = agentId
+      ? await this.getByAgentId(agentId, startDate, endDate)
+      : await this.getByDateRange(startDate, endDate);
+
+    return summarizeCostRecords(records, startDate, endDate);
+  }
+
+  async deleteOlderThan(beforeDate: Date): Promise<number> {
+    await this.load();
+    let deletedCount = 0;
+
+    await this.enqueue(async () => {
+      const cutoff = this.lowerBound(beforeDate.getTime());
+      if (cutoff === 0) {
+        return;
+      }
+
+      const expired = this.timeline.slice(0, cutoff);
+      this.timeline = this.timeline.slice(cutoff);
+      for (const entry of expired) {
+        this.unindex(this.records.get(entry.id)!, false);
+      }
+
+      deletedCount = expired.length;
+      await this.rewrite();
+    });
+
+    return deletedCount;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await this.enqueue(async () => {
+      this.records.clear();
+      this.byAgent.clear();
+      this.byRequest.clear();
+      this.timeline = [];
+      await this.rewrite();
+    });
+  }
+
+  /**
+   * Rewrite the file with only the live records, dropping superseded lines
+   */
+  async compact(): Promise<void> {
+    await this.load();
+    await this.enqueue(() => this.rewrite());
+  }
+
+  /**
+   * Get total number of records
+   * @returns Record count
+   */
+  size(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Load and index the file once; a failed load is retried on the next call
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch((error: unknown) => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      return;
+    }
+
+    const lines = readline.createInterface({
+      input: createReadStream(this.filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        this.index(JSON.parse(line) as CostRecord);
+      } catch {
+        // Skip a torn trailing line left by an interrupted write
+      }
+    }
+
+    await this.repairTail();
+  }
+
+  /**
+   * End the file with a newline so the next append starts a line of its own,
+   * truncating a torn trailing line or terminating a complete one
+   */
+  private async repairTail(): Promise<void> {
+    const handle = await fs.open(this.filePath, 'r+');
+    try {
+      const { size } = await handle.stat();
+      let lineStart = size;
+      let tail = Buffer.alloc(0);
+
+      while (lineStart > 0) {
+        const length = Math.min(TAIL_BLOCK_SIZE, lineStart);
+        const block = Buffer.alloc(length);
+        await handle.read(block, 0, length, lineStart - length);
+        const newline = block.lastIndexOf(0x0a);
+        if (newline !== -1) {
+          tail = Buffer.concat([block.subarray(newline + 1), tail]);
+          lineStart -= length - newline - 1;
+          break;
+        }
+        tail = Buffer.concat([block, tail]);
+        lineStart -= length;
+      }
+
+      if (tail.length === 0) {
+        return;
+      }
+
+      try {
+        JSON.parse(tail.toString('utf8'));
+        await handle.write('\n', size);
+      } catch {
+        await handle.truncate(lineStart);
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Serialize writes and index updates so appends and rewrites never interleave
+   */
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(operation);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Atomically replace the file with the live records (call from the write queue)
+   */
+  private async rewrite(): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      let batch = '';
+      for (const entry of this.timeline) {
+        batch += JSON.stringify(this.records.get(entry.id)) + '\n';
+        if (batch.length >= 1 << 20) {
+          await handle.write(batch);
+          batch = '';
+        }
+      }
+      await handle.write(batch);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private index(record: CostRecord): void {
+    const existing = this.records.get(record.id);
+    if (existing) {
+      this.unindex(existing, true);
+    }
+
+    this.records.set(record.id, record);
+    this.addTo(this.byAgent, record.agentId, record.id);
+    this.addTo(this.byRequest, record.requestId, record.id);
+
+    const entry = { time: Date.parse(record.timestamp), id: record.id };
+    const last = this.timeline[this.timeline.length - 1];
+    if (!last || last.time <= entry.time) {
+      this.timeline.push(entry);
+    } else {
+      this.timeline.splice(this.upperBound(entry.time), 0, entry);
+    }
+  }
+
+  private unindex(record: CostRecord, removeFromTimeline: boolean): void {
+    this.records.delete(record.id);
+    this.removeFrom(this.byAgent, record.agentId, record.id);
+    this.removeFrom(this.byRequest, record.requestId, record.id);
+
+    if (removeFromTimeline) {
+      const time = Date.parse(record.timestamp);
+      for (let i = this.lowerBound(time); i < this.timeline.length && this.timeline[i].time === time; i++) {
+        if (this.timeline[i].id === record.id) {
+          this.timeline.splice(i, 1);
+          break;
+        }
+      }
+    }
+  }
+
+  private addTo(index: Map<string, Set<string>>, key: string, id: string): void {
+    let ids = index.get(key);
+    if (!ids) {
+      ids = new Set();
+      index.set(key, ids);
+    }
+    ids.add(id);
+  }
+
+  private removeFrom(index: Map<string, Set<string>>, key: string, id: string): void {
+    const ids = index.get(key);
+    if (ids) {
+      ids.delete(id);
+      if (ids.size === 0) {
+        index.delete(key);
+      }
+    }
+  }
+
+  private resolve(ids: Set<string> | undefined): CostRecord[] {
+    return ids ? Array.from(ids, id => this.records.get(id)!) : [];
+  }
+
+  /**
+   * First timeline index with time >= the given time
+   */
+  private lowerBound(time: number): number {
+    let low = 0;
+    let high = this.timeline.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.timeline[mid].time < time) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * First timeline index with time > the given time
+   */
+  private upperBound(time: number): number {
+    let low = 0;
+    let high = this.timeline.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.timeline[mid].time <= time) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * SQLite Cost Storage
+ *
+ * Durable cost storage backed by an embedded SQLite database
+ */
+
+import { CostRecord, CostSummary, ModelProvider } from './types';
+import { ICostStorage } from './CostStorage';
+import { loadOptionalModule } from '../utils/modules';
+
+/**
+ * Prepared statement (compatible with better-sqlite3)
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Synchronous SQLite connection (compatible with better-sqlite3)
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close(): unknown;
+}
+
+/**
+ * SQLite storage options
+ */
+export interface SqliteCostStorageOptions {
+  /** Database file to open with the optional better-sqlite3 package */
+  filename?: string;
+  /** Already opened connection (takes precedence over filename) */
+  database?: SqliteDatabase;
+}
+
+interface CostRow {
+  record: string;
+}
+
+interface TotalsRow {
+  requests: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+interface GroupRow {
+  key: string;
+  cost: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS cost_records (
+    id TEXT PRIMARY KEY,
+    request_id TEXT NOT NULL,
+    agent_id TEXT NOT NULL,
+    model TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    actual_cost REAL NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    total_tokens INTEGER NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_cost_records_timestamp ON cost_records (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_cost_records_agent ON cost_records (agent_id, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_cost_records_request ON cost_records (request_id);
+`;
+
+/**
+ * SQLite-backed cost storage
+ *
+ * Records are indexed by agent, request and timestamp; summaries are
+ * aggregated in SQL rather than loaded into memory.
+ */
+export class SqliteCostStorage implements ICostStorage {
+  private readonly db: SqliteDatabase;
+  private readonly ownsDatabase: boolean;
+  private readonly statements: {
+    insert: SqliteStatement;
+    get: SqliteStatement;
+    byRequest: SqliteStatement;
+    byAgent: SqliteStatement;
+    byDateRange: SqliteStatement;
+    deleteOlderThan: SqliteStatement;
+    clear: SqliteStatement;
+    count: SqliteStatement;
+  };
+
+  constructor(options: SqliteCostStorageOptions) {
+    if (options.database) {
+      this.db = options.database;
+      this.ownsDatabase = false;
+    } else if (options.filename) {
+      this.db = openDatabase(options.filename);
+      this.ownsDatabase = true;
+      this.db.exec('PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL;');
+    } else {
+      throw new Error('SqliteCostStorage requires a filename or database');
+    }
+
+    this.db.exec(SCHEMA);
+
+    this.statements = {
+      insert: this.db.prepare(`
+        INSERT OR REPLACE INTO cost_records
+          (id, request_id, agent_id, model, provider, timestamp, actual_cost,
+           input_tokens, output_tokens, total_tokens, record)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `),
+      get: this.db.prepare('SELECT record FROM cost_records WHERE id = ?'),
+      byRequest: this.db.prepare(
+        'SELECT record FROM cost_records WHERE request_id = ? ORDER BY timestamp'
+      ),
+      byAgent: this.db.prepare(
+        'SELECT record FROM cost_records WHERE agent_id = ? AND timestamp BETWEEN ? AND ? ORDER BY timestamp'
+      ),
+      byDateRange: this.db.prepare(
+        'SELECT record FROM cost_records WHERE timestamp BETWEEN ? AND ? ORDER BY timestamp'
+      ),
+      deleteOlderThan: this.db.prepare('DELETE FROM cost_records WHERE timestamp < ?'),
+      clear: this.db.prepare('DELETE FROM cost_records'),
+      count: this.db.prepare('SELECT COUNT(*) AS count FROM cost_records'),
+    };
+  }
+
+  store(record: CostRecord): Promise<void> {
+    return settle(() => {
+      this.statements.insert.run(
+        record.id,
+        record.requestId,
+        record.agentId,
+        record.model,
+        record.provider,
+        Date.parse(record.timestamp),
+        record.actualCost,
+        record.actualTokens.inputTokens,
+        record.actualTokens.outputTokens,
+        record.actualTokens.totalTokens,
+        JSON.stringify(record)
+      );
+    });
+  }
+
+  get(id: string): Promise<CostRecord | undefined> {
+    return settle(() => {
+      const row = this.statements.get.get(id) as CostRow | undefined;
+      return row ? (JSON.parse(row.record) as CostRecord) : undefined;
+    });
+  }
+
+  getByRequestId(requestId: string): Promise<CostRecord[]> {
+    return settle(() => this.parseRows(this.statements.byRequest.all(requestId)));
+  }
+
+  getByAgentId(
+    agentId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<CostRecord[]> {
+    return settle(() => this.parseRows(this.statements.byAgent.all(
+      agentId,
+      startDate ? startDate.getTime() : Number.MIN_SAFE_INTEGER,
+      endDate ? endDate.getTime() : Number.MAX_SAFE_INTEGER
+    )));
+  }
+
+  getByDateRange(startDate: Date, endDate: Date): Promise<CostRecord[]> {
+    return settle(() => this.parseRows(this.statements.byDateRange.all(startDate.getTime(), endDate.getTime())));
+  }
+
+  getSummary(startDate: Date, endDate: Date, agentId?: string): Promise<CostSummary> {
+    return settle(() => this.summarize(startDate, endDate, agentId));
+  }
+
+  deleteOlderThan(beforeDate: Date): Promise<number> {
+    return settle(() => Number(this.statements.deleteOlderThan.run(beforeDate.getTime()).changes));
+  }
+
+  clear(): Promise<void> {
+    return settle(() => {
+      this.statements.clear.run();
+    });
+  }
+
+  /**
+   * Get total number of records
+   * @returns Record count
+   */
+  size(): number {
+    return Number((this.statements.count.get() as { count: number }).count);
+  }
+
+  /**
+   * Close the database if this storage opened it
+   */
+  close(): void {
+    if (this.ownsDatabase) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Aggregate a summary in SQL instead of loading the records
+   */
+  private summarize(startDate: Date, endDate: Date, agentId?: string): CostSummary {
+    const where = agentId
+      ? 'WHERE timestamp BETWEEN ? AND ? AND agent_id = ?'
+      : 'WHERE timestamp BETWEEN ? AND ?';
+    const params: unknown[] = [startDate.getTime(), endDate.getTime()];
+    if (agentId) {
+      params.push(agentId);
+    }
+
+    const totals = this.db.prepare(`
+      SELECT COUNT(*) AS requests,
+             COALESCE(SUM(actual_cost), 0) AS cost,
+             COALESCE(SUM(input_tokens), 0) AS inputTokens,
+             COALESCE(SUM(output_tokens), 0) AS outputTokens,
+             COALESCE(SUM(total_tokens), 0) AS totalTokens
+      FROM cost_records ${where}
+    `).get(...params) as TotalsRow;
+
+    const groupBy = (column: string): Record<string, number> => {
+      const rows = this.db.prepare(
+        `SELECT ${column} AS key, SUM(actual_cost) AS cost FROM cost_records ${where} GROUP BY ${column}`
+      ).all(...params) as GroupRow[];
+      return Object.fromEntries(rows.map(row => [row.key, row.cost]));
+    };
+
+    const totalRequests = Number(totals.requests);
+
+    return {
+      totalCost: totals.cost,
+      totalRequests,
+      averageCostPerRequest: totalRequests > 0 ? totals.cost / totalRequests : 0,
+      byModel: groupBy('model'),
+      byProvider: groupBy('provider') as Record<ModelProvider, number>,
+      byAgent: groupBy('agent_id'),
+      period: {
+        start: startDate.toISOString(),
+        end: endDate.toISOString(),
+      },
+      totalTokens: {
+        input: Number(totals.inputTokens),
+        output: Number(totals.outputTokens),
+        total: Number(totals.totalTokens),
+      },
+    };
+  }
+
+  private parseRows(rows: unknown[]): CostRecord[] {
+    return (rows as CostRow[]).map(row => JSON.parse(row.record) as CostRecord);
+  }
+}
+
+/**
+ * Run a synchronous better-sqlite3 operation, rejecting instead of throwing
+ */
+function settle<T>(operation: () => T): Promise<T> {
+  try {
+    return Promise.resolve(operation());
+  } catch (error) {
+    return Promise.reject(error);
+  }
+}
+
+/**
+ * Open a database file with better-sqlite3, which is an optional dependency
+ */
+function openDatabase(filename: string): SqliteDatabase {
+  let Database: new (filename: string) => SqliteDatabase;
+  try {
+    Database = loadOptionalModule<new (filename: string) => SqliteDatabase>('better-sqlite3');
+  } catch {
+    throw new Error(
+      'SqliteCostStorage requires the "better-sqlite3" package. Install it or pass an open database.'
+    );
+  }
+  return new Database(filename);
+}
@@ -0,0 +1,243 @@
+/**
+ * Tokenizers
+ *
+ * Offline token counting used for pre-request cost estimates
+ */
+
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import { ModelProvider } from './types';
+import { loadOptionalModule } from '../utils/modules';
+
+/**
+ * Chat message as accepted by the drop-in clients
+ */
+export interface TokenizerMessage {
+  role: string;
+  /** String content, null, or provider content parts (text, image, tool_use, ...) */
+  content?: unknown;
+  name?: string | undefined;
+  /** OpenAI assistant tool calls */
+  tool_calls?: unknown;
+}
+
+/**
+ * Token counter for a model family
+ */
+export interface Tokenizer {
+  /** Encoding name (e.g., 'cl100k_base') */
+  readonly name: string;
+
+  /**
+   * Count tokens in plain text
+   * @param text Text to count
+   * @returns Token count
+   */
+  countTokens(text: string): number;
+
+  /**
+   * Count prompt tokens for chat messages, including message framing and images
+   * @param messages Chat messages
+   * @returns Token count
+   */
+  countMessageTokens(messages: TokenizerMessage[]): number;
+}
+
+/**
+ * Per-format overheads used when counting chat messages
+ */
+interface MessageFraming {
+  /** Tokens added around every message */
+  perMessage: number;
+  /** Tokens added when a message has a name */
+  perName: number;
+  /** Tokens that prime the assistant reply */
+  replyPriming: number;
+  /** Tokens charged for an image without known dimensions */
+  perImage: number;
+}
+
+/**
+ * Base tokenizer that derives message counts from text counts
+ */
+export abstract class BaseTokenizer implements Tokenizer {
+  abstract readonly name: string;
+  protected abstract readonly framing: MessageFraming;
+
+  abstract countTokens(text: string): number;
+
+  countMessageTokens(messages: TokenizerMessage[]): number {
+    let tokens = this.framing.replyPriming;
+
+    for (const message of messages) {
+      tokens += this.framing.perMessage + this.countTokens(message.role);
+      if (message.name) {
+        tokens += this.framing.perName + this.countTokens(message.name);
+      }
+      tokens += this.countContentTokens(message.content);
+      if (message.tool_calls !== undefined) {
+        tokens += this.countTokens(JSON.stringify(message.tool_calls));
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Count string content or provider content parts
+   */
+  protected countContentTokens(content: unknown): number {
+    if (content === undefined || content === null) {
+      return 0;
+    }
+    if (typeof content === 'string') {
+      return this.countTokens(content);
+    }
+    if (!Array.isArray(content)) {
+      return this.countTokens(JSON.stringify(content));
+    }
+
+    let tokens = 0;
+    for (const part of content as Array<Record<string, any>>) {
+      switch (part?.type) {
+        case 'text':
+          tokens += this.countTokens(String(part.text ?? ''));
+          break;
+        case 'image':
+        case 'image_url':
+          tokens += this.framing.perImage;
+          break;
+        case 'tool_use':
+          tokens += this.countTokens(`${part.name ?? ''}${JSON.stringify(part.input ?? {})}`);
+          break;
+        case 'tool_result':
+          tokens += this.countContentTokens(part.content);
+          break;
+        default:
+          tokens += this.countTokens(JSON.stringify(part));
+      }
+    }
+    return tokens;
+  }
+}
+
+/**
+ * Supported offline BPE encodings
+ */
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Loaded encoders, shared across tokenizer instances
+ */
+const encoders = new Map<BpeEncoding, Tiktoken>();
+
+/**
+ * Load an encoding's rank table on first use (the tables are large)
+ */
+function getEncoder(encoding: BpeEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    const ranks = loadOptionalModule<TiktokenBPE | { default: TiktokenBPE }>(`js-tiktoken/ranks/${encoding}`);
+    encoder = new Tiktoken('default' in ranks ? ranks.default : ranks);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Exact BPE tokenizer for OpenAI encodings
+ *
+ * Message framing follows OpenAI's chat format: 3 tokens per message,
+ * 1 per name and 3 to prime the reply. Images without known dimensions
+ * are counted as a 1024x1024 high-detail image (765 tokens).
+ */
+export class BpeTokenizer extends BaseTokenizer {
+  readonly name: BpeEncoding;
+  protected readonly framing: MessageFraming = {
+    perMessage: 3,
+    perName: 1,
+    replyPriming: 3,
+    perImage: 765,
+  };
+
+  constructor(encoding: BpeEncoding = 'cl100k_base') {
+    super();
+    this.name = encoding;
+  }
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    // Special tokens in user text are billed as ordinary text
+    return getEncoder(this.name).encode(text, [], []).length;
+  }
+}
+
+/**
+ * Approximate tokenizer for Anthropic Claude models
+ *
+ * Claude's tokenizer is not published; counts are cl100k counts scaled by
+ * a configurable factor, as Claude typically produces more tokens than
+ * cl100k for the same text. Images without known dimensions are counted at
+ * Anthropic's ~1600 token maximum.
+ */
+export class AnthropicTokenizer extends BaseTokenizer {
+  readonly name = 'anthropic-approx';
+  protected readonly framing: MessageFraming = {
+    perMessage: 4,
+    perName: 0,
+    replyPriming: 3,
+    perImage: 1600,
+  };
+  private readonly base = new BpeTokenizer('cl100k_base');
+  private readonly scale: number;
+
+  /**
+   * @param scale Multiplier applied to cl100k counts (default: 1.1)
+   */
+  constructor(scale = 1.1) {
+    super();
+    this.scale = scale;
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(this.base.countTokens(text) * this.scale);
+  }
+}
+
+/**
+ * Models that use the o200k_base encoding
+ */
+const O200K_MODELS = /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4)/;
+
+/**
+ * Default tokenizer instances
+ */
+const defaultTokenizers: Record<'cl100k_base' | 'o200k_base' | 'anthropic', Tokenizer> = {
+  cl100k_base: new BpeTokenizer('cl100k_base'),
+  o200k_base: new BpeTokenizer('o200k_base'),
+  anthropic: new AnthropicTokenizer(),
+};
+
+/**
+ * Get the default tokenizer for a model
+ *
+ * Models without a known encoding fall back to cl100k_base, which is
+ * much closer than a character heuristic for most modern tokenizers.
+ * @param model Model identifier
+ * @param provider Optional provider hint
+ * @returns Tokenizer
+ */
+export function getTokenizerForModel(model: string, provider?: ModelProvider): Tokenizer {
+  const normalized = model.toLowerCase();
+
+  if (provider === 'anthropic' || normalized.startsWith('claude')) {
+    return defaultTokenizers.anthropic;
+  }
+
+  if (O200K_MODELS.test(normalized)) {
+    return defaultTokenizers.o200k_base;
+  }
+
+  return defaultTokenizers.cl100k_base;
+}
@@ -537,6 +537,194 @@ describe('BudgetManager', () => {
     });
   });
 
+  describe('throttle budgets', () => {
+    const createThrottleBudget = (throttle: { ratePerMinute?: number; burst?: number; threshold?: number } = {}) =>
+      manager.createBudget({
+        name: 'Batch Budget',
+        limit: 10.0,
+        period: 'daily',
+        alertThresholds: [],
+        action: 'throttle',
+        throttle,
+        enabled: true,
+      });
+
+    it('should not throttle below the threshold', async () => {
+      createThrottleBudget({ ratePerMinute: 0.01, burst: 0.01 });
+
+      const first = await manager.checkBudget('agent-1', 1.0);
+      const second = await manager.checkBudget('agent-1', 1.0);
+
+      expect(first.allowed).toBe(true);
+      expect(second.allowed).toBe(true);
+      expect(second.throttled).toBeUndefined();
+    });
+
+    it('should return a retry-after once the bucket is drained near the limit', async () => {
+      const budget = createThrottleBudget({ ratePerMinute: 0.6, burst: 1.0 });
+      await storage.store(createMockRecord({ actualCost: 8.5 }));
+
+      expect((await manager.checkBudget('agent-1', 0.5)).allowed).toBe(true);
+      expect((await manager.checkBudget('agent-1', 0.5)).allowed).toBe(true);
+
+      const result = await manager.checkBudget('agent-1', 0.5);
+
+      expect(result.allowed).toBe(false);
+      expect(result.throttled).toBe(true);
+      expect(result.throttledBy?.id).toBe(budget.id);
+      expect(result.retryAfterMs).toBeGreaterThan(49000);
+      expect(result.retryAfterMs).toBeLessThanOrEqual(50000);
+      expect(result.blockedBy).toBeUndefined();
+    });
+
+    it('should keep throttling rather than blocking past the limit', async () => {
+      createThrottleBudget({ ratePerMinute: 1.0, burst: 1.0 });
+      await storage.store(createMockRecord({ actualCost: 12.0 }));
+
+      expect((await manager.checkBudget('agent-1', 0.5)).allowed).toBe(true);
+      expect((await manager.checkBudget('agent-1', 0.5)).allowed).toBe(true);
+      expect((await manager.checkBudget('agent-1', 0.5)).throttled).toBe(true);
+    });
+
+    it('should spread the limit over the period by default', async () => {
+      createThrottleBudget();
+      await storage.store(createMockRecord({ actualCost: 9.0 }));
+
+      // Daily $10 budget refills at 10 / 1440 dollars per minute, one minute of burst
+      await manager.checkBudget('agent-1', 10 / 1440);
+      const result = await manager.checkBudget('agent-1', 10 / 1440);
+
+      expect(result.throttled).toBe(true);
+      expect(result.retryAfterMs).toBeGreaterThan(59000);
+      expect(result.retryAfterMs).toBeLessThanOrEqual(60000);
+    });
+
+    it('should wait for capacity in waitForBudget', async () => {
+      createThrottleBudget({ ratePerMinute: 60, burst: 0.05 });
+      await storage.store(createMockRecord({ actualCost: 9.0 }));
+      await manager.checkBudget('agent-1', 0.05);
+
+      const start = Date.now();
+      const result = await manager.waitForBudget('agent-1', 0.05, { maxWaitMs: 1000 });
+
+      expect(result.allowed).toBe(true);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should give up in waitForBudget when the delay exceeds maxWaitMs', async () => {
+      createThrottleBudget({ ratePerMinute: 0.01, burst: 0.01 });
+      await storage.store(createMockRecord({ actualCost: 9.0 }));
+      await manager.checkBudget('agent-1', 0.01);
+
+      const result = await manager.waitForBudget('agent-1', 0.01, { maxWaitMs: 10 });
+
+      expect(result.throttled).toBe(true);
+      expect(result.retryAfterMs).toBeGreaterThan(10);
+    });
+  });
+
+  describe('scope hierarchy', () => {
+    const createScopedBudget = (
+      type: 'agent' | 'project' | 'organization',
+      id: string,
+      limit: number
+    ) => manager.createBudget({
+      name: `${type} ${id}`,
+      limit,
+      period: 'daily',
+      alertThresholds: [100],
+      action: 'block',
+      scope: { type, id },
+      enabled: true,
+    });
+
+    beforeEach(() => {
+      manager = new BudgetManager(storage, {
+        agents: {
+          'agent-1': { projectId: 'project-a' },
+          'agent-2': { projectId: 'project-a' },
+          'agent-3': { projectId: 'project-b' },
+        },
+        projects: { 'project-a': 'org-1', 'project-b': 'org-1' },
+      });
+    });
+
+    it('should resolve project and organization from configuration', () => {
+      expect(manager.resolveScope('agent-1')).toEqual({
+        agentId: 'agent-1',
+        projectId: 'project-a',
+        organizationId: 'org-1',
+      });
+    });
+
+    it('should prefer metadata over configuration', () => {
+      expect(manager.resolveScope('agent-1', { projectId: 'project-c', organizationId: 'org-2' })).toEqual({
+        agentId: 'agent-1',
+        projectId: 'project-c',
+        organizationId: 'org-2',
+      });
+    });
+
+    it('should roll agent spend up into project and organization budgets', async () => {
+      const project = createScopedBudget('project', 'project-a', 10.0);
+      const organization = createScopedBudget('organization', 'org-1', 20.0);
+
+      await storage.store(createMockRecord({ agentId: 'agent-1', actualCost: 2.0 }));
+      await storage.store(createMockRecord({ agentId: 'agent-2', actualCost: 3.0 }));
+      await storage.store(createMockRecord({ agentId: 'agent-3', actualCost: 4.0 }));
+      await storage.store(createMockRecord({ agentId: 'agent-9', actualCost: 8.0 }));
+
+      expect((await manager.getBudgetStatus(project.id))?.currentSpending).toBe(5.0);
+      expect((await manager.getBudgetStatus(organization.id))?.currentSpending).toBe(9.0);
+    });
+
+    it('should block when a project budget is exceeded even if the agent budget is not', async () => {
+      createScopedBudget('agent', 'agent-1', 100.0);
+      const project = createScopedBudget('project', 'project-a', 5.0);
+
+      await storage.store(createMockRecord({ agentId: 'agent-2', actualCost: 4.5 }));
+
+      const result = await manager.checkBudget('agent-1', 1.0);
+
+      expect(result.allowed).toBe(false);
+      expect(result.blockedBy?.id).toBe(project.id);
+      expect((await manager.checkBudget('agent-3', 1.0)).allowed).toBe(true);
+    });
+
+    it('should report the most specific blocking budget and alert at every level', async () => {
+      const agent = createScopedBudget('agent', 'agent-1', 1.0);
+      const organization = createScopedBudget('organization', 'org-1', 1.0);
+
+      const result = await manager.checkBudget('agent-1', 2.0);
+
+      expect(result.blockedBy?.id).toBe(agent.id);
+      expect(result.alerts.map(a => a.budgetId).sort()).toEqual([agent.id, organization.id].sort());
+    });
+
+    it('should learn membership from cost record metadata', async () => {
+      const project = createScopedBudget('project', 'project-x', 5.0);
+      const organization = createScopedBudget('organization', 'org-x', 50.0);
+
+      const record = createMockRecord({
+        agentId: 'agent-new',
+        actualCost: 4.0,
+        metadata: { projectId: 'project-x', organizationId: 'org-x' },
+      });
+      await storage.store(record);
+      await manager.recordCost(record);
+
+      expect(manager.resolveScope('agent-new')).toEqual({
+        agentId: 'agent-new',
+        projectId: 'project-x',
+        organizationId: 'org-x',
+      });
+      expect((await manager.getBudgetStatus(organization.id))?.currentSpending).toBe(4.0);
+
+      const result = await manager.checkBudget('agent-new', 2.0);
+      expect(result.blockedBy?.id).toBe(project.id);
+    });
+  });
+
   describe('period calculations', () => {
     it('should calculate daily period correctly', async () => {
       const budget = manager.createBudget({
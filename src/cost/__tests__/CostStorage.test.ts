@@ -2,14 +2,37 @@
  * Cost Storage Tests
  */
 
-import { InMemoryCostStorage } from '../CostStorage';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ICostStorage, InMemoryCostStorage, createCostStorage } from '../CostStorage';
+import { JsonlCostStorage } from '../JsonlCostStorage';
+import { SqliteCostStorage } from '../SqliteCostStorage';
 import { CostRecord } from '../types';
 
-describe('InMemoryCostStorage', () => {
-  let storage: InMemoryCostStorage;
+type ContractStorage = ICostStorage & { size(): number };
+
+// Every ICostStorage implementation must pass the same contract
+const implementations: Array<[string, (dir: string) => ContractStorage]> = [
+  ['InMemoryCostStorage', () => new InMemoryCostStorage()],
+  ['JsonlCostStorage', dir => new JsonlCostStorage({ filePath: path.join(dir, 'costs.jsonl') })],
+  ['SqliteCostStorage', dir => new SqliteCostStorage({ filename: path.join(dir, 'costs.db') })],
+];
+
+describe.each(implementations)('%s', (_name, createStorage) => {
+  let storage: ContractStorage;
+  let dir: string;
 
   beforeEach(() => {
-    storage = new InMemoryCostStorage();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-storage-'));
+    storage = createStorage(dir);
+  });
+
+  afterEach(() => {
+    if (storage instanceof SqliteCostStorage) {
+      storage.close();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
   });
 
   const createMockRecord = (overrides: Partial<CostRecord> = {}): CostRecord => ({
@@ -264,3 +287,161 @@ describe('InMemoryCostStorage', () => {
     });
   });
 });
+
+describe('persistent cost storage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createRecord = (id: string, timestamp: Date, actualCost = 0.01): CostRecord => ({
+    id,
+    requestId: `req-${id}`,
+    agentId: 'agent-1',
+    model: 'gpt-4',
+    provider: 'openai',
+    actualTokens: { inputTokens: 100, outputTokens: 50, totalTokens: 150 },
+    actualCost,
+    breakdown: { inputCost: actualCost / 2, outputCost: actualCost / 2 },
+    timestamp: timestamp.toISOString(),
+  });
+
+  describe('JsonlCostStorage', () => {
+    it('should reload records and keep the latest version of each ID', async () => {
+      const filePath = path.join(dir, 'nested', 'costs.jsonl');
+      const now = new Date();
+
+      const first = new JsonlCostStorage({ filePath });
+      await first.store(createRecord('a', now, 0.01));
+      await first.store(createRecord('b', now, 0.02));
+      await first.store(createRecord('a', now, 0.05));
+
+      const reopened = new JsonlCostStorage({ filePath });
+
+      expect((await reopened.get('a'))?.actualCost).toBe(0.05);
+      expect(reopened.size()).toBe(2);
+      expect((await reopened.getSummary(new Date(now.getTime() - 1000), now)).totalCost).toBeCloseTo(0.07);
+    });
+
+    it('should retry loading after a failed load', async () => {
+      const blocker = path.join(dir, 'blocker');
+      fs.writeFileSync(blocker, '');
+
+      const storage = new JsonlCostStorage({ filePath: path.join(blocker, 'costs.jsonl') });
+      await expect(storage.get('a')).rejects.toThrow();
+
+      fs.unlinkSync(blocker);
+      await storage.store(createRecord('a', new Date()));
+
+      expect(await storage.get('a')).toBeDefined();
+    });
+
+    it('should skip a torn trailing line', async () => {
+      const filePath = path.join(dir, 'costs.jsonl');
+      fs.writeFileSync(filePath, JSON.stringify(createRecord('a', new Date())) + '\n{"id":"b","requ');
+
+      const storage = new JsonlCostStorage({ filePath });
+
+      expect(await storage.get('a')).toBeDefined();
+      expect(storage.size()).toBe(1);
+    });
+
+    it('should keep records appended after a torn trailing line', async () => {
+      const filePath = path.join(dir, 'costs.jsonl');
+      const now = new Date();
+      fs.writeFileSync(filePath, JSON.stringify(createRecord('a', now)) + '\n{"id":"b","requ');
+
+      const storage = new JsonlCostStorage({ filePath });
+      await storage.store(createRecord('c', now));
+
+      const reopened = new JsonlCostStorage({ filePath });
+
+      expect(await reopened.get('a')).toBeDefined();
+      expect(await reopened.get('c')).toBeDefined();
+      expect(reopened.size()).toBe(2);
+    });
+
+    it('should terminate a complete last line before appending', async () => {
+      const filePath = path.join(dir, 'costs.jsonl');
+      const now = new Date();
+      fs.writeFileSync(filePath, JSON.stringify(createRecord('a', now)));
+
+      const storage = new JsonlCostStorage({ filePath });
+      await storage.store(createRecord('b', now));
+
+      const reopened = new JsonlCostStorage({ filePath });
+
+      expect(await reopened.get('a')).toBeDefined();
+      expect(await reopened.get('b')).toBeDefined();
+    });
+
+    it('should rewrite the file when deleting old records', async () => {
+      const filePath = path.join(dir, 'costs.jsonl');
+      const now = new Date();
+      const lastWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+      const storage = new JsonlCostStorage({ filePath });
+      await storage.store(createRecord('old', lastWeek));
+      await storage.store(createRecord('new', now));
+      await storage.store(createRecord('new', now));
+
+      expect(await storage.deleteOlderThan(new Date(now.getTime() - 1000))).toBe(1);
+
+      const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]).id).toBe('new');
+    });
+
+    it('should return date ranges in timestamp order regardless of insertion order', async () => {
+      const now = Date.now();
+      const storage = new JsonlCostStorage({ filePath: path.join(dir, 'costs.jsonl') });
+      await storage.store(createRecord('c', new Date(now - 1000)));
+      await storage.store(createRecord('a', new Date(now - 3000)));
+      await storage.store(createRecord('b', new Date(now - 2000)));
+
+      const records = await storage.getByDateRange(new Date(now - 3000), new Date(now - 2000));
+
+      expect(records.map(r => r.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('SqliteCostStorage', () => {
+    it('should persist records across connections', async () => {
+      const filename = path.join(dir, 'costs.db');
+      const now = new Date();
+
+      const first = new SqliteCostStorage({ filename });
+      await first.store(createRecord('a', now));
+      first.close();
+
+      const reopened = new SqliteCostStorage({ filename });
+      expect(await reopened.get('a')).toEqual(createRecord('a', now));
+      expect(await reopened.getByRequestId('req-a')).toHaveLength(1);
+      reopened.close();
+    });
+
+    it('should reject missing connection options', () => {
+      expect(() => new SqliteCostStorage({})).toThrow('SqliteCostStorage requires a filename or database');
+    });
+  });
+
+  describe('createCostStorage', () => {
+    it('should create persistent storage types', () => {
+      const jsonl = createCostStorage('jsonl', { filePath: path.join(dir, 'costs.jsonl') });
+      const sqlite = createCostStorage('sqlite', { filename: path.join(dir, 'costs.db') });
+
+      expect(jsonl).toBeInstanceOf(JsonlCostStorage);
+      expect(sqlite).toBeInstanceOf(SqliteCostStorage);
+      (sqlite as SqliteCostStorage).close();
+    });
+
+    it('should require a file path for JSONL storage', () => {
+      expect(() => createCostStorage('jsonl')).toThrow('JSONL storage requires a filePath');
+    });
+  });
+});
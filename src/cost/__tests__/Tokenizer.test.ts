@@ -0,0 +1,114 @@
+/**
+ * Tokenizer Tests
+ */
+
+import {
+  BpeTokenizer,
+  AnthropicTokenizer,
+  getTokenizerForModel,
+  Tokenizer
+} from '../Tokenizer';
+import { CostTracker } from '../CostTracker';
+
+describe('Tokenizer', () => {
+  describe('BpeTokenizer', () => {
+    const cl100k = new BpeTokenizer('cl100k_base');
+    const o200k = new BpeTokenizer('o200k_base');
+
+    it('should count cl100k tokens exactly', () => {
+      expect(cl100k.countTokens('hello world')).toBe(2);
+      expect(cl100k.countTokens('Hello, world!')).toBe(4);
+      expect(cl100k.countTokens('')).toBe(0);
+    });
+
+    it('should count o200k tokens exactly', () => {
+      expect(o200k.countTokens('Hello, world!')).toBe(4);
+      expect(o200k.countTokens('你好，世界')).toBe(3);
+    });
+
+    it('should count CJK text far above the chars/4 heuristic', () => {
+      const text = '你好，世界';
+
+      expect(cl100k.countTokens(text)).toBe(6);
+      expect(Math.ceil(text.length / 4)).toBe(2);
+    });
+
+    it('should treat special tokens in user text as ordinary text', () => {
+      expect(cl100k.countTokens('<|endoftext|>')).toBeGreaterThan(1);
+    });
+
+    it('should match OpenAI prompt token accounting for chat messages', () => {
+      // OpenAI reports 9 prompt tokens for a single "Hello!" user message
+      expect(cl100k.countMessageTokens([{ role: 'user', content: 'Hello!' }])).toBe(9);
+
+      expect(cl100k.countMessageTokens([
+        { role: 'system', content: 'You are a helpful assistant.' },
+        { role: 'user', content: 'Hello!', name: 'alice' },
+      ])).toBe(3 + (3 + 1 + 6) + (3 + 1 + 2 + 1 + 1)); // priming + system + named user message
+    });
+
+    it('should charge a fixed amount for images without dimensions', () => {
+      const withImage = cl100k.countMessageTokens([{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Hello!' },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+        ],
+      }]);
+
+      expect(withImage).toBe(9 + 765);
+    });
+  });
+
+  describe('AnthropicTokenizer', () => {
+    it('should scale cl100k counts', () => {
+      const text = 'The quick brown fox jumps over the lazy dog.';
+      const base = new BpeTokenizer('cl100k_base').countTokens(text);
+
+      expect(new AnthropicTokenizer().countTokens(text)).toBe(Math.ceil(base * 1.1));
+      expect(new AnthropicTokenizer(1.5).countTokens(text)).toBe(Math.ceil(base * 1.5));
+    });
+
+    it('should count tool_use and tool_result content parts', () => {
+      const tokenizer = new AnthropicTokenizer(1);
+      const count = tokenizer.countMessageTokens([{
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'sunny' }],
+      }]);
+
+      expect(count).toBe(3 + 4 + tokenizer.countTokens('user') + tokenizer.countTokens('sunny'));
+    });
+  });
+
+  describe('getTokenizerForModel', () => {
+    it('should select the encoding for each model family', () => {
+      expect(getTokenizerForModel('gpt-4').name).toBe('cl100k_base');
+      expect(getTokenizerForModel('gpt-3.5-turbo').name).toBe('cl100k_base');
+      expect(getTokenizerForModel('gpt-4o-mini').name).toBe('o200k_base');
+      expect(getTokenizerForModel('o1-preview').name).toBe('o200k_base');
+      expect(getTokenizerForModel('claude-3-opus-20240229').name).toBe('anthropic-approx');
+      expect(getTokenizerForModel('my-model', 'anthropic').name).toBe('anthropic-approx');
+    });
+  });
+
+  describe('CostTracker integration', () => {
+    it('should use the model tokenizer by default', () => {
+      const tracker = new CostTracker();
+
+      expect(tracker.countMessageTokens('gpt-4', [{ role: 'user', content: 'Hello!' }])).toBe(9);
+    });
+
+    it('should use a configured tokenizer for all models', () => {
+      const fixed: Tokenizer = {
+        name: 'fixed',
+        countTokens: () => 1,
+        countMessageTokens: messages => messages.length * 10,
+      };
+      const tracker = new CostTracker({ tokenizer: fixed });
+
+      expect(tracker.getTokenizer('gpt-4')).toBe(fixed);
+      expect(tracker.countTokens('claude-3-opus-20240229', 'anything')).toBe(1);
+      expect(tracker.countMessageTokens('gpt-4', [{ role: 'user', content: 'Hi' }])).toBe(10);
+    });
+  });
+});
@@ -7,5 +7,8 @@
 export * from './types';
 export * from './pricing';
 export * from './CostTracker';
+export * from './Tokenizer';
 export * from './CostStorage';
+export * from './JsonlCostStorage';
+export * from './SqliteCostStorage';
 export * from './BudgetManager';
@@ -4,6 +4,8 @@
  * Type definitions for cost monitoring and budget enforcement
  */
 
+import type { Tokenizer } from './Tokenizer';
+
 /**
  * Supported AI model providers
  */
@@ -115,6 +117,8 @@ export interface BudgetConfig {
   alertThresholds: number[]; // e.g., [50, 75, 90, 100]
   /** Action to take when limit exceeded */
   action: 'alert' | 'block' | 'throttle';
+  /** Optional: Rate shaping for 'throttle' budgets */
+  throttle?: BudgetThrottleConfig;
   /** Optional: Scope (agent, project, organization) */
   scope?: {
     type: 'agent' | 'project' | 'organization';
@@ -128,6 +132,40 @@ export interface BudgetConfig {
   updatedAt: string;
 }
 
+/**
+ * Rate shaping for 'throttle' budgets
+ *
+ * Once projected spend reaches the threshold, requests draw from a token
+ * bucket of dollars that refills at ratePerMinute.
+ */
+export interface BudgetThrottleConfig {
+  /** Percentage of the limit at which throttling starts (default: 80) */
+  threshold?: number;
+  /** Allowed spend in USD per minute (default: limit spread evenly over the period) */
+  ratePerMinute?: number;
+  /** Bucket capacity in USD (default: one minute of spend) */
+  burst?: number;
+}
+
+/**
+ * Position of an agent in the agent → project → organization budget hierarchy
+ */
+export interface BudgetScopeAssignment {
+  /** Project the agent belongs to */
+  projectId?: string;
+  /** Organization the agent belongs to (defaults to the project's organization) */
+  organizationId?: string;
+}
+
+/**
+ * Fully resolved budget scope for an agent or cost record
+ */
+export interface ResolvedBudgetScope {
+  agentId: string;
+  projectId?: string | undefined;
+  organizationId?: string | undefined;
+}
+
 /**
  * Budget status
  */
@@ -221,4 +259,6 @@ export interface CostTrackerConfig {
   enableBudgets: boolean;
   /** Whether to send alerts */
   enableAlerts: boolean;
+  /** Optional: Tokenizer for all models (default: per-model offline tokenizer) */
+  tokenizer?: Tokenizer;
 }
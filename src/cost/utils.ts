@@ -2,6 +2,8 @@
  * Cost Tracking Utilities
  */
 
+import { CostRecord, CostSummary, ModelProvider } from './types';
+
 /**
  * Generate a simple UUID v4
  * @returns UUID string
@@ -13,3 +15,60 @@ export function generateId(): string {
     return v.toString(16);
   });
 }
+
+/**
+ * Aggregate cost records into a summary for a time period
+ * @param records Records already filtered to the period
+ * @param startDate Period start
+ * @param endDate Period end
+ * @returns Cost summary
+ */
+export function summarizeCostRecords(
+  records: CostRecord[],
+  startDate: Date,
+  endDate: Date
+): CostSummary {
+  // Calculate totals
+  const totalCost = records.reduce((sum, r) => sum + r.actualCost, 0);
+  const totalRequests = records.length;
+  const averageCostPerRequest = totalRequests > 0 ? totalCost / totalRequests : 0;
+
+  // Breakdown by model
+  const byModel: Record<string, number> = {};
+  records.forEach(r => {
+    byModel[r.model] = (byModel[r.model] || 0) + r.actualCost;
+  });
+
+  // Breakdown by provider
+  const byProvider: Record<ModelProvider, number> = {} as Record<ModelProvider, number>;
+  records.forEach(r => {
+    byProvider[r.provider] = (byProvider[r.provider] || 0) + r.actualCost;
+  });
+
+  // Breakdown by agent
+  const byAgent: Record<string, number> = {};
+  records.forEach(r => {
+    byAgent[r.agentId] = (byAgent[r.agentId] || 0) + r.actualCost;
+  });
+
+  // Total tokens
+  const totalTokens = {
+    input: records.reduce((sum, r) => sum + r.actualTokens.inputTokens, 0),
+    output: records.reduce((sum, r) => sum + r.actualTokens.outputTokens, 0),
+    total: records.reduce((sum, r) => sum + r.actualTokens.totalTokens, 0),
+  };
+
+  return {
+    totalCost,
+    totalRequests,
+    averageCostPerRequest,
+    byModel,
+    byProvider,
+    byAgent,
+    period: {
+      start: startDate.toISOString(),
+      end: endDate.toISOString(),
+    },
+    totalTokens,
+  };
+}
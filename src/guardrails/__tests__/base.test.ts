@@ -89,6 +89,20 @@ describe('GuardrailResult', () => {
 
     expect(result.getRiskScore()).toBe(85);
   });
+
+  it('should return rewritten text for redact, mask and transform results', () => {
+    const rewritten = (action: 'allow' | 'redact' | 'mask' | 'transform') => new GuardrailResult({
+      passed: true,
+      action,
+      reason: 'Rewritten',
+      metadata: { redactedText: 'redacted', maskedText: 'masked', transformedText: 'transformed' },
+    }).getRewrittenText();
+
+    expect(rewritten('redact')).toBe('redacted');
+    expect(rewritten('mask')).toBe('masked');
+    expect(rewritten('transform')).toBe('transformed');
+    expect(rewritten('allow')).toBeUndefined();
+  });
 });
 
 describe('Guardrail', () => {
@@ -133,6 +147,8 @@ describe('Guardrail', () => {
     expect(metadata.enabled).toBe(true);
     expect(metadata.version).toBe('1.5.0');
     expect(metadata.description).toBe('Test description');
+    expect(metadata.advisory).toBe(false);
+    expect(metadata.weight).toBe(1);
   });
 
   it('should evaluate input', async () => {
@@ -0,0 +1,274 @@
+/**
+ * Tests for declarative guardrail configuration
+ */
+
+import { ConfigSource } from '../../config/ConfigSource';
+import { TealTigerConfigError } from '../../utils/errors';
+import { Guardrail, GuardrailResult } from '../base';
+import { parseGuardrailConfig } from '../config-loader';
+import { GuardrailEngine } from '../engine';
+import { PIIDetectionGuardrail } from '../pii-detection';
+import { GuardrailRegistry } from '../registry';
+
+class KeywordGuardrail extends Guardrail {
+  async evaluate(input: any): Promise<GuardrailResult> {
+    const passed = !String(input).includes(this.config.keyword);
+    return new GuardrailResult({ passed, action: passed ? 'allow' : 'block', reason: 'Keyword check' });
+  }
+}
+
+/**
+ * Issues reported for a configuration
+ */
+function issuesOf(source: string | Record<string, unknown>, registry?: GuardrailRegistry): unknown[] {
+  try {
+    GuardrailEngine.fromConfig(source, registry ? { registry } : {});
+  } catch (error) {
+    expect(error).toBeInstanceOf(TealTigerConfigError);
+    return (error as TealTigerConfigError).details?.issues as unknown[];
+  }
+  throw new Error('Expected a configuration error');
+}
+
+describe('GuardrailEngine.fromConfig', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should build an engine from YAML', async () => {
+    const engine = GuardrailEngine.fromConfig(`
+version: 1
+engine:
+  pipeline: true
+  aggregation: risk-threshold
+  riskThreshold: 90
+guardrails:
+  - type: pii-detection
+    options:
+      action: redact
+      packs: [network]
+      priority: 10
+  - type: prompt-injection
+    options:
+      sensitivity: high
+      normalize: [invisible, leetspeak]
+  - type: content-moderation
+    options:
+      useOpenAI: false
+      thresholds: { violence: 0.4 }
+`);
+
+    expect(engine.getRegisteredGuardrails().map((g) => g.name)).toEqual([
+      'PIIDetection',
+      'PromptInjection',
+      'ContentModeration',
+    ]);
+
+    const result = await engine.execute('Server 10.0.0.1 is down');
+    expect(result.rewrittenInput).toBe('Server [REDACTED_IPV4] is down');
+    expect(result.strategy).toBe('risk-threshold');
+  });
+
+  it('should build an engine from JSON', () => {
+    const engine = GuardrailEngine.fromConfig(JSON.stringify({
+      engine: { cache: { ttl: 1000 } },
+      guardrails: [{ type: 'secrets-detection', options: { action: 'redact' } }],
+    }));
+
+    expect(engine.getRegisteredGuardrails()[0].name).toBe('SecretsDetection');
+    expect(engine.getCache()).toBeDefined();
+  });
+
+  it('should report every schema problem with its path', () => {
+    const issues = issuesOf({
+      engine: { timeout: 0, retry: true },
+      guardrails: [
+        { type: 'pii-detection', options: { action: 'delete', minConfidence: 2 } },
+        { type: 'prompt-injection', options: { sensitivity: 'extreme', normalize: 'yes' } },
+        { type: 'unknown-guardrail' },
+        { options: {} },
+      ],
+    });
+
+    expect(issues).toEqual([
+      { path: 'engine.timeout', message: 'must be at least 1' },
+      { path: 'engine.retry', message: 'unknown option' },
+      { path: 'guardrails[3].type', message: 'is required' },
+      { path: 'guardrails[0].options.action', message: 'must be one of block, redact, mask, allow' },
+      { path: 'guardrails[0].options.minConfidence', message: 'must be at most 1' },
+      { path: 'guardrails[1].options.sensitivity', message: 'must be one of low, medium, high' },
+      { path: 'guardrails[1].options.normalize', message: 'expected boolean or string array' },
+      {
+        path: 'guardrails[2].type',
+        message: expect.stringContaining('unknown guardrail type "unknown-guardrail"'),
+      },
+    ]);
+  });
+
+  it('should include the issues in the error message', () => {
+    expect(() =>
+      GuardrailEngine.fromConfig({ guardrails: [{ type: 'pii-detection', options: { riskScores: { email: 'high' } } }] })
+    ).toThrow('Invalid guardrail configuration: guardrails[0].options.riskScores.email: expected number');
+  });
+
+  it('should reject documents that do not parse', () => {
+    expect(issuesOf('{ "guardrails": [')).toEqual([
+      { path: '', message: expect.stringContaining('could not parse JSON') },
+    ]);
+    expect(issuesOf('guardrails: [unclosed')).toEqual([
+      { path: '', message: expect.stringContaining('could not parse YAML') },
+    ]);
+    expect(issuesOf('')).toEqual([{ path: '', message: 'expected object' }]);
+  });
+
+  it('should reject duplicate guardrail names', () => {
+    expect(issuesOf({ guardrails: [{ type: 'pii-detection' }, { type: 'pii-detection' }] })).toEqual([
+      { path: 'guardrails[1].options.name', message: 'duplicate guardrail name "PIIDetection"' },
+    ]);
+
+    const engine = GuardrailEngine.fromConfig({
+      guardrails: [{ type: 'pii-detection' }, { type: 'pii-detection', options: { name: 'OutputPII' } }],
+    });
+    expect(engine.getRegisteredGuardrails()).toHaveLength(2);
+  });
+});
+
+describe('GuardrailRegistry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create built-in guardrails by type', () => {
+    const registry = GuardrailRegistry.withBuiltIns();
+
+    expect(registry.getTypes()).toEqual([
+      'pii-detection',
+      'prompt-injection',
+      'content-moderation',
+      'secrets-detection',
+      'topic-restriction',
+    ]);
+    expect(registry.create('pii-detection')).toBeInstanceOf(PIIDetectionGuardrail);
+  });
+
+  it('should register custom guardrail types with option schemas', async () => {
+    const registry = GuardrailRegistry.withBuiltIns().register('keyword', KeywordGuardrail, {
+      keyword: { type: 'string' },
+    });
+
+    const engine = GuardrailEngine.fromConfig(
+      { guardrails: [{ type: 'keyword', options: { name: 'NoSecrets', keyword: 'classified' } }] },
+      { registry }
+    );
+    const result = await engine.execute('this is classified');
+
+    expect(result.failedGuardrails).toEqual(['NoSecrets']);
+    expect(issuesOf({ guardrails: [{ type: 'keyword', options: { keyword: 1 } }] }, registry)).toEqual([
+      { path: 'guardrails[0].options.keyword', message: 'expected string' },
+    ]);
+  });
+
+  it('should pass options of types without a schema through', () => {
+    const registry = new GuardrailRegistry().register('keyword', KeywordGuardrail);
+
+    expect(registry.validate('keyword', { keyword: 'x', priority: 'high' })).toEqual([
+      { path: 'options.priority', message: 'expected number' },
+    ]);
+  });
+
+  it('should reject registering a type twice', () => {
+    const registry = GuardrailRegistry.withBuiltIns();
+
+    expect(() => registry.register('pii-detection', KeywordGuardrail)).toThrow('already registered');
+  });
+
+  it('should validate documents without building an engine', () => {
+    const document = parseGuardrailConfig('guardrails:\n  - type: secrets-detection\n');
+
+    expect(document.guardrails).toEqual([{ type: 'secrets-detection' }]);
+  });
+});
+
+describe('GuardrailEngine.watchConfig', () => {
+  let content: string;
+  const source: ConfigSource = {
+    location: 'memory://guardrails.yaml',
+    read: async () => ({ content, format: 'yaml' }),
+    watch: () => () => undefined,
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should swap in validated configuration and report its version', async () => {
+    const engine = new GuardrailEngine();
+    content = 'version: 1\nguardrails:\n  - type: secrets-detection\n';
+    const reloader = await engine.watchConfig(source);
+
+    expect(engine.getConfigVersion()).toBe('1');
+    expect((await engine.execute('hello')).configVersion).toBe('1');
+
+    content = 'version: 2\nengine: { aggregation: majority }\nguardrails:\n  - type: pii-detection\n';
+    await reloader.reload();
+
+    const result = await engine.execute('hello');
+    expect(result.configVersion).toBe('2');
+    expect(result.strategy).toBe('majority');
+    expect(engine.getRegisteredGuardrails().map((g) => g.name)).toEqual(['PIIDetection']);
+
+    content = 'version: 3\nguardrails:\n  - type: unknown-guardrail\n';
+    const event = await reloader.reload();
+    expect(event).toEqual(expect.objectContaining({ type: 'rejected', version: '2' }));
+    expect(engine.getConfigVersion()).toBe('2');
+
+    await reloader.rollback();
+    expect(engine.getConfigVersion()).toBe('1');
+    expect(engine.getRegisteredGuardrails().map((g) => g.name)).toEqual(['SecretsDetection']);
+    engine.unwatchConfig();
+  });
+
+  it('should finish running evaluations with the options they started with', async () => {
+    let reload: () => Promise<unknown> = async () => undefined;
+    class ReloadingGuardrail extends Guardrail {
+      async evaluate(): Promise<GuardrailResult> {
+        await reload();
+        return new GuardrailResult({ passed: false, action: 'block', reason: 'Blocked' });
+      }
+    }
+    const registry = new GuardrailRegistry().register('reloading', ReloadingGuardrail);
+    const engine = new GuardrailEngine();
+    content = 'version: 1\nguardrails:\n  - type: reloading\n';
+    const reloader = await engine.watchConfig(source, { registry });
+
+    content = 'version: 2\nengine: { aggregation: risk-threshold, riskThreshold: 100 }\nguardrails:\n  - type: reloading\n';
+    reload = () => reloader.reload();
+    const result = await engine.execute('hello');
+
+    expect(engine.getConfigVersion()).toBe('2');
+    expect(result.configVersion).toBe('1');
+    expect(result.strategy).toBe('any-block');
+    expect(result.passed).toBe(false);
+    engine.unwatchConfig();
+  });
+
+  it('should reject an invalid initial configuration', async () => {
+    const engine = new GuardrailEngine();
+    content = 'guardrails: 3\n';
+
+    await expect(engine.watchConfig(source)).rejects.toThrow(TealTigerConfigError);
+    expect(engine.getConfigVersion()).toBeUndefined();
+  });
+});
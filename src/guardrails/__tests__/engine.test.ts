@@ -4,6 +4,9 @@
 
 import { GuardrailEngine } from '../engine';
 import { Guardrail, GuardrailResult } from '../base';
+import { PIIDetectionGuardrail } from '../pii-detection';
+import { getMessagesText } from '../message-text';
+import { applyEdits } from '../text-diff';
 
 // Mock guardrails for testing
 class PassingGuardrail extends Guardrail {
@@ -40,6 +43,66 @@ class SlowGuardrail extends Guardrail {
   }
 }
 
+/**
+ * Records its evaluation order and resolves after a delay unless aborted
+ */
+class TrackingGuardrail extends Guardrail {
+  public aborted = false;
+
+  constructor(
+    config: Record<string, any>,
+    private calls: string[],
+    private delay = 0,
+    private passed = true
+  ) {
+    super(config);
+  }
+
+  async evaluate(_input: any, context?: Record<string, any>): Promise<GuardrailResult> {
+    this.calls.push(this.name);
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, this.delay);
+      context?.signal?.addEventListener('abort', () => {
+        this.aborted = true;
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+    return new GuardrailResult({
+      passed: this.passed,
+      action: this.passed ? 'allow' : 'block',
+      reason: this.passed ? 'Passed' : 'Blocked',
+      riskScore: this.passed ? 0 : 80,
+    });
+  }
+}
+
+/**
+ * Transforms a word and records the input it saw
+ */
+class ReplacingGuardrail extends Guardrail {
+  public seen: any[] = [];
+
+  constructor(config: Record<string, any>, private from: string, private to: string) {
+    super(config);
+  }
+
+  async evaluate(input: any): Promise<GuardrailResult> {
+    this.seen.push(input);
+    const text = typeof input === 'string' ? input : getMessagesText(input?.messages);
+    if (!text.includes(this.from)) {
+      return new GuardrailResult({ passed: true, action: 'allow', reason: 'Nothing to replace' });
+    }
+    return new GuardrailResult({
+      passed: true,
+      action: 'transform',
+      reason: `Replaced ${this.from}`,
+      metadata: { transformedText: text.split(this.from).join(this.to) },
+      riskScore: 20,
+    });
+  }
+}
+
 class ErrorGuardrail extends Guardrail {
   async evaluate(_input: any): Promise<GuardrailResult> {
     throw new Error('Evaluation error');
@@ -138,6 +201,18 @@ describe('GuardrailEngine', () => {
       expect(result.guardrailsExecuted).toBe(0);
     });
 
+    it('should execute only the named guardrails', async () => {
+      const engine = new GuardrailEngine();
+      const calls: string[] = [];
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'A' }, calls));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'B' }, calls));
+
+      const result = await engine.executeOnly(['B'], 'test input');
+
+      expect(calls).toEqual(['B']);
+      expect(result.results.map((r) => r.guardrailName)).toEqual(['B']);
+    });
+
     it('should execute in parallel by default', async () => {
       const engine = new GuardrailEngine({ parallelExecution: true });
       engine.registerGuardrail(new SlowGuardrail({ name: 'Slow1' }));
@@ -199,6 +274,304 @@ describe('GuardrailEngine', () => {
     });
   });
 
+  describe('Priority and failFast', () => {
+    it('should run guardrails by priority', async () => {
+      const calls: string[] = [];
+      const engine = new GuardrailEngine({ parallelExecution: false });
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Default' }, calls));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Urgent', priority: 10 }, calls));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Late', priority: -1 }, calls));
+
+      const result = await engine.execute('test input');
+
+      expect(calls).toEqual(['Urgent', 'Default', 'Late']);
+      expect(result.results.map((r) => r.guardrailName)).toEqual(['Urgent', 'Default', 'Late']);
+    });
+
+    it('should report priority and cost in metadata', () => {
+      const engine = new GuardrailEngine();
+      engine.registerGuardrail(new PassingGuardrail({ name: 'Test', priority: 5, cost: 'high' }));
+
+      expect(engine.getRegisteredGuardrails()[0]).toMatchObject({ priority: 5, cost: 'high' });
+    });
+
+    it('should run cheap stages first when staged', async () => {
+      const calls: string[] = [];
+      const engine = new GuardrailEngine({ staged: true });
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Remote', cost: 'high', priority: 10 }, calls));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Model', cost: 'medium' }, calls));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Regex', cost: 'low' }, calls));
+
+      const result = await engine.execute('test input');
+
+      expect(calls).toEqual(['Regex', 'Model', 'Remote']);
+      expect(result.guardrailsExecuted).toBe(3);
+      expect(result.skippedGuardrails).toEqual([]);
+    });
+
+    it('should stop sequential execution at the first block with failFast', async () => {
+      const calls: string[] = [];
+      const engine = new GuardrailEngine({ parallelExecution: false, failFast: true });
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Pass' }, calls));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Block' }, calls, 0, false));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Never' }, calls));
+
+      const result = await engine.execute('test input');
+
+      expect(calls).toEqual(['Pass', 'Block']);
+      expect(result.passed).toBe(false);
+      expect(result.guardrailsExecuted).toBe(2);
+      expect(result.skippedGuardrails).toEqual(['Never']);
+    });
+
+    it('should abort outstanding parallel evaluations with failFast', async () => {
+      const calls: string[] = [];
+      const slow = new TrackingGuardrail({ name: 'Slow' }, calls, 1000);
+      const engine = new GuardrailEngine({ failFast: true });
+      engine.registerGuardrail(slow);
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Block' }, calls, 10, false));
+
+      const startTime = Date.now();
+      const result = await engine.execute('test input');
+
+      expect(Date.now() - startTime).toBeLessThan(500);
+      expect(slow.aborted).toBe(true);
+      expect(result.failedGuardrails).toEqual(['Block']);
+      expect(result.skippedGuardrails).toEqual(['Slow']);
+    });
+
+    it('should skip expensive stages once a cheap guardrail blocks', async () => {
+      const calls: string[] = [];
+      const engine = new GuardrailEngine({ staged: true, failFast: true });
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Remote', cost: 'high' }, calls));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Regex', cost: 'low' }, calls, 0, false));
+
+      const result = await engine.execute('test input');
+
+      expect(calls).toEqual(['Regex']);
+      expect(result.skippedGuardrails).toEqual(['Remote']);
+    });
+
+    it('should run every guardrail without failFast', async () => {
+      const calls: string[] = [];
+      const engine = new GuardrailEngine({ parallelExecution: false });
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Block' }, calls, 0, false));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'After' }, calls));
+
+      const result = await engine.execute('test input');
+
+      expect(calls).toEqual(['Block', 'After']);
+      expect(result.skippedGuardrails).toEqual([]);
+    });
+  });
+
+  describe('Pipeline', () => {
+    it('should feed each rewrite into the next guardrail', async () => {
+      const engine = new GuardrailEngine({ pipeline: true });
+      const moderation = new ReplacingGuardrail({ name: 'Moderation' }, 'darn', 'd***');
+      engine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact', priority: 1 }));
+      engine.registerGuardrail(moderation);
+
+      const input = 'Darn it, mail test@example.com, darn';
+      const result = await engine.execute(input);
+
+      expect(moderation.seen).toEqual(['Darn it, mail [REDACTED_EMAIL], darn']);
+      expect(result.rewrittenInput).toBe('Darn it, mail [REDACTED_EMAIL], d***');
+      expect(result.changes.map((c) => [c.guardrailName, c.action])).toEqual([
+        ['PIIDetection', 'redact'],
+        ['Moderation', 'transform'],
+      ]);
+    });
+
+    it('should record edits that reproduce the rewritten input', async () => {
+      const engine = new GuardrailEngine({ pipeline: true });
+      engine.registerGuardrail(new ReplacingGuardrail({ name: 'First', priority: 1 }, 'alpha', 'A'));
+      engine.registerGuardrail(new ReplacingGuardrail({ name: 'Second' }, 'beta', 'B'));
+
+      const input = 'alpha and beta and alpha';
+      const result = await engine.execute(input);
+
+      expect(result.changes[0].edits).toEqual([
+        { position: 0, length: 5, replacement: 'A' },
+        { position: 19, length: 5, replacement: 'A' },
+      ]);
+      const replayed = result.changes.reduce((text, change) => applyEdits(text, change.edits), input);
+      expect(replayed).toBe(result.rewrittenInput);
+      expect(replayed).toBe('A and B and A');
+    });
+
+    it('should not include removed text in the diff', async () => {
+      const engine = new GuardrailEngine({ pipeline: true });
+      engine.registerGuardrail(new PIIDetectionGuardrail({ action: 'redact' }));
+
+      const result = await engine.execute('Email: test@example.com');
+
+      expect(JSON.stringify(result.changes)).not.toContain('test@example.com');
+    });
+
+    it('should return the input unchanged when nothing rewrites it', async () => {
+      const engine = new GuardrailEngine({ pipeline: true });
+      engine.registerGuardrail(new PassingGuardrail({ name: 'Pass' }));
+
+      const result = await engine.execute('clean input');
+
+      expect(result.rewrittenInput).toBe('clean input');
+      expect(result.changes).toEqual([]);
+    });
+
+    it('should stop the pipeline at a block with failFast', async () => {
+      const calls: string[] = [];
+      const engine = new GuardrailEngine({ pipeline: true, failFast: true });
+      engine.registerGuardrail(new ReplacingGuardrail({ name: 'Replace', priority: 1 }, 'a', 'b'));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Block' }, calls, 0, false));
+      engine.registerGuardrail(new TrackingGuardrail({ name: 'Never', priority: -1 }, calls));
+
+      const result = await engine.execute('a');
+
+      expect(calls).toEqual(['Block']);
+      expect(result.rewrittenInput).toBe('b');
+      expect(result.skippedGuardrails).toEqual(['Never']);
+    });
+
+    it('should chain rewrites of message input', async () => {
+      const engine = new GuardrailEngine({ pipeline: true });
+      const replace = new ReplacingGuardrail({ name: 'Replace' }, 'darn', 'd***');
+      engine.registerGuardrail(new PIIDetectionGuardrail({ name: 'PII', priority: 1, action: 'redact' }));
+      engine.registerGuardrail(replace);
+
+      const result = await engine.execute({
+        messages: [
+          { role: 'system', content: 'Mail test@example.com' },
+          { role: 'user', content: [{ type: 'text', text: 'darn it' }] },
+        ],
+      });
+
+      expect(getMessagesText(replace.seen[0].messages)).toBe('Mail [REDACTED_EMAIL] darn it');
+      expect(result.rewrittenInput).toEqual({
+        messages: [
+          { role: 'system', content: 'Mail [REDACTED_EMAIL]' },
+          { role: 'user', content: [{ type: 'text', text: 'd*** it' }] },
+        ],
+      });
+      expect(result.changes.map((change) => change.messageIndexes)).toEqual([[0], [1]]);
+    });
+
+    it('should leave the input alone outside pipeline mode', async () => {
+      const engine = new GuardrailEngine();
+      const second = new ReplacingGuardrail({ name: 'Second' }, 'b', 'c');
+      engine.registerGuardrail(new ReplacingGuardrail({ name: 'First' }, 'a', 'b'));
+      engine.registerGuardrail(second);
+
+      const result = await engine.execute('a');
+
+      expect(second.seen).toEqual(['a']);
+      expect(result.rewrittenInput).toBeUndefined();
+      expect(result.changes).toEqual([]);
+    });
+  });
+
+  describe('Aggregation', () => {
+    /**
+     * Guardrail with a fixed outcome and risk score
+     */
+    const fixed = (name: string, passed: boolean, riskScore: number, config: Record<string, any> = {}) =>
+      new (class extends Guardrail {
+        async evaluate(): Promise<GuardrailResult> {
+          return new GuardrailResult({ passed, action: passed ? 'allow' : 'block', reason: name, riskScore });
+        }
+      })({ name, ...config });
+
+    it('should block on any failure by default', async () => {
+      const engine = new GuardrailEngine();
+      engine.registerGuardrail(fixed('A', true, 10));
+      engine.registerGuardrail(fixed('B', false, 60));
+
+      const result = await engine.execute('test input');
+
+      expect(result.passed).toBe(false);
+      expect(result.strategy).toBe('any-block');
+      expect(result.decision).toBe('Blocked by B');
+    });
+
+    it('should record advisory failures without blocking', async () => {
+      const engine = new GuardrailEngine({ failFast: true, parallelExecution: false });
+      engine.registerGuardrail(fixed('Monitor', false, 95, { advisory: true, priority: 1 }));
+      engine.registerGuardrail(fixed('Enforced', true, 10));
+
+      const result = await engine.execute('test input');
+
+      expect(result.passed).toBe(true);
+      expect(result.guardrailsExecuted).toBe(2);
+      expect(result.failedGuardrails).toEqual([]);
+      expect(result.advisoryFailures).toEqual(['Monitor']);
+      expect(result.maxRiskScore).toBe(10);
+    });
+
+    it('should block only when a weighted majority fails', async () => {
+      const engine = new GuardrailEngine({ aggregation: 'majority' });
+      engine.registerGuardrail(fixed('A', false, 60));
+      engine.registerGuardrail(fixed('B', true, 0));
+      engine.registerGuardrail(fixed('C', true, 0));
+
+      const result = await engine.execute('test input');
+      expect(result.passed).toBe(true);
+      expect(result.failedGuardrails).toEqual(['A']);
+      expect(result.decision).toBe('1 of 3 guardrail(s) failed (weight 1 of 3), no majority');
+
+      engine.registerGuardrail(fixed('D', false, 60, { weight: 2 }));
+      expect((await engine.execute('test input')).passed).toBe(false);
+    });
+
+    it('should block when the highest risk reaches the threshold', async () => {
+      const engine = new GuardrailEngine({ aggregation: 'risk-threshold', riskThreshold: 50 });
+      engine.registerGuardrail(fixed('Redactor', true, 60));
+
+      const result = await engine.execute('test input');
+
+      expect(result.passed).toBe(false);
+      expect(result.failedGuardrails).toEqual([]);
+      expect(result.decision).toBe('Highest risk score 60 reached threshold 50');
+    });
+
+    it('should combine weak signals with a weighted sum', async () => {
+      const engine = new GuardrailEngine({ aggregation: 'weighted-sum' });
+      engine.registerGuardrail(fixed('A', true, 30));
+      engine.registerGuardrail(fixed('B', true, 20, { weight: 2 }));
+
+      const result = await engine.execute('test input');
+
+      expect(result.riskScore).toBe(70);
+      expect(result.maxRiskScore).toBe(30);
+      expect(result.passed).toBe(false);
+    });
+
+    it('should ignore advisory risk in a weighted sum', async () => {
+      const engine = new GuardrailEngine({ aggregation: 'weighted-sum' });
+      engine.registerGuardrail(fixed('A', true, 30));
+      engine.registerGuardrail(fixed('Shadow', false, 90, { advisory: true }));
+
+      const result = await engine.execute('test input');
+
+      expect(result.passed).toBe(true);
+      expect(result.riskScore).toBe(30);
+    });
+
+    it('should report the deciding strategy in the summary', async () => {
+      const engine = new GuardrailEngine({ aggregation: 'weighted-sum', riskThreshold: 40 });
+      engine.registerGuardrail(fixed('A', true, 25));
+      engine.registerGuardrail(fixed('B', true, 25));
+
+      const summary = (await engine.execute('test input')).getSummary();
+
+      expect(summary).toMatchObject({
+        passed: false,
+        strategy: 'weighted-sum',
+        riskScore: 50,
+        decision: 'Weighted risk score 50 reached threshold 40',
+      });
+    });
+  });
+
   describe('Result Methods', () => {
     it('should provide allPassed() method', async () => {
       const engine = new GuardrailEngine();
@@ -241,6 +614,7 @@ describe('GuardrailEngine', () => {
       expect(summary.guardrailsExecuted).toBe(2);
       expect(summary.failedCount).toBe(1);
       expect(summary.maxRiskScore).toBe(90);
+      expect(summary.strategy).toBe('any-block');
       expect(summary.executionTime).toBeGreaterThanOrEqual(0);
     });
   });
@@ -0,0 +1,236 @@
+/**
+ * Moderation provider tests
+ *
+ * Runs against a local stub server using the global fetch implementation
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AzureContentSafetyProvider,
+  HttpModerationProvider,
+  ModerationProvider,
+  OpenAIModerationProvider,
+  PerspectiveModerationProvider,
+} from '../moderation-providers';
+import { ContentModerationGuardrail } from '../content-moderation';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, body: any) => void;
+
+describe('moderation providers', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let handlers: Record<string, Handler>;
+  let requests: Array<{ url: string; headers: http.IncomingHttpHeaders; body: any }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const parsed = body ? JSON.parse(body) : undefined;
+        requests.push({ url: req.url!, headers: req.headers, body: parsed });
+        const handler = handlers[req.url!.split('?')[0]];
+        if (handler) {
+          handler(req, res, parsed);
+        } else {
+          sendJson(res, 404, { error: { message: 'Not found' } });
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    handlers = {};
+    requests = [];
+  });
+
+  function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  it('should score text with the OpenAI moderation endpoint', async () => {
+    handlers['/v1/moderations'] = (_req, res) => sendJson(res, 200, {
+      results: [{ flagged: true, category_scores: { violence: 0.91, hate: 0.02 } }],
+    });
+
+    const provider = new OpenAIModerationProvider({ apiKey: 'sk-test', baseURL: `${baseURL}/v1`, model: 'omni-moderation-latest' });
+    const scores = await provider.moderate('text');
+
+    expect(scores).toEqual({ violence: 0.91, hate: 0.02 });
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(requests[0].body).toEqual({ input: 'text', model: 'omni-moderation-latest' });
+  });
+
+  it('should map Azure Content Safety severities onto guardrail categories', async () => {
+    handlers['/contentsafety/text:analyze'] = (_req, res) => sendJson(res, 200, {
+      categoriesAnalysis: [
+        { category: 'Hate', severity: 0 },
+        { category: 'SelfHarm', severity: 4 },
+        { category: 'Violence', severity: 6 },
+      ],
+    });
+
+    const provider = new AzureContentSafetyProvider({ endpoint: `${baseURL}/`, apiKey: 'azure-key' });
+    const scores = await provider.moderate('text');
+
+    expect(scores).toEqual({ hate: 0, 'self-harm': 4 / 6, violence: 1 });
+    expect(requests[0].url).toBe('/contentsafety/text:analyze?api-version=2023-10-01');
+    expect(requests[0].headers['ocp-apim-subscription-key']).toBe('azure-key');
+    expect(requests[0].body).toEqual({ text: 'text', outputType: 'FourSeverityLevels' });
+  });
+
+  it('should request Perspective attributes and keep the highest mapped score', async () => {
+    handlers['/v1alpha1/comments:analyze'] = (_req, res) => sendJson(res, 200, {
+      attributeScores: {
+        TOXICITY: { summaryScore: { value: 0.4, type: 'PROBABILITY' } },
+        INSULT: { summaryScore: { value: 0.8, type: 'PROBABILITY' } },
+        THREAT: { summaryScore: { value: 0.1, type: 'PROBABILITY' } },
+      },
+    });
+
+    const provider = new PerspectiveModerationProvider({
+      apiKey: 'g-key',
+      baseURL: `${baseURL}/v1alpha1`,
+      attributes: ['TOXICITY', 'INSULT', 'THREAT'],
+      categoryMap: { THREAT: 'violence' },
+    });
+    const scores = await provider.moderate('text');
+
+    expect(scores).toEqual({ harassment: 0.8, violence: 0.1 });
+    expect(requests[0].url).toBe('/v1alpha1/comments:analyze?key=g-key');
+    expect(Object.keys(requests[0].body.requestedAttributes)).toEqual(['TOXICITY', 'INSULT', 'THREAT']);
+  });
+
+  it('should call a generic HTTP provider with custom request and response handling', async () => {
+    handlers['/moderate'] = (_req, res, body) => sendJson(res, 200, {
+      labels: [{ name: 'abuse', score: body.content === 'text' ? 0.7 : 0 }],
+    });
+
+    const provider = new HttpModerationProvider({
+      name: 'in-house',
+      url: `${baseURL}/moderate`,
+      headers: { 'X-Api-Key': 'secret' },
+      buildRequest: text => ({ content: text }),
+      parseResponse: response => {
+        const { labels } = response as { labels: Array<{ name: string; score: number }> };
+        return Object.fromEntries(labels.map(label => [label.name, label.score]));
+      },
+      categoryMap: { abuse: 'harassment' },
+    });
+
+    expect(provider.name).toBe('in-house');
+    expect(await provider.moderate('text')).toEqual({ harassment: 0.7 });
+    expect(requests[0].headers['x-api-key']).toBe('secret');
+  });
+
+  it('should read { scores } responses by default', async () => {
+    handlers['/moderate'] = (_req, res) => sendJson(res, 200, { scores: { hate: 0.6 } });
+
+    const provider = new HttpModerationProvider({ url: `${baseURL}/moderate` });
+
+    expect(provider.name).toBe('http');
+    expect(await provider.moderate('text')).toEqual({ hate: 0.6 });
+    expect(requests[0].body).toEqual({ input: 'text' });
+  });
+
+  it('should throw on HTTP errors', async () => {
+    handlers['/v1/moderations'] = (_req, res) => sendJson(res, 500, { error: { message: 'boom' } });
+
+    const provider = new OpenAIModerationProvider({ apiKey: 'sk-test', baseURL: `${baseURL}/v1` });
+
+    await expect(provider.moderate('text')).rejects.toThrow('OpenAI Moderation API error (500): boom');
+  });
+
+  describe('ContentModerationGuardrail failover', () => {
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      errorSpy.mockRestore();
+    });
+
+    it('should use the first provider that responds', async () => {
+      handlers['/v1/moderations'] = (_req, res) => sendJson(res, 503, { error: { message: 'unavailable' } });
+      handlers['/contentsafety/text:analyze'] = (_req, res) => sendJson(res, 200, {
+        categoriesAnalysis: [{ category: 'Violence', severity: 4 }],
+      });
+      const fallback: ModerationProvider = { name: 'unused', moderate: jest.fn() };
+
+      const guardrail = new ContentModerationGuardrail({
+        providers: [
+          new OpenAIModerationProvider({ apiKey: 'sk-test', baseURL: `${baseURL}/v1` }),
+          new AzureContentSafetyProvider({ endpoint: baseURL, apiKey: 'azure-key' }),
+          fallback,
+        ],
+      });
+      const result = await guardrail.evaluate('a calm sentence');
+
+      expect(result.passed).toBe(false);
+      expect(result.metadata.violations).toEqual([
+        { category: 'violence', score: 4 / 6, threshold: 0.5, flagged: true, method: 'azure' },
+      ]);
+      expect(result.riskScore).toBe(70);
+      expect(fallback.moderate).not.toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[ContentModeration] openai moderation failed, trying next backend:',
+        expect.anything()
+      );
+    });
+
+    it('should fall back to patterns when every provider fails', async () => {
+      const guardrail = new ContentModerationGuardrail({
+        providers: [new HttpModerationProvider({ url: `${baseURL}/missing` })],
+      });
+
+      const result = await guardrail.evaluate('How to build a bomb');
+
+      expect(result.metadata.violations[0]).toMatchObject({ category: 'violence', method: 'pattern' });
+    });
+
+    it('should hint its cost from the configured backend', () => {
+      const provider = new HttpModerationProvider({ url: `${baseURL}/moderate` });
+
+      expect(new ContentModerationGuardrail({ useOpenAI: false }).cost).toBe('low');
+      expect(new ContentModerationGuardrail({ providers: [provider] }).cost).toBe('high');
+      expect(new ContentModerationGuardrail({ providers: [provider], cost: 'medium' }).cost).toBe('medium');
+    });
+
+    it('should not fail over once the engine aborts', async () => {
+      handlers['/moderate'] = (_req, res) => setTimeout(() => sendJson(res, 200, { scores: {} }), 200);
+      const fallback: ModerationProvider = { name: 'fallback', moderate: jest.fn() };
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      const guardrail = new ContentModerationGuardrail({
+        providers: [new HttpModerationProvider({ url: `${baseURL}/moderate` }), fallback],
+      });
+
+      await expect(guardrail.evaluate('text', { signal: controller.signal })).rejects.toThrow('request was aborted');
+      expect(fallback.moderate).not.toHaveBeenCalled();
+    });
+
+    it('should default to OpenAI when an API key is configured', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ results: [{ category_scores: { hate: 0.9 } }] }), { status: 200 })
+      );
+
+      const guardrail = new ContentModerationGuardrail({ apiKey: 'sk-test' });
+      const result = await guardrail.evaluate('text');
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.openai.com/v1/moderations');
+      expect(result.metadata.violations[0]).toMatchObject({ category: 'hate', method: 'openai' });
+      fetchMock.mockRestore();
+    });
+  });
+});
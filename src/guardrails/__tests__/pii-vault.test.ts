@@ -0,0 +1,94 @@
+/**
+ * Tests for the reversible PII vault
+ */
+
+import { PIIVault, InMemoryPIIVaultStore } from '../pii-vault';
+import { PIIDetectionGuardrail } from '../pii-detection';
+
+describe('PIIVault', () => {
+  const email = { type: 'email', value: 'jane@example.com', position: 9, length: 16 };
+
+  it('should tokenize values into stable per-session placeholders', async () => {
+    const vault = new PIIVault();
+
+    const first = await vault.tokenize('s1', 'Email me jane@example.com', [email]);
+    const second = await vault.tokenize('s1', 'Also jane@example.com and bob@example.com', [
+      { type: 'email', value: 'jane@example.com', position: 5, length: 16 },
+      { type: 'email', value: 'bob@example.com', position: 26, length: 15 },
+    ]);
+    const other = await vault.tokenize('s2', 'Email me jane@example.com', [email]);
+
+    expect(first).toEqual({ text: 'Email me [EMAIL_1]', tokens: ['[EMAIL_1]'] });
+    expect(second.text).toBe('Also [EMAIL_1] and [EMAIL_2]');
+    expect(other.text).toBe('Email me [EMAIL_1]');
+  });
+
+  it('should format camelCase types and skip overlapping spans', async () => {
+    const vault = new PIIVault();
+
+    const result = await vault.tokenize('s1', 'Card 4111 1111 1111 1111', [
+      { type: 'phone', value: '1111 1111', position: 10, length: 9 },
+      { type: 'creditCard', value: '4111 1111 1111 1111', position: 5, length: 19 },
+    ]);
+
+    expect(result).toEqual({ text: 'Card [CREDIT_CARD_1]', tokens: ['[CREDIT_CARD_1]'] });
+  });
+
+  it('should store values encrypted', async () => {
+    const store = new InMemoryPIIVaultStore();
+    const vault = new PIIVault({ key: 'secret', store });
+
+    await vault.tokenize('s1', 'Email me jane@example.com', [email]);
+    const entry = await store.get('s1', '[EMAIL_1]');
+
+    expect(entry?.type).toBe('email');
+    expect(JSON.stringify(entry)).not.toContain('jane@example.com');
+  });
+
+  it('should only restore types the policy allows for the target', async () => {
+    const vault = new PIIVault({ detokenize: { output: ['email'], toolCalls: true } });
+    await vault.tokenize('s1', 'jane@example.com 123-45-6789', [
+      { type: 'email', value: 'jane@example.com', position: 0, length: 16 },
+      { type: 'ssn', value: '123-45-6789', position: 17, length: 11 },
+    ]);
+
+    const output = await vault.detokenize('s1', 'Mail [EMAIL_1] about [SSN_1]', 'output');
+    const params = await vault.detokenizeParameters('s1', { to: ['[EMAIL_1]'], note: 'SSN [SSN_1]', n: 1 });
+
+    expect(output).toEqual({ value: 'Mail jane@example.com about [SSN_1]', restored: ['[EMAIL_1]'] });
+    expect(params.value).toEqual({ to: ['jane@example.com'], note: 'SSN 123-45-6789', n: 1 });
+    expect(params.restored).toEqual(['[EMAIL_1]', '[SSN_1]']);
+  });
+
+  it('should restore nothing by default or for unknown sessions', async () => {
+    const vault = new PIIVault();
+    await vault.tokenize('s1', 'Email me jane@example.com', [email]);
+
+    expect((await vault.detokenize('s1', '[EMAIL_1]', 'output')).value).toBe('[EMAIL_1]');
+
+    const permissive = new PIIVault({ detokenize: { output: true } });
+    await permissive.tokenize('s1', 'Email me jane@example.com', [email]);
+    expect((await permissive.detokenize('s2', '[EMAIL_1]', 'output')).value).toBe('[EMAIL_1]');
+
+    await permissive.clearSession('s1');
+    expect((await permissive.detokenize('s1', '[EMAIL_1]', 'output')).value).toBe('[EMAIL_1]');
+  });
+
+  it('should reject keys that are not 32 bytes', () => {
+    expect(() => new PIIVault({ key: Buffer.alloc(16) })).toThrow('PIIVault key must be 32 bytes');
+  });
+
+  it('should redact with vault placeholders in PIIDetectionGuardrail', async () => {
+    const vault = new PIIVault({ detokenize: { output: true } });
+    const guardrail = new PIIDetectionGuardrail({ action: 'redact', vault });
+
+    const result = await guardrail.evaluate('Email jane@example.com', { sessionId: 'ticket-42' });
+
+    expect(result.passed).toBe(true);
+    expect(result.metadata.redactedText).toBe('Email [EMAIL_1]');
+    expect(result.metadata.tokens).toEqual(['[EMAIL_1]']);
+    expect((await vault.detokenize('ticket-42', 'Sent to [EMAIL_1]', 'output')).value).toBe(
+      'Sent to jane@example.com'
+    );
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Tests for per-context guardrail profiles
+ */
+
+import { TealTigerConfigError } from '../../utils/errors';
+import { GuardrailEngine, GuardrailEngineOptions } from '../engine';
+import { PIIDetectionGuardrail } from '../pii-detection';
+import { resolveGuardrailProfile, selectGuardrailProfile, validateGuardrailProfiles } from '../profiles';
+import { SecretsDetectionGuardrail } from '../secrets-detection';
+
+const EMAIL = 'Contact jane@example.com';
+
+function createEngine(options: GuardrailEngineOptions): GuardrailEngine {
+  const engine = new GuardrailEngine(options);
+  engine.registerGuardrail(new PIIDetectionGuardrail());
+  engine.registerGuardrail(new SecretsDetectionGuardrail());
+  return engine;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('GuardrailEngine profiles', () => {
+  const options: GuardrailEngineOptions = {
+    profiles: {
+      standard: { exclude: ['SecretsDetection'] },
+      redacting: { extends: 'standard', overrides: { PIIDetection: { action: 'redact' } } },
+      support: { guardrails: ['SecretsDetection'], engine: { aggregation: 'risk-threshold', riskThreshold: 90 } },
+    },
+    profileRules: [
+      { match: { tenantId: 'acme', channel: ['web', 'mobile'] }, profile: 'redacting' },
+      { match: { agentId: 'support-*' }, profile: 'support' },
+    ],
+  };
+
+  it('should run the profile selected by the first matching rule', async () => {
+    const engine = createEngine(options);
+
+    const result = await engine.execute(EMAIL, { tenantId: 'acme', channel: 'mobile' });
+
+    expect(result.profile).toBe('redacting');
+    expect(result.results.map((r) => r.guardrailName)).toEqual(['PIIDetection']);
+    expect(result.passed).toBe(true);
+    expect(result.results[0].result?.action).toBe('redact');
+  });
+
+  it('should run every guardrail with the engine settings when no rule matches', async () => {
+    const engine = createEngine(options);
+
+    const result = await engine.execute(EMAIL, { tenantId: 'acme', channel: 'email' });
+
+    expect(result.profile).toBeUndefined();
+    expect(result.results).toHaveLength(2);
+    expect(result.passed).toBe(false);
+  });
+
+  it('should apply profile engine settings and wildcard rules', async () => {
+    const engine = createEngine(options);
+
+    const result = await engine.execute('no secrets here', { agentId: 'support-bot-7' });
+
+    expect(result.profile).toBe('support');
+    expect(result.strategy).toBe('risk-threshold');
+    expect(result.results.map((r) => r.guardrailName)).toEqual(['SecretsDetection']);
+  });
+
+  it('should fall back to the default profile', async () => {
+    const engine = createEngine({ ...options, defaultProfile: 'standard' });
+
+    expect(engine.selectProfile({ tenantId: 'globex' })).toBe('standard');
+    expect((await engine.execute(EMAIL)).results.map((r) => r.guardrailName)).toEqual(['PIIDetection']);
+  });
+
+  it('should leave the registered guardrails unchanged', async () => {
+    const engine = createEngine(options);
+
+    await engine.execute(EMAIL, { tenantId: 'acme', channel: 'web' });
+    const result = await engine.execute(EMAIL);
+
+    expect(result.results[0].result?.action).toBe('block');
+  });
+
+  it('should not share cached results between profiles with different overrides', async () => {
+    const engine = createEngine({ ...options, cache: {} });
+
+    await engine.execute(EMAIL);
+    const result = await engine.execute(EMAIL, { tenantId: 'acme', channel: 'web' });
+
+    expect(result.results[0].cached).toBe(false);
+    expect(result.results[0].result?.action).toBe('redact');
+  });
+
+  it('should pick up guardrails registered after the first request', async () => {
+    const engine = new GuardrailEngine({ profiles: { all: {} }, defaultProfile: 'all' });
+    engine.registerGuardrail(new PIIDetectionGuardrail());
+    await engine.execute(EMAIL);
+
+    engine.registerGuardrail(new SecretsDetectionGuardrail());
+
+    expect((await engine.execute(EMAIL)).guardrailsExecuted).toBe(2);
+  });
+
+  it('should reject profiles referring to unknown profiles', () => {
+    expect(() => new GuardrailEngine({ profiles: { a: { extends: 'missing' } } })).toThrow(TealTigerConfigError);
+    expect(() => new GuardrailEngine({ profiles: {}, defaultProfile: 'missing' })).toThrow(
+      'defaultProfile: unknown profile "missing"'
+    );
+  });
+
+  it('should reject profiles naming unregistered guardrails when running them', async () => {
+    const engine = createEngine({ profiles: { eu: { guardrails: ['Toxicity'] } }, defaultProfile: 'eu' });
+
+    await expect(engine.execute(EMAIL)).rejects.toThrow('Guardrail profile "eu" references unknown guardrail "Toxicity"');
+  });
+});
+
+describe('profile helpers', () => {
+  it('should merge inherited settings, base profile first', () => {
+    const resolved = resolveGuardrailProfile(
+      {
+        base: { guardrails: ['A', 'B', 'C'], overrides: { A: { x: 1, y: 1 } }, engine: { riskThreshold: 50 } },
+        strict: { extends: 'base', exclude: ['C'], overrides: { A: { y: 2 } }, engine: { failFast: true } },
+      },
+      'strict'
+    );
+
+    expect(resolved).toEqual({
+      name: 'strict',
+      guardrails: ['A', 'B', 'C'],
+      exclude: ['C'],
+      overrides: { A: { x: 1, y: 2 } },
+      engine: { riskThreshold: 50, failFast: true },
+    });
+  });
+
+  it('should report unknown references and circular inheritance', () => {
+    expect(
+      validateGuardrailProfiles(
+        {
+          profiles: {
+            a: { extends: 'b' },
+            b: { extends: 'a' },
+            c: { extends: 'missing', guardrails: ['PII'], overrides: { Unknown: {} } },
+          },
+          profileRules: [{ match: { tenantId: 'x' }, profile: 'd' }],
+        },
+        ['PII']
+      )
+    ).toEqual([
+      { path: 'profiles.a.extends', message: 'circular profile inheritance' },
+      { path: 'profiles.b.extends', message: 'circular profile inheritance' },
+      { path: 'profiles.c.extends', message: 'unknown profile "missing"' },
+      { path: 'profiles.c.overrides.Unknown', message: 'unknown guardrail "Unknown"' },
+      { path: 'profileRules[0].profile', message: 'unknown profile "d"' },
+    ]);
+  });
+
+  it('should require every rule field to match', () => {
+    const rules = [{ match: { tenantId: 'acme', locale: 'de-*' }, profile: 'eu' }];
+
+    expect(selectGuardrailProfile(rules, { tenantId: 'acme', locale: 'de-AT' })).toBe('eu');
+    expect(selectGuardrailProfile(rules, { tenantId: 'acme', locale: 'en-US' })).toBeUndefined();
+    expect(selectGuardrailProfile(rules, { tenantId: 'acme' })).toBeUndefined();
+  });
+});
+
+describe('GuardrailEngine.fromConfig profiles', () => {
+  it('should build profiles from configuration', async () => {
+    const engine = GuardrailEngine.fromConfig(`
+engine:
+  profiles:
+    eu:
+      overrides:
+        PIIDetection: { packs: [europe], action: mask }
+  profileRules:
+    - match: { locale: 'de-*' }
+      profile: eu
+guardrails:
+  - type: pii-detection
+`);
+
+    const result = await engine.execute(EMAIL, { locale: 'de-DE' });
+    expect(result.profile).toBe('eu');
+    expect(result.results[0].result?.action).toBe('mask');
+  });
+
+  it('should validate profile references and overrides with their paths', () => {
+    let error: unknown;
+    try {
+      GuardrailEngine.fromConfig({
+        engine: {
+          profiles: {
+            eu: { guardrails: ['Toxicity'], overrides: { PIIDetection: { action: 'delete' } } },
+          },
+          defaultProfile: 'us',
+        },
+        guardrails: [{ type: 'pii-detection' }],
+      });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(TealTigerConfigError);
+    expect((error as TealTigerConfigError).details?.issues).toEqual([
+      { path: 'engine.defaultProfile', message: 'unknown profile "us"' },
+    ]);
+
+    expect(() =>
+      GuardrailEngine.fromConfig({
+        engine: { profiles: { eu: { guardrails: ['Toxicity'], overrides: { PIIDetection: { action: 'delete' } } } } },
+        guardrails: [{ type: 'pii-detection' }],
+      })
+    ).toThrow(
+      'engine.profiles.eu.guardrails[0]: unknown guardrail "Toxicity"; ' +
+        'engine.profiles.eu.overrides.PIIDetection.action: must be one of block, redact, mask, allow'
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for the guardrail result cache
+ */
+
+import { Guardrail, GuardrailResult } from '../base';
+import { GuardrailEngine } from '../engine';
+import { PIIDetectionGuardrail } from '../pii-detection';
+import { PromptInjectionGuardrail } from '../prompt-injection';
+import {
+  GuardrailCacheEntry,
+  GuardrailCacheStore,
+  GuardrailResultCache,
+  InMemoryGuardrailCacheStore,
+} from '../result-cache';
+
+/**
+ * Counts evaluations; fails when the input contains "error"
+ */
+class CountingGuardrail extends Guardrail {
+  public calls = 0;
+
+  async evaluate(input: any): Promise<GuardrailResult> {
+    this.calls++;
+    if (String(input).includes('error')) {
+      throw new Error('Evaluation error');
+    }
+    return new GuardrailResult({
+      passed: true,
+      action: 'redact',
+      reason: 'Redacted',
+      metadata: { redactedText: '[REDACTED]' },
+      riskScore: 40,
+    });
+  }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('InMemoryGuardrailCacheStore', () => {
+  const entry = (): GuardrailCacheEntry => ({
+    result: { passed: true, action: 'allow', reason: 'ok' },
+    expiresAt: Date.now() + 1000,
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new InMemoryGuardrailCacheStore(2);
+    await store.set('a', entry());
+    await store.set('b', entry());
+    await store.get('a');
+    await store.set('c', entry());
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('GuardrailResultCache', () => {
+  it('should hash equal input equally regardless of key order', () => {
+    const guardrail = new CountingGuardrail({ name: 'Counting' });
+
+    expect(GuardrailResultCache.key(guardrail, { a: 1, b: [1, 2] }))
+      .toBe(GuardrailResultCache.key(guardrail, { b: [1, 2], a: 1 }));
+    expect(GuardrailResultCache.key(guardrail, 'text'))
+      .not.toBe(GuardrailResultCache.key(guardrail, '"text"'));
+  });
+
+  it('should change keys when the guardrail is reconfigured', () => {
+    const guardrail = new CountingGuardrail({ name: 'Counting' });
+    const before = GuardrailResultCache.key(guardrail, 'text');
+
+    guardrail.configure({ threshold: 2 });
+
+    expect(GuardrailResultCache.key(guardrail, 'text')).not.toBe(before);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const cache = new GuardrailResultCache({ ttl: 1000 });
+    const guardrail = new CountingGuardrail({ name: 'Counting' });
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await cache.set(guardrail, 'text', new GuardrailResult({ passed: true, action: 'allow', reason: 'ok' }));
+    expect(await cache.get(guardrail, 'text')).toBeDefined();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1001);
+    expect(await cache.get(guardrail, 'text')).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('should treat store failures as misses', async () => {
+    const failing: GuardrailCacheStore = {
+      get: async () => { throw new Error('store down'); },
+      set: async () => { throw new Error('store down'); },
+      delete: async () => undefined,
+      clear: async () => undefined,
+    };
+    const engine = new GuardrailEngine({ cache: { store: failing } });
+    engine.registerGuardrail(new CountingGuardrail({ name: 'Counting' }));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await engine.execute('text');
+
+    expect(result.passed).toBe(true);
+    expect(result.results[0].cached).toBe(false);
+    expect(engine.getCache()?.getStats().misses).toBe(1);
+  });
+});
+
+describe('GuardrailEngine caching', () => {
+  it('should serve repeated input from the cache', async () => {
+    const guardrail = new CountingGuardrail({ name: 'Counting' });
+    const engine = new GuardrailEngine({ cache: {} });
+    engine.registerGuardrail(guardrail);
+
+    const first = await engine.execute('long system prompt');
+    const second = await engine.execute('long system prompt');
+
+    expect(guardrail.calls).toBe(1);
+    expect(first.results[0].cached).toBe(false);
+    expect(second.results[0].cached).toBe(true);
+    expect(second.results[0].result?.getRewrittenText()).toBe('[REDACTED]');
+    expect(second.maxRiskScore).toBe(40);
+    expect(engine.getCache()?.getStats()).toEqual({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('should share a cache between engines', async () => {
+    const cache = new GuardrailResultCache();
+    const guardrail = new CountingGuardrail({ name: 'Counting' });
+    const first = new GuardrailEngine({ cache });
+    const second = new GuardrailEngine({ cache });
+    first.registerGuardrail(guardrail);
+    second.registerGuardrail(guardrail);
+
+    await first.execute('chunk');
+    await second.execute('chunk');
+
+    expect(guardrail.calls).toBe(1);
+  });
+
+  it('should not share results between differently configured guardrails', async () => {
+    const store = new InMemoryGuardrailCacheStore();
+    const blocking = new GuardrailEngine({ cache: { store } });
+    const allowing = new GuardrailEngine({ cache: { store } });
+    blocking.registerGuardrail(new PIIDetectionGuardrail({ action: 'block' }));
+    allowing.registerGuardrail(new PIIDetectionGuardrail({ action: 'allow' }));
+
+    expect((await blocking.execute('Email jane@example.com')).passed).toBe(false);
+    const result = await allowing.execute('Email jane@example.com');
+
+    expect(result.passed).toBe(true);
+    expect(result.results[0].cached).toBe(false);
+    expect(GuardrailResultCache.key(new PIIDetectionGuardrail({ action: 'block' }), 'text'))
+      .toBe(GuardrailResultCache.key(new PIIDetectionGuardrail({ action: 'block' }), 'text'));
+  });
+
+  it('should not cache failed evaluations', async () => {
+    const guardrail = new CountingGuardrail({ name: 'Counting' });
+    const engine = new GuardrailEngine({ cache: {} });
+    engine.registerGuardrail(guardrail);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await engine.execute('error');
+    await engine.execute('error');
+
+    expect(guardrail.calls).toBe(2);
+  });
+
+  it('should skip guardrails that are not cacheable', async () => {
+    const counting = new CountingGuardrail({ name: 'Counting', cacheable: false });
+    const engine = new GuardrailEngine({ cache: {} });
+    engine.registerGuardrail(counting);
+    engine.registerGuardrail(new PromptInjectionGuardrail());
+
+    await engine.execute('hello');
+    const result = await engine.execute('hello');
+
+    expect(counting.calls).toBe(2);
+    expect(result.results.every((r) => !r.cached)).toBe(true);
+    expect(engine.getCache()?.getStats().hits).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Tests for text diffs
+ */
+
+import { applyEdits, diffText } from '../text-diff';
+
+describe('diffText', () => {
+  it('should return no edits for identical text', () => {
+    expect(diffText('same text', 'same text')).toEqual([]);
+  });
+
+  it('should report separate edits for separate changes', () => {
+    const before = 'Call 415-555-2671 or mail jane@example.com today';
+    const after = 'Call [PHONE] or mail [EMAIL] today';
+
+    const edits = diffText(before, after);
+
+    expect(edits).toEqual([
+      { position: 5, length: 12, replacement: '[PHONE]' },
+      { position: 26, length: 16, replacement: '[EMAIL]' },
+    ]);
+    expect(applyEdits(before, edits)).toBe(after);
+  });
+
+  it('should handle insertions and deletions', () => {
+    const before = 'keep this part';
+    const after = 'keep only this';
+
+    expect(applyEdits(before, diffText(before, after))).toBe(after);
+    expect(applyEdits('', diffText('', 'added'))).toBe('added');
+    expect(applyEdits('removed', diffText('removed', ''))).toBe('');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the topic restriction guardrail
+ */
+
+import { GuardrailEngine } from '../engine';
+import { TextEmbedder } from '../onnx-classifier';
+import { TopicRestrictionGuardrail } from '../topic-restriction';
+
+/**
+ * Embeds text on three axes: billing, shipping and anything else
+ */
+class AxisEmbedder implements TextEmbedder {
+  public calls: string[] = [];
+
+  async embed(text: string): Promise<number[]> {
+    this.calls.push(text);
+    const lower = text.toLowerCase();
+    return [
+      /invoice|charge|payment|refund/.test(lower) ? 1 : 0,
+      /parcel|delivery|courier|package/.test(lower) ? 1 : 0,
+      0.2,
+    ];
+  }
+}
+
+const SUPPORT_TOPICS = [
+  { name: 'billing', keywords: ['invoice', 'refund', 'credit card'], description: 'Payments, invoices and refunds' },
+  { name: 'shipping', keywords: ['tracking number', 'delivery'], description: 'Parcel delivery and couriers' },
+];
+
+describe('TopicRestrictionGuardrail', () => {
+  describe('deny-list mode', () => {
+    const guardrail = new TopicRestrictionGuardrail({
+      topics: [
+        { name: 'competitors', keywords: ['Acme Corp', 'Globex'], riskScore: 80 },
+        { name: 'legal advice', keywords: ['lawsuit', 'sue', 'attorney'] },
+      ],
+    });
+
+    it('should block a denied topic and report the match', async () => {
+      const result = await guardrail.evaluate('Is Globex   cheaper than you?');
+
+      expect(result.passed).toBe(false);
+      expect(result.action).toBe('block');
+      expect(result.reason).toBe('Denied topic detected: competitors (confidence 0.60)');
+      expect(result.riskScore).toBe(48);
+      expect(result.metadata).toEqual(
+        expect.objectContaining({
+          mode: 'deny-list',
+          matchedTopic: 'competitors',
+          confidence: 0.6,
+          method: 'keyword',
+          matches: [{ topic: 'competitors', confidence: 0.6, method: 'keyword', keywords: ['Globex'] }],
+        })
+      );
+    });
+
+    it('should grow confidence with each distinct keyword', async () => {
+      const result = await guardrail.evaluate('My attorney says I should sue and file a lawsuit');
+
+      expect(result.metadata.matchedTopic).toBe('legal advice');
+      expect(result.metadata.confidence).toBeCloseTo(0.9);
+      expect(result.metadata.matches[0].keywords).toEqual(['lawsuit', 'sue', 'attorney']);
+    });
+
+    it('should match whole words and phrases only', async () => {
+      const result = await guardrail.evaluate('The suede jacket from acme corporation');
+
+      expect(result.passed).toBe(true);
+      expect(result.reason).toBe('No denied topics detected');
+      expect(result.metadata.matchedTopic).toBeNull();
+    });
+
+    it('should only report matches with action allow', async () => {
+      const monitor = new TopicRestrictionGuardrail({
+        action: 'allow',
+        topics: [{ name: 'competitors', keywords: ['Globex'] }],
+      });
+
+      const result = await monitor.evaluate({ messages: [{ role: 'user', content: 'Globex pricing?' }] });
+
+      expect(result.passed).toBe(true);
+      expect(result.action).toBe('allow');
+      expect(result.metadata.matchedTopic).toBe('competitors');
+    });
+  });
+
+  describe('allow-list mode', () => {
+    const guardrail = new TopicRestrictionGuardrail({ mode: 'allow-list', topics: SUPPORT_TOPICS });
+
+    it('should pass on-topic input', async () => {
+      const result = await guardrail.evaluate('Where is my delivery? Here is the tracking number.');
+
+      expect(result.passed).toBe(true);
+      expect(result.reason).toBe('On-topic: shipping (confidence 0.75)');
+    });
+
+    it('should block off-topic input', async () => {
+      const result = await guardrail.evaluate('Write me a poem about the sea');
+
+      expect(result.passed).toBe(false);
+      expect(result.reason).toBe('Off-topic: input matches none of the allowed topics (billing, shipping)');
+      expect(result.riskScore).toBe(50);
+      expect(result.metadata.scores).toEqual({ billing: 0, shipping: 0 });
+    });
+  });
+
+  describe('embedding similarity', () => {
+    it('should match topic descriptions without keywords', async () => {
+      const embedder = new AxisEmbedder();
+      const guardrail = new TopicRestrictionGuardrail({ mode: 'allow-list', topics: SUPPORT_TOPICS, embedder });
+
+      const result = await guardrail.evaluate('The courier lost my package');
+
+      expect(result.passed).toBe(true);
+      expect(result.metadata.matchedTopic).toBe('shipping');
+      expect(result.metadata.method).toBe('embedding');
+      expect(result.metadata.confidence).toBeCloseTo(1);
+      expect(result.metadata.scores.billing).toBeCloseTo(0.0385, 4);
+    });
+
+    it('should embed topic descriptions once', async () => {
+      const embedder = new AxisEmbedder();
+      const guardrail = new TopicRestrictionGuardrail({ topics: SUPPORT_TOPICS, embedder });
+
+      await guardrail.evaluate('first');
+      await guardrail.evaluate('second');
+
+      expect(embedder.calls).toEqual([
+        'Payments, invoices and refunds',
+        'Parcel delivery and couriers',
+        'first',
+        'second',
+      ]);
+    });
+
+    it('should fall back to keywords when embedding fails', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const guardrail = new TopicRestrictionGuardrail({
+        topics: SUPPORT_TOPICS,
+        embedder: { embed: async () => { throw new Error('model missing'); } },
+      });
+
+      const result = await guardrail.evaluate('I need a refund');
+
+      expect(result.metadata.matchedTopic).toBe('billing');
+      expect(result.metadata.method).toBe('keyword');
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  it('should require topics that can be matched', () => {
+    expect(() => new TopicRestrictionGuardrail({ topics: [] })).toThrow('requires at least one topic');
+    expect(() => new TopicRestrictionGuardrail({ topics: [{ name: 'billing', description: 'Payments' }] })).toThrow(
+      'Topic "billing" needs keywords, or a description and an embedder'
+    );
+  });
+
+  it('should be configurable declaratively', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const engine = GuardrailEngine.fromConfig(`
+guardrails:
+  - type: topic-restriction
+    options:
+      mode: allow-list
+      topics:
+        - name: billing
+          keywords: [invoice, refund]
+`);
+
+    const result = await engine.execute('Tell me a joke');
+
+    expect(result.failedGuardrails).toEqual(['TopicRestriction']);
+    jest.restoreAllMocks();
+  });
+});
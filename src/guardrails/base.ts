@@ -5,11 +5,28 @@
  * with the GuardrailEngine execution system.
  */
 
+import { createHash } from 'crypto';
+
+/**
+ * Relative evaluation cost; staged engines run cheaper guardrails first
+ */
+export type GuardrailCost = 'low' | 'medium' | 'high';
+
 export interface GuardrailConfig {
   name?: string;
   enabled?: boolean;
   version?: string;
   description?: string;
+  /** Higher priorities run first within a stage (default: 0) */
+  priority?: number;
+  /** Cost hint: 'low' for local pattern checks, 'high' for remote API calls (default: 'medium') */
+  cost?: GuardrailCost;
+  /** Record the result without affecting the engine decision, e.g. to monitor a new guardrail (default: false) */
+  advisory?: boolean;
+  /** Weight in 'weighted-sum' and 'majority' engine aggregation (default: 1) */
+  weight?: number;
+  /** Allow engines to cache results; stateful guardrails default to false (default: true) */
+  cacheable?: boolean;
   [key: string]: any;
 }
 
@@ -18,6 +35,10 @@ export interface GuardrailMetadata {
   enabled: boolean;
   version: string;
   description: string;
+  priority: number;
+  cost: GuardrailCost;
+  advisory: boolean;
+  weight: number;
 }
 
 export interface GuardrailResultData {
@@ -56,21 +77,50 @@ export class GuardrailResult {
   getRiskScore(): number {
     return this.riskScore;
   }
+
+  /**
+   * Rewritten text for redact, mask and transform results
+   * (metadata.redactedText, metadata.maskedText or metadata.transformedText)
+   */
+  getRewrittenText(): string | undefined {
+    const key =
+      this.action === 'redact' ? 'redactedText' :
+      this.action === 'mask' ? 'maskedText' :
+      this.action === 'transform' ? 'transformedText' :
+      undefined;
+    const text = key ? this.metadata[key] : undefined;
+    return typeof text === 'string' ? text : undefined;
+  }
 }
 
 export abstract class Guardrail {
   public readonly name: string;
   public enabled: boolean;
+  public readonly priority: number;
+  public readonly cost: GuardrailCost;
+  public readonly advisory: boolean;
+  public readonly weight: number;
+  public readonly cacheable: boolean;
   protected config: GuardrailConfig;
+  private configHash: string | undefined;
+  private variant: string | undefined;
 
   constructor(config: GuardrailConfig = {}) {
     this.name = config.name || this.constructor.name;
     this.enabled = config.enabled !== undefined ? config.enabled : true;
+    this.priority = config.priority ?? 0;
+    this.cost = config.cost ?? 'medium';
+    this.advisory = config.advisory ?? false;
+    this.weight = config.weight ?? 1;
+    this.cacheable = config.cacheable ?? true;
     this.config = config;
   }
 
   /**
    * Evaluate input against this guardrail
+   *
+   * The engine passes an AbortSignal as `context.signal`; long-running
+   * guardrails should stop when it aborts.
    */
   abstract evaluate(input: any, context?: Record<string, any>): Promise<GuardrailResult>;
 
@@ -79,11 +129,47 @@ export abstract class Guardrail {
    */
   configure(config: Partial<GuardrailConfig>): void {
     this.config = { ...this.config, ...config };
+    this.configHash = undefined;
     if (config.enabled !== undefined) {
       this.enabled = config.enabled;
     }
   }
 
+  /**
+   * Copy of the guardrail with options overridden, e.g. for a guardrail profile
+   *
+   * The subclass constructor is called with the merged configuration. The
+   * copy's configuration version includes `variant`, so cached results of
+   * the original are not reused for it.
+   */
+  withOptions(options: Partial<GuardrailConfig>, variant: string): Guardrail {
+    const GuardrailClass = this.constructor as new (config: GuardrailConfig) => Guardrail;
+    const copy = new GuardrailClass({ ...this.config, ...options });
+    if (options.enabled === undefined) {
+      copy.enabled = this.enabled;
+    }
+    copy.variant = variant;
+    return copy;
+  }
+
+  /**
+   * Version of the current configuration, including a hash of the guardrail
+   * class and its options
+   *
+   * Equally configured guardrails share a version across engines and
+   * processes; any difference in options, e.g. after configure(), changes it.
+   */
+  getConfigVersion(): string {
+    if (this.configHash === undefined) {
+      this.configHash = createHash('sha256')
+        .update(JSON.stringify([this.constructor.name, describeConfig(this.config, new Set())]))
+        .digest('hex')
+        .slice(0, 16);
+    }
+    const version = `${this.config.version || '1.0.0'}#${this.configHash}`;
+    return this.variant === undefined ? version : `${version}@${this.variant}`;
+  }
+
   /**
    * Get guardrail metadata
    */
@@ -93,6 +179,55 @@ export abstract class Guardrail {
       enabled: this.enabled,
       version: this.config.version || '1.0.0',
       description: this.config.description || 'No description provided',
+      priority: this.priority,
+      cost: this.cost,
+      advisory: this.advisory,
+      weight: this.weight,
     };
   }
 }
+
+/**
+ * JSON-serializable description of a configuration value with sorted keys
+ *
+ * Patterns and functions are described by their source; other class
+ * instances (stores, clients) by their class name.
+ */
+function describeConfig(value: unknown, seen: Set<object>): unknown {
+  if (typeof value === 'function') {
+    return `function:${String(value)}`;
+  }
+  if (typeof value === 'bigint' || typeof value === 'symbol') {
+    return String(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof RegExp) {
+    return `regexp:${String(value)}`;
+  }
+  if (value instanceof Date) {
+    return `date:${value.toISOString()}`;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+
+  seen.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => describeConfig(item, seen));
+    }
+
+    const prototype: unknown = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      return `instance:${value.constructor.name}`;
+    }
+
+    return Object.keys(value)
+      .sort()
+      .map((key) => [key, describeConfig((value as Record<string, unknown>)[key], seen)]);
+  } finally {
+    seen.delete(value);
+  }
+}
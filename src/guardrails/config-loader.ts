@@ -0,0 +1,202 @@
+/**
+ * Guardrail Configuration Loader
+ *
+ * Parses and validates declarative engine configuration (JSON or YAML):
+ *
+ *   engine:
+ *     failFast: true
+ *   guardrails:
+ *     - type: pii-detection
+ *       options: { action: redact }
+ *   profiles:
+ *     eu: { overrides: { PIIDetection: { packs: [europe] } } }
+ *   profileRules:
+ *     - match: { locale: 'de-*' }
+ *       profile: eu
+ *
+ * Every problem is reported with its path in one TealTigerConfigError.
+ */
+
+import { ConfigFormat, parseConfigContent } from '../config/ConfigSource';
+import { TealTigerErrorCode } from '../types';
+import { TealTigerConfigError } from '../utils/errors';
+import type { GuardrailEngineOptions } from './engine';
+import { OptionIssue, OptionSchema, validateOption } from './option-schema';
+import { validateGuardrailProfiles } from './profiles';
+import { GuardrailRegistry } from './registry';
+import type { GuardrailResultCacheConfig } from './result-cache';
+
+export type GuardrailConfigFormat = ConfigFormat;
+
+/**
+ * Guardrail in a configuration document
+ */
+export interface GuardrailConfigEntry {
+  /** Registered guardrail type, e.g. 'pii-detection' */
+  type: string;
+  /** Options passed to the guardrail constructor */
+  options?: Record<string, any>;
+}
+
+/**
+ * Engine configuration document
+ */
+export interface GuardrailConfigDocument {
+  version?: string | number;
+  engine?: Omit<GuardrailEngineOptions, 'cache'> & { cache?: Omit<GuardrailResultCacheConfig, 'store'> };
+  guardrails: GuardrailConfigEntry[];
+}
+
+export interface GuardrailConfigLoadOptions {
+  /** Guardrail types (default: GuardrailRegistry.withBuiltIns()) */
+  registry?: GuardrailRegistry;
+  /** Source format (default: JSON when the text starts with '{', YAML otherwise) */
+  format?: GuardrailConfigFormat;
+}
+
+/**
+ * Engine settings, which profiles can change too
+ */
+const ENGINE_SETTINGS: Record<string, OptionSchema> = {
+  parallelExecution: { type: 'boolean' },
+  continueOnError: { type: 'boolean' },
+  timeout: { type: 'number', min: 1 },
+  failFast: { type: 'boolean' },
+  staged: { type: 'boolean' },
+  pipeline: { type: 'boolean' },
+  aggregation: { type: 'string', enum: ['any-block', 'majority', 'risk-threshold', 'weighted-sum'] },
+  riskThreshold: { type: 'number', min: 0, max: 100 },
+};
+
+const PROFILE: OptionSchema = {
+  type: 'object',
+  properties: {
+    extends: { type: 'string' },
+    guardrails: { type: 'array', items: { type: 'string' } },
+    exclude: { type: 'array', items: { type: 'string' } },
+    // Checked against each guardrail's schema once names are known
+    overrides: { type: 'record', values: { type: 'object', properties: {}, additional: true } },
+    engine: { type: 'object', properties: ENGINE_SETTINGS },
+  },
+};
+
+const ENGINE_OPTIONS: OptionSchema = {
+  type: 'object',
+  properties: {
+    ...ENGINE_SETTINGS,
+    cache: {
+      type: 'object',
+      properties: {
+        ttl: { type: 'number', min: 0 },
+        maxEntries: { type: 'number', min: 1, integer: true },
+      },
+    },
+    profiles: { type: 'record', values: PROFILE },
+    profileRules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          match: {
+            type: 'record',
+            values: { type: 'union', of: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+          },
+          profile: { type: 'string' },
+        },
+        required: ['match', 'profile'],
+      },
+    },
+    defaultProfile: { type: 'string' },
+  },
+};
+
+const DOCUMENT: OptionSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'union', of: [{ type: 'string' }, { type: 'number' }] },
+    engine: ENGINE_OPTIONS,
+    guardrails: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          options: { type: 'object', properties: {}, additional: true },
+        },
+        required: ['type'],
+      },
+    },
+  },
+  required: ['guardrails'],
+};
+
+/**
+ * Configuration error listing every issue with its path
+ */
+export function createConfigError(issues: OptionIssue[]): TealTigerConfigError {
+  const summary = issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+  return new TealTigerConfigError(
+    `Invalid guardrail configuration: ${summary}`,
+    TealTigerErrorCode.INVALID_CONFIG,
+    { issues }
+  );
+}
+
+/**
+ * Parse source text, reporting syntax errors as configuration issues
+ */
+function parseSource(source: string, format: GuardrailConfigFormat | undefined): unknown {
+  try {
+    return parseConfigContent(source, format);
+  } catch (error) {
+    const parseError = error as Error;
+    const language = parseError instanceof SyntaxError ? 'JSON' : parseError?.name === 'YAMLException' ? 'YAML' : undefined;
+    if (!language) {
+      throw error;
+    }
+    throw createConfigError([{ path: '', message: `could not parse ${language}: ${parseError.message}` }]);
+  }
+}
+
+/**
+ * Parse and validate a configuration document
+ */
+export function parseGuardrailConfig(
+  source: string | Record<string, unknown>,
+  options: GuardrailConfigLoadOptions = {}
+): GuardrailConfigDocument {
+  const registry = options.registry ?? GuardrailRegistry.withBuiltIns();
+  const document = typeof source === 'string' ? parseSource(source, options.format) : source;
+
+  const issues: OptionIssue[] = [];
+  validateOption(document, DOCUMENT, '', issues);
+
+  const guardrails = (document as Partial<GuardrailConfigDocument> | null)?.guardrails;
+  if (Array.isArray(guardrails)) {
+    guardrails.forEach((entry, index) => {
+      if (typeof entry?.type !== 'string') return;
+
+      if (!registry.has(entry.type)) {
+        issues.push({
+          path: `guardrails[${index}].type`,
+          message: `unknown guardrail type "${entry.type}" (registered: ${registry.getTypes().join(', ')})`,
+        });
+      } else if (typeof entry.options === 'object' && entry.options !== null && !Array.isArray(entry.options)) {
+        // Non-object options were already reported
+        issues.push(...registry.validate(entry.type, entry.options, `guardrails[${index}].options`));
+      }
+    });
+  }
+
+  // Profile references, once their shape is valid; guardrail names are checked by fromConfig
+  const engine = (document as Partial<GuardrailConfigDocument> | null)?.engine;
+  if (engine && !issues.some((issue) => issue.path.startsWith('engine.'))) {
+    issues.push(...validateGuardrailProfiles(engine).map((issue) => ({ ...issue, path: `engine.${issue.path}` })));
+  }
+
+  if (issues.length > 0) {
+    throw createConfigError(issues);
+  }
+
+  return document as GuardrailConfigDocument;
+}
@@ -1,7 +1,8 @@
 /**
  * Content Moderation Guardrail
  * 
- * Detects harmful content using OpenAI Moderation API:
+ * Detects harmful content using a local classifier, hosted moderation
+ * providers (tried in order) or keyword patterns:
  * - Hate speech
  * - Violence
  * - Sexual content
@@ -9,7 +10,10 @@
  * - Self-harm
  */
 
-import { Guardrail, GuardrailConfig, GuardrailResult } from './base';
+import { Guardrail, GuardrailConfig, GuardrailCost, GuardrailResult } from './base';
+import { TextClassifier } from './onnx-classifier';
+import { ModerationProvider, OpenAIModerationProvider } from './moderation-providers';
+import { getMessagesText } from './message-text';
 
 interface ContentViolation {
   category: string;
@@ -22,14 +26,36 @@ interface ContentViolation {
 export interface ContentModerationConfig extends GuardrailConfig {
   apiKey?: string;
   useOpenAI?: boolean;
+  /**
+   * Local classifier scoring the moderation categories; labels found in
+   * thresholds are checked against them (takes precedence over providers)
+   */
+  classifier?: TextClassifier;
+  /**
+   * Moderation providers in failover order; the next one is tried when a
+   * provider fails (default: OpenAI when useOpenAI and apiKey are set)
+   */
+  providers?: ModerationProvider[];
   action?: 'block' | 'transform' | 'allow';
   thresholds?: Record<string, number>;
   riskScores?: Record<string, number>;
 }
 
+/**
+ * Remote providers are the slowest backend, a local model the next
+ */
+function estimateCost(config: ContentModerationConfig): GuardrailCost {
+  if (config.classifier) {
+    return 'medium';
+  }
+  const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
+  const useOpenAI = config.useOpenAI !== undefined ? config.useOpenAI : !!apiKey;
+  return config.providers?.length || (useOpenAI && apiKey) ? 'high' : 'low';
+}
+
 export class ContentModerationGuardrail extends Guardrail {
-  private apiKey: string | undefined;
-  private useOpenAI: boolean;
+  private classifier: TextClassifier | undefined;
+  private providers: ModerationProvider[];
   private action: 'block' | 'transform' | 'allow';
   private thresholds: Record<string, number>;
   private riskScores: Record<string, number>;
@@ -40,11 +66,15 @@ export class ContentModerationGuardrail extends Guardrail {
       name: 'ContentModeration',
       description: 'Detects harmful content using AI moderation',
       version: '1.0.0',
+      cost: estimateCost(config),
       ...config,
     });
 
-    this.apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
-    this.useOpenAI = config.useOpenAI !== undefined ? config.useOpenAI : !!this.apiKey;
+    const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
+    const useOpenAI = config.useOpenAI !== undefined ? config.useOpenAI : !!apiKey;
+    this.classifier = config.classifier;
+    this.providers = config.providers ??
+      (useOpenAI && apiKey ? [new OpenAIModerationProvider({ apiKey })] : []);
     this.action = config.action || 'block';
 
     this.thresholds = config.thresholds || {
@@ -80,16 +110,11 @@ export class ContentModerationGuardrail extends Guardrail {
     };
   }
 
-  async evaluate(input: any, _context?: Record<string, any>): Promise<GuardrailResult> {
+  async evaluate(input: any, context?: Record<string, any>): Promise<GuardrailResult> {
     const text = this.extractText(input);
 
-    let violations: ContentViolation[];
-
-    if (this.useOpenAI && this.apiKey) {
-      violations = await this.moderateWithOpenAI(text);
-    } else {
-      violations = this.moderateWithPatterns(text);
-    }
+    const signal: unknown = context?.signal;
+    const violations = await this.moderate(text, signal instanceof AbortSignal ? signal : undefined);
 
     if (violations.length === 0) {
       return new GuardrailResult({
@@ -129,7 +154,7 @@ export class ContentModerationGuardrail extends Guardrail {
     }
 
     if (input.messages && Array.isArray(input.messages)) {
-      return input.messages.map((m: any) => m.content || '').join(' ');
+      return getMessagesText(input.messages);
     }
 
     if (input.text) {
@@ -139,47 +164,52 @@ export class ContentModerationGuardrail extends Guardrail {
     return JSON.stringify(input);
   }
 
-  private async moderateWithOpenAI(text: string): Promise<ContentViolation[]> {
-    try {
-      const response = await fetch('https://api.openai.com/v1/moderations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({ input: text }),
-      });
-
-      if (!response.ok) {
-        console.error('[ContentModeration] OpenAI API error, falling back to patterns');
-        return this.moderateWithPatterns(text);
+  /**
+   * Score with the classifier, then each provider in order, then patterns
+   */
+  private async moderate(text: string, signal?: AbortSignal): Promise<ContentViolation[]> {
+    if (this.classifier) {
+      try {
+        return this.toViolations(await this.classifier.classify(text), 'classifier');
+      } catch (error) {
+        console.error('[ContentModeration] Classifier error, trying next backend:', error);
       }
+    }
 
-      const data = await response.json();
-      const result = (data as any).results[0];
-
-      const violations: ContentViolation[] = [];
-      for (const [category, flagged] of Object.entries(result.categories)) {
-        if (flagged) {
-          const score = result.category_scores[category];
-          const threshold = this.thresholds[category] || 0.5;
-
-          if (score >= threshold) {
-            violations.push({
-              category,
-              score,
-              threshold,
-              flagged: true,
-            });
-          }
+    for (const provider of this.providers) {
+      try {
+        return this.toViolations(await provider.moderate(text, signal), provider.name);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
         }
+        console.error(`[ContentModeration] ${provider.name} moderation failed, trying next backend:`, error);
       }
+    }
 
-      return violations;
-    } catch (error) {
-      console.error('[ContentModeration] Error calling OpenAI API:', error);
-      return this.moderateWithPatterns(text);
+    return this.moderateWithPatterns(text);
+  }
+
+  /**
+   * Check scored categories against thresholds; categories without a threshold are ignored
+   */
+  private toViolations(scores: Record<string, number>, method: string): ContentViolation[] {
+    const violations: ContentViolation[] = [];
+
+    for (const [category, score] of Object.entries(scores)) {
+      const threshold = this.thresholds[category];
+      if (threshold !== undefined && score >= threshold) {
+        violations.push({
+          category,
+          score,
+          threshold,
+          flagged: true,
+          method,
+        });
+      }
     }
+
+    return violations;
   }
 
   private moderateWithPatterns(text: string): ContentViolation[] {
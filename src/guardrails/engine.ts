@@ -2,22 +2,106 @@
  * GuardrailEngine - Executes multiple guardrails in parallel
  * 
  * Handles parallel execution, error handling, and result aggregation
- * for all registered guardrails.
+ * for all registered guardrails. Guardrails run in priority order and,
+ * when staged, grouped by cost so cheap checks finish before expensive ones.
+ * In pipeline mode each guardrail evaluates the text rewritten by the ones
+ * before it. Results are combined by a configurable aggregation strategy.
+ * Profiles select guardrail subsets and settings per request context.
  */
 
-import { Guardrail, GuardrailResult } from './base';
+import { ConfigReloader } from '../config/ConfigReloader';
+import { ConfigSource, createConfigSource } from '../config/ConfigSource';
+import { Guardrail, GuardrailCost, GuardrailResult } from './base';
+import { createConfigError, GuardrailConfigLoadOptions, parseGuardrailConfig } from './config-loader';
+import {
+  GuardrailProfile,
+  GuardrailProfileEngineOptions,
+  GuardrailProfileRule,
+  resolveGuardrailProfile,
+  selectGuardrailProfile,
+  validateGuardrailProfiles,
+} from './profiles';
+import { GuardrailRegistry } from './registry';
+import { GuardrailResultCache, GuardrailResultCacheConfig } from './result-cache';
+import { getMessagesText, rewriteMessagesText } from './message-text';
+import { diffText, TextEdit } from './text-diff';
 
 export interface GuardrailEngineOptions {
   parallelExecution?: boolean;
   continueOnError?: boolean;
   timeout?: number;
+  /**
+   * Stop as soon as any guardrail fails: outstanding evaluations are
+   * aborted through `context.signal` and remaining ones skipped (default: false)
+   */
+  failFast?: boolean;
+  /** Run guardrails in stages by cost hint: low, then medium, then high (default: false) */
+  staged?: boolean;
+  /**
+   * Feed redact, mask and transform output of each guardrail into the next,
+   * one at a time in priority order; applies to text input (default: false)
+   */
+  pipeline?: boolean;
+  /** How guardrail results combine into the engine decision (default: 'any-block') */
+  aggregation?: GuardrailAggregationStrategy;
+  /** Risk score at which 'risk-threshold' and 'weighted-sum' block (default: 70) */
+  riskThreshold?: number;
+  /**
+   * Reuse results of cacheable guardrails for input they already evaluated;
+   * pass a GuardrailResultCache to share it between engines (default: no cache)
+   */
+  cache?: GuardrailResultCache | GuardrailResultCacheConfig;
+  /** Named guardrail profiles with their own guardrail subsets, overrides and settings */
+  profiles?: Record<string, GuardrailProfile>;
+  /** Rules over the execution context choosing a profile; the first match wins */
+  profileRules?: GuardrailProfileRule[];
+  /** Profile for requests no rule matches (default: all guardrails with the engine settings) */
+  defaultProfile?: string;
 }
 
+/**
+ * Engine decision strategy; advisory guardrails never count
+ * - 'any-block': block when any guardrail fails
+ * - 'majority': block when guardrails holding more than half the weight fail
+ * - 'risk-threshold': block when the highest risk score reaches the threshold
+ * - 'weighted-sum': block when the sum of weight × risk score (capped at 100)
+ *   reaches the threshold, so several weak signals can add up
+ */
+export type GuardrailAggregationStrategy = 'any-block' | 'majority' | 'risk-threshold' | 'weighted-sum';
+
+/**
+ * Stage order of cost hints
+ */
+const COST_STAGES: GuardrailCost[] = ['low', 'medium', 'high'];
+
 export interface GuardrailExecutionResult {
   guardrailName: string;
   result: GuardrailResult | null;
   executionTime: number;
   error: string | null;
+  /** Whether the result came from the result cache */
+  cached: boolean;
+}
+
+/**
+ * Rewrite applied by a guardrail in pipeline mode
+ */
+export interface GuardrailChange {
+  guardrailName: string;
+  action: 'redact' | 'mask' | 'transform';
+  reason: string;
+  /** Edits against the text the guardrail received (for `{ messages }` input, their joined text) */
+  edits: TextEdit[];
+  /** Indexes of the rewritten messages, for `{ messages }` input */
+  messageIndexes?: number[];
+}
+
+/**
+ * Input threaded through a pipeline run
+ */
+interface PipelineState {
+  input: any;
+  changes: GuardrailChange[];
 }
 
 export class GuardrailEngineResult {
@@ -26,7 +110,30 @@ export class GuardrailEngineResult {
   public readonly executionTime: number;
   public readonly guardrailsExecuted: number;
   public readonly maxRiskScore: number;
+  /** Risk score combined by the aggregation strategy */
+  public readonly riskScore: number;
+  /** Strategy that decided `passed` */
+  public readonly strategy: GuardrailAggregationStrategy;
+  /** Why the strategy passed or blocked */
+  public readonly decision: string;
+  /** Non-advisory guardrails that failed */
   public readonly failedGuardrails: string[];
+  /** Advisory guardrails that failed without affecting the decision */
+  public readonly advisoryFailures: string[];
+  /** Guardrails cancelled or not started because of failFast */
+  public readonly skippedGuardrails: string[];
+  /** Input after all pipeline rewrites (undefined outside pipeline mode) */
+  public readonly rewrittenInput: any;
+  /** Pipeline rewrites in the order they were applied */
+  public readonly changes: GuardrailChange[];
+  /**
+   * Configuration version that produced the result, for engines built from
+   * configuration. Engine-level: every guardrail result in `results` comes
+   * from the version active when the run started, so it is not repeated on them.
+   */
+  public readonly configVersion: string | undefined;
+  /** Guardrail profile the request ran under, when profiles are configured */
+  public readonly profile: string | undefined;
   public readonly timestamp: string;
 
   constructor(data: {
@@ -35,14 +142,32 @@ export class GuardrailEngineResult {
     executionTime: number;
     guardrailsExecuted: number;
     maxRiskScore?: number;
+    riskScore?: number;
+    strategy?: GuardrailAggregationStrategy;
+    decision?: string;
     failedGuardrails?: string[];
+    advisoryFailures?: string[];
+    skippedGuardrails?: string[];
+    rewrittenInput?: any;
+    changes?: GuardrailChange[];
+    configVersion?: string | undefined;
+    profile?: string | undefined;
   }) {
     this.passed = data.passed;
     this.results = data.results;
     this.executionTime = data.executionTime;
     this.guardrailsExecuted = data.guardrailsExecuted;
     this.maxRiskScore = data.maxRiskScore || 0;
+    this.riskScore = data.riskScore ?? this.maxRiskScore;
+    this.strategy = data.strategy || 'any-block';
+    this.decision = data.decision || (data.passed ? 'No guardrail blocked' : 'Blocked');
     this.failedGuardrails = data.failedGuardrails || [];
+    this.advisoryFailures = data.advisoryFailures || [];
+    this.skippedGuardrails = data.skippedGuardrails || [];
+    this.rewrittenInput = data.rewrittenInput;
+    this.changes = data.changes || [];
+    this.configVersion = data.configVersion;
+    this.profile = data.profile;
     this.timestamp = new Date().toISOString();
   }
 
@@ -63,6 +188,10 @@ export class GuardrailEngineResult {
     guardrailsExecuted: number;
     failedCount: number;
     maxRiskScore: number;
+    riskScore: number;
+    strategy: GuardrailAggregationStrategy;
+    decision: string;
+    advisoryFailureCount: number;
     executionTime: number;
   } {
     return {
@@ -70,6 +199,10 @@ export class GuardrailEngineResult {
       guardrailsExecuted: this.guardrailsExecuted,
       failedCount: this.failedGuardrails.length,
       maxRiskScore: this.maxRiskScore,
+      riskScore: this.riskScore,
+      strategy: this.strategy,
+      decision: this.decision,
+      advisoryFailureCount: this.advisoryFailures.length,
       executionTime: this.executionTime,
     };
   }
@@ -77,14 +210,142 @@ export class GuardrailEngineResult {
 
 export class GuardrailEngine {
   private guardrails: Guardrail[] = [];
-  private options: Required<GuardrailEngineOptions>;
+  private options: Required<GuardrailProfileEngineOptions>;
+  private cache: GuardrailResultCache | undefined;
+  private configVersion: string | undefined;
+  private reloader: ConfigReloader<GuardrailEngine> | undefined;
+  private profiles: Record<string, GuardrailProfile>;
+  private profileRules: GuardrailProfileRule[];
+  private defaultProfile: string | undefined;
+  /** Profile of an engine built for one profile */
+  private profileName: string | undefined;
+  /** Per-profile engines, rebuilt when the registered guardrails change */
+  private profileEngines: Map<string, { signature: string; engine: GuardrailEngine }> = new Map();
 
   constructor(options: GuardrailEngineOptions = {}) {
     this.options = {
       parallelExecution: options.parallelExecution !== undefined ? options.parallelExecution : true,
       continueOnError: options.continueOnError !== undefined ? options.continueOnError : true,
       timeout: options.timeout || 5000,
+      failFast: options.failFast ?? false,
+      staged: options.staged ?? false,
+      pipeline: options.pipeline ?? false,
+      aggregation: options.aggregation ?? 'any-block',
+      riskThreshold: options.riskThreshold ?? 70,
     };
+    this.cache = options.cache instanceof GuardrailResultCache || options.cache === undefined
+      ? options.cache
+      : new GuardrailResultCache(options.cache);
+
+    const issues = validateGuardrailProfiles(options);
+    if (issues.length > 0) {
+      throw createConfigError(issues);
+    }
+    this.profiles = options.profiles ?? {};
+    this.profileRules = options.profileRules ?? [];
+    this.defaultProfile = options.defaultProfile;
+  }
+
+  /**
+   * Build an engine from a JSON/YAML document or parsed object
+   *
+   * Throws a TealTigerConfigError listing every schema problem with its path.
+   */
+  static fromConfig(
+    source: string | Record<string, unknown>,
+    options: GuardrailConfigLoadOptions = {}
+  ): GuardrailEngine {
+    const registry = options.registry ?? GuardrailRegistry.withBuiltIns();
+    const document = parseGuardrailConfig(source, { ...options, registry });
+    const engine = new GuardrailEngine(document.engine ?? {});
+    engine.configVersion = document.version === undefined ? undefined : String(document.version);
+
+    document.guardrails.forEach((entry, index) => {
+      let guardrail: Guardrail;
+      try {
+        guardrail = registry.create(entry.type, entry.options ?? {});
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw createConfigError([{ path: `guardrails[${index}]`, message }]);
+      }
+
+      if (engine.guardrails.some((g) => g.name === guardrail.name)) {
+        throw createConfigError([
+          { path: `guardrails[${index}].options.name`, message: `duplicate guardrail name "${guardrail.name}"` },
+        ]);
+      }
+      engine.registerGuardrail(guardrail);
+    });
+
+    // Profiles refer to guardrails by name and override options of their type
+    const types = new Map(engine.guardrails.map((g, index) => [g.name, document.guardrails[index].type]));
+    const issues = validateGuardrailProfiles(document.engine ?? {}, Array.from(types.keys()))
+      .map((issue) => ({ ...issue, path: `engine.${issue.path}` }));
+    for (const [name, profile] of Object.entries(document.engine?.profiles ?? {})) {
+      for (const [guardrail, overrides] of Object.entries(profile.overrides ?? {})) {
+        const type = types.get(guardrail);
+        if (type) {
+          issues.push(...registry.validate(type, overrides, `engine.profiles.${name}.overrides.${guardrail}`));
+        }
+      }
+    }
+    if (issues.length > 0) {
+      throw createConfigError(issues);
+    }
+
+    return engine;
+  }
+
+  /**
+   * Load configuration from a file or URL and keep it up to date
+   *
+   * Each change is validated completely before the guardrails, engine options
+   * and cache are swapped in; evaluations already running finish with the
+   * guardrails and engine options they started with. Versions come from the document's
+   * `version` (default: a hash of its content). Throws when the initial
+   * configuration is invalid.
+   */
+  async watchConfig(
+    source: ConfigSource | string,
+    options: GuardrailConfigLoadOptions = {}
+  ): Promise<ConfigReloader<GuardrailEngine>> {
+    const reloader = new ConfigReloader<GuardrailEngine>({
+      source: typeof source === 'string' ? createConfigSource(source) : source,
+      load: (content, format) => {
+        const engine = GuardrailEngine.fromConfig(content, format ? { ...options, format } : options);
+        return { value: engine, version: engine.configVersion };
+      },
+      apply: (engine, version) => {
+        this.guardrails = engine.guardrails;
+        this.options = engine.options;
+        this.cache = engine.cache;
+        this.configVersion = version;
+        this.profiles = engine.profiles;
+        this.profileRules = engine.profileRules;
+        this.defaultProfile = engine.defaultProfile;
+        this.profileEngines = new Map();
+      },
+    });
+
+    await reloader.start();
+    this.reloader?.stop();
+    this.reloader = reloader;
+    return reloader;
+  }
+
+  /**
+   * Stop watching the configuration source
+   */
+  unwatchConfig(): void {
+    this.reloader?.stop();
+    this.reloader = undefined;
+  }
+
+  /**
+   * Active configuration version (undefined for engines built in code)
+   */
+  getConfigVersion(): string | undefined {
+    return this.configVersion;
   }
 
   registerGuardrail(guardrail: Guardrail): void {
@@ -104,9 +365,48 @@ export class GuardrailEngine {
     }
   }
 
+  /**
+   * Profile that requests with this context run under: the first matching
+   * rule's profile, else the default profile
+   */
+  selectProfile(context: Record<string, any> = {}): string | undefined {
+    return selectGuardrailProfile(this.profileRules, context) ?? this.defaultProfile;
+  }
+
   async execute(input: any, context: Record<string, any> = {}): Promise<GuardrailEngineResult> {
+    return this.run(input, context);
+  }
+
+  /**
+   * Execute only the named guardrails, e.g. to apply the rewrites of an
+   * earlier result to part of its input without running every guardrail again
+   */
+  async executeOnly(
+    guardrailNames: string[],
+    input: any,
+    context: Record<string, any> = {}
+  ): Promise<GuardrailEngineResult> {
+    return this.run(input, context, guardrailNames);
+  }
+
+  private async run(
+    input: any,
+    context: Record<string, any>,
+    guardrailNames?: string[]
+  ): Promise<GuardrailEngineResult> {
+    const profile = this.selectProfile(context);
+    if (profile !== undefined) {
+      return this.getProfileEngine(profile).run(input, context, guardrailNames);
+    }
+
     const startTime = Date.now();
-    const enabledGuardrails = this.guardrails.filter((g) => g.enabled);
+    // Options as of the start of the run, in case a config reload replaces them
+    const options = this.options;
+    const configVersion = this.configVersion;
+    const enabledGuardrails = this.guardrails.filter(
+      (g) => g.enabled && (guardrailNames === undefined || guardrailNames.includes(g.name))
+    );
+    const rewrittenInput = options.pipeline ? input : undefined;
 
     if (enabledGuardrails.length === 0) {
       return new GuardrailEngineResult({
@@ -114,61 +414,233 @@ export class GuardrailEngine {
         results: [],
         executionTime: Date.now() - startTime,
         guardrailsExecuted: 0,
+        strategy: options.aggregation,
+        rewrittenInput,
+        configVersion,
+        profile: this.profileName,
       });
     }
 
-    let results: GuardrailExecutionResult[];
+    // Aborted when failFast stops early, so guardrails can cancel pending work
+    const controller = new AbortController();
+    const evaluationContext = { ...context, signal: controller.signal };
+    const results: GuardrailExecutionResult[] = [];
+    const state: PipelineState = { input, changes: [] };
 
-    if (this.options.parallelExecution) {
-      results = await this.executeParallel(enabledGuardrails, input, context);
-    } else {
-      results = await this.executeSequential(enabledGuardrails, input, context);
+    try {
+      for (const stage of this.planStages(enabledGuardrails, options)) {
+        // Pipelines are sequential so each guardrail sees the previous rewrite
+        const stageResults = options.parallelExecution && !options.pipeline
+          ? await this.executeParallel(stage, input, evaluationContext, controller, options)
+          : await this.executeSequential(stage, state, evaluationContext, controller, options);
+        results.push(...stageResults);
+
+        if (controller.signal.aborted) {
+          break;
+        }
+      }
+    } finally {
+      controller.abort();
     }
 
     const executionTime = Date.now() - startTime;
 
-    // Aggregate results
-    const passed = results.every((r) => r.result?.passed ?? false);
-    const maxRiskScore = Math.max(...results.map((r) => r.result?.riskScore ?? 0));
-    const failedGuardrails = results
-      .filter((r) => r.result && !r.result.passed)
-      .map((r) => r.guardrailName);
+    const skippedGuardrails = enabledGuardrails
+      .filter((g) => !results.some((r) => r.guardrailName === g.name))
+      .map((g) => g.name);
 
     return new GuardrailEngineResult({
-      passed,
+      ...this.aggregate(results, enabledGuardrails, options),
       results,
       executionTime,
-      guardrailsExecuted: enabledGuardrails.length,
-      maxRiskScore,
-      failedGuardrails,
+      guardrailsExecuted: results.length,
+      skippedGuardrails,
+      rewrittenInput: options.pipeline ? state.input : undefined,
+      changes: state.changes,
+      configVersion,
+      profile: this.profileName,
     });
   }
 
+  /**
+   * Engine running a profile's guardrails with its overrides and settings
+   *
+   * Guardrails without overrides are shared with this engine; overridden
+   * ones are copies, so their state is kept per profile.
+   */
+  private getProfileEngine(name: string): GuardrailEngine {
+    const signature = this.guardrails.map((g) => `${g.name}:${g.getConfigVersion()}:${g.enabled}`).join('|');
+    const existing = this.profileEngines.get(name);
+    if (existing?.signature === signature) {
+      return existing.engine;
+    }
+
+    const profile = resolveGuardrailProfile(this.profiles, name);
+    const engine = new GuardrailEngine({ ...this.options, ...profile.engine });
+    engine.cache = this.cache;
+    engine.configVersion = this.configVersion;
+    engine.profileName = name;
+
+    for (const guardrailName of profile.guardrails ?? this.guardrails.map((g) => g.name)) {
+      if (profile.exclude.includes(guardrailName)) {
+        continue;
+      }
+      const guardrail = this.guardrails.find((g) => g.name === guardrailName);
+      if (!guardrail) {
+        throw new Error(`Guardrail profile "${name}" references unknown guardrail "${guardrailName}"`);
+      }
+      const overrides = profile.overrides[guardrailName];
+      engine.guardrails.push(overrides ? guardrail.withOptions(overrides, name) : guardrail);
+    }
+
+    this.profileEngines.set(name, { signature, engine });
+    return engine;
+  }
+
+  /**
+   * Order guardrails by priority (highest first), in cost stages when staged
+   */
+  private planStages(guardrails: Guardrail[], options: Required<GuardrailProfileEngineOptions>): Guardrail[][] {
+    const ordered = [...guardrails].sort((a, b) => b.priority - a.priority);
+
+    if (!options.staged) {
+      return [ordered];
+    }
+
+    return COST_STAGES
+      .map((cost) => ordered.filter((g) => g.cost === cost))
+      .filter((stage) => stage.length > 0);
+  }
+
+  /**
+   * Combine results into the engine decision with the configured strategy
+   */
+  private aggregate(
+    results: GuardrailExecutionResult[],
+    guardrails: Guardrail[],
+    options: Required<GuardrailProfileEngineOptions>
+  ): {
+    passed: boolean;
+    maxRiskScore: number;
+    riskScore: number;
+    strategy: GuardrailAggregationStrategy;
+    decision: string;
+    failedGuardrails: string[];
+    advisoryFailures: string[];
+  } {
+    const lookup = new Map(guardrails.map((g) => [g.name, g]));
+    const isAdvisory = (r: GuardrailExecutionResult) => lookup.get(r.guardrailName)?.advisory ?? false;
+    const isFailed = (r: GuardrailExecutionResult) => !(r.result?.passed ?? false);
+    const weightOf = (r: GuardrailExecutionResult) => lookup.get(r.guardrailName)?.weight ?? 1;
+    const riskOf = (r: GuardrailExecutionResult) => r.result?.riskScore ?? 0;
+
+    const decisive = results.filter((r) => !isAdvisory(r));
+    const failedGuardrails = decisive.filter(isFailed).map((r) => r.guardrailName);
+    const advisoryFailures = results.filter((r) => isAdvisory(r) && isFailed(r)).map((r) => r.guardrailName);
+    const maxRiskScore = Math.max(0, ...decisive.map(riskOf));
+    const strategy = options.aggregation;
+    const threshold = options.riskThreshold;
+
+    let passed: boolean;
+    let riskScore = maxRiskScore;
+    let decision: string;
+
+    switch (strategy) {
+      case 'majority': {
+        const totalWeight = decisive.reduce((sum, r) => sum + weightOf(r), 0);
+        const failedWeight = decisive.filter(isFailed).reduce((sum, r) => sum + weightOf(r), 0);
+        passed = failedWeight * 2 <= totalWeight;
+        decision = `${failedGuardrails.length} of ${decisive.length} guardrail(s) failed ` +
+          `(weight ${failedWeight} of ${totalWeight}), ${passed ? 'no majority' : 'a majority'}`;
+        break;
+      }
+      case 'risk-threshold':
+        passed = riskScore < threshold;
+        decision = `Highest risk score ${riskScore} ${passed ? 'is below' : 'reached'} threshold ${threshold}`;
+        break;
+      case 'weighted-sum':
+        riskScore = Math.min(100, Math.round(decisive.reduce((sum, r) => sum + weightOf(r) * riskOf(r), 0)));
+        passed = riskScore < threshold;
+        decision = `Weighted risk score ${riskScore} ${passed ? 'is below' : 'reached'} threshold ${threshold}`;
+        break;
+      default:
+        passed = failedGuardrails.length === 0;
+        decision = passed ? 'No guardrail blocked' : `Blocked by ${failedGuardrails.join(', ')}`;
+    }
+
+    return { passed, maxRiskScore, riskScore, strategy, decision, failedGuardrails, advisoryFailures };
+  }
+
+  /**
+   * Abort outstanding evaluations once a non-advisory guardrail fails in failFast mode
+   */
+  private shouldStop(
+    guardrail: Guardrail,
+    result: GuardrailExecutionResult,
+    controller: AbortController,
+    options: Required<GuardrailProfileEngineOptions>
+  ): boolean {
+    if (options.failFast && !guardrail.advisory && !(result.result?.passed ?? false)) {
+      controller.abort();
+    }
+    return controller.signal.aborted;
+  }
+
   private async executeParallel(
     guardrails: Guardrail[],
     input: any,
-    context: Record<string, any>
+    context: Record<string, any>,
+    controller: AbortController,
+    options: Required<GuardrailProfileEngineOptions>
   ): Promise<GuardrailExecutionResult[]> {
-    const promises = guardrails.map((guardrail) =>
-      this.executeWithTimeout(guardrail, input, context)
-    );
+    if (!options.failFast) {
+      return Promise.all(
+        guardrails.map((guardrail) => this.executeGuardrail(guardrail, input, context, controller.signal, options))
+      );
+    }
 
-    return Promise.all(promises);
+    // Resolve with the results so far as soon as one guardrail fails
+    return new Promise((resolve, reject) => {
+      const results: GuardrailExecutionResult[] = [];
+
+      for (const guardrail of guardrails) {
+        this.executeGuardrail(guardrail, input, context, controller.signal, options).then((result) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          results.push(result);
+
+          if (this.shouldStop(guardrail, result, controller, options) || results.length === guardrails.length) {
+            resolve(results);
+          }
+        }, reject);
+      }
+    });
   }
 
   private async executeSequential(
     guardrails: Guardrail[],
-    input: any,
-    context: Record<string, any>
+    state: PipelineState,
+    context: Record<string, any>,
+    controller: AbortController,
+    options: Required<GuardrailProfileEngineOptions>
   ): Promise<GuardrailExecutionResult[]> {
     const results: GuardrailExecutionResult[] = [];
 
     for (const guardrail of guardrails) {
-      const result = await this.executeWithTimeout(guardrail, input, context);
+      const result = await this.executeGuardrail(guardrail, state.input, context, controller.signal, options);
       results.push(result);
 
+      if (options.pipeline) {
+        this.applyRewrite(result, state);
+      }
+
       // Stop on first failure if configured
-      if (!this.options.continueOnError && result.error) {
+      if (!options.continueOnError && result.error) {
+        break;
+      }
+
+      if (this.shouldStop(guardrail, result, controller, options)) {
         break;
       }
     }
@@ -176,33 +648,141 @@ export class GuardrailEngine {
     return results;
   }
 
+  /**
+   * Replace the pipeline input with a guardrail's rewritten text
+   *
+   * For `{ messages }` input the rewrite is applied to the messages: either
+   * the guardrail's `transformedMessages`, or its rewrite of their joined text
+   * mapped back onto each message.
+   */
+  private applyRewrite(execution: GuardrailExecutionResult, state: PipelineState): void {
+    if (execution.result && Array.isArray(state.input?.messages)) {
+      this.applyMessageRewrite(execution.guardrailName, execution.result, state);
+      return;
+    }
+
+    const rewritten = execution.result?.getRewrittenText();
+    if (!execution.result || rewritten === undefined || typeof state.input !== 'string' || rewritten === state.input) {
+      return;
+    }
+
+    state.changes.push({
+      guardrailName: execution.guardrailName,
+      action: execution.result.action as GuardrailChange['action'],
+      reason: execution.result.reason,
+      edits: diffText(state.input, rewritten),
+    });
+    state.input = rewritten;
+  }
+
+  private applyMessageRewrite(guardrailName: string, result: GuardrailResult, state: PipelineState): void {
+    const messages = state.input.messages as Array<{ content?: unknown }>;
+    const before = getMessagesText(messages);
+    let rewrite: { messages: Array<{ content?: unknown }>; messageIndexes: number[] } | undefined;
+
+    const transformed: unknown = result.metadata.transformedMessages;
+    const rewritten = result.getRewrittenText();
+    if (Array.isArray(transformed)) {
+      const next = [...messages];
+      const messageIndexes: number[] = [];
+      transformed.forEach((message: { content?: unknown } | undefined, index) => {
+        const content = message?.content;
+        if (index < messages.length && typeof content === 'string' && content !== messages[index].content) {
+          next[index] = { ...messages[index], content };
+          messageIndexes.push(index);
+        }
+      });
+      rewrite = { messages: next, messageIndexes };
+    } else if (rewritten !== undefined && rewritten !== before) {
+      rewrite = rewriteMessagesText(messages, rewritten);
+    }
+
+    if (!rewrite || rewrite.messageIndexes.length === 0) {
+      return;
+    }
+
+    state.changes.push({
+      guardrailName,
+      action: result.action as GuardrailChange['action'],
+      reason: result.reason,
+      edits: diffText(before, getMessagesText(rewrite.messages)),
+      messageIndexes: rewrite.messageIndexes,
+    });
+    state.input = { ...state.input, messages: rewrite.messages };
+  }
+
+  /**
+   * Evaluate a guardrail, serving and storing results through the cache
+   */
+  private async executeGuardrail(
+    guardrail: Guardrail,
+    input: any,
+    context: Record<string, any>,
+    signal: AbortSignal,
+    options: Required<GuardrailProfileEngineOptions>
+  ): Promise<GuardrailExecutionResult> {
+    if (!this.cache || !guardrail.cacheable) {
+      return this.executeWithTimeout(guardrail, input, context, signal, options);
+    }
+
+    const startTime = Date.now();
+    const cached = await this.cache.get(guardrail, input);
+    if (cached) {
+      return {
+        guardrailName: guardrail.name,
+        result: cached,
+        executionTime: Date.now() - startTime,
+        error: null,
+        cached: true,
+      };
+    }
+
+    const execution = await this.executeWithTimeout(guardrail, input, context, signal, options);
+    // Errors, timeouts and aborts are not cached
+    if (execution.result && !execution.error) {
+      await this.cache.set(guardrail, input, execution.result);
+    }
+    return execution;
+  }
+
   private async executeWithTimeout(
     guardrail: Guardrail,
     input: any,
-    context: Record<string, any>
+    context: Record<string, any>,
+    signal: AbortSignal,
+    options: Required<GuardrailProfileEngineOptions>
   ): Promise<GuardrailExecutionResult> {
     const guardrailName = guardrail.name;
     const startTime = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
 
     try {
-      const timeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Guardrail execution timeout')), this.options.timeout)
-      );
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Guardrail execution timeout')), options.timeout);
+      });
+      const abortPromise = new Promise<never>((_, reject) => {
+        onAbort = () => reject(new Error('Guardrail execution aborted'));
+        signal.addEventListener('abort', onAbort);
+      });
 
       const evaluationPromise = guardrail.evaluate(input, context);
-      const result = await Promise.race([evaluationPromise, timeoutPromise]);
+      const result = await Promise.race([evaluationPromise, timeoutPromise, abortPromise]);
 
       return {
         guardrailName,
         result,
         executionTime: Date.now() - startTime,
         error: null,
+        cached: false,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`[GuardrailEngine] Error executing ${guardrailName}:`, errorMessage);
+      if (!signal.aborted) {
+        console.error(`[GuardrailEngine] Error executing ${guardrailName}:`, errorMessage);
+      }
 
-      if (this.options.continueOnError) {
+      if (options.continueOnError || signal.aborted) {
         return {
           guardrailName,
           result: new GuardrailResult({
@@ -213,13 +793,26 @@ export class GuardrailEngine {
           }),
           executionTime: Date.now() - startTime,
           error: errorMessage,
+          cached: false,
         };
       } else {
         throw error;
       }
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
     }
   }
 
+  /**
+   * Result cache, when configured
+   */
+  getCache(): GuardrailResultCache | undefined {
+    return this.cache;
+  }
+
   getRegisteredGuardrails(): Array<ReturnType<Guardrail['getMetadata']>> {
     return this.guardrails.map((g) => g.getMetadata());
   }
@@ -5,12 +5,111 @@
  */
 
 // Base classes and interfaces
-export { Guardrail, GuardrailResult, GuardrailConfig, GuardrailMetadata, GuardrailResultData } from './base';
+export { Guardrail, GuardrailResult, GuardrailConfig, GuardrailMetadata, GuardrailResultData, GuardrailCost } from './base';
 
 // Engine
-export { GuardrailEngine, GuardrailEngineResult, GuardrailEngineOptions, GuardrailExecutionResult } from './engine';
+export { GuardrailEngine, GuardrailEngineResult, GuardrailEngineOptions, GuardrailExecutionResult, GuardrailChange, GuardrailAggregationStrategy } from './engine';
+export { diffText, applyEdits, TextEdit } from './text-diff';
+export { getMessageText, getMessagesText, rewriteMessagesText, MessagesRewrite } from './message-text';
+export {
+  GuardrailResultCache,
+  InMemoryGuardrailCacheStore,
+  GuardrailResultCacheConfig,
+  GuardrailCacheStore,
+  GuardrailCacheEntry,
+  GuardrailCacheStats
+} from './result-cache';
+export { GuardrailRegistry, GuardrailConstructor, GuardrailRegistration } from './registry';
+export {
+  parseGuardrailConfig,
+  GuardrailConfigDocument,
+  GuardrailConfigEntry,
+  GuardrailConfigFormat,
+  GuardrailConfigLoadOptions
+} from './config-loader';
+export { OptionSchema, OptionIssue } from './option-schema';
+export {
+  resolveGuardrailProfile,
+  selectGuardrailProfile,
+  validateGuardrailProfiles,
+  GuardrailProfile,
+  GuardrailProfileRule,
+  GuardrailProfileEngineOptions,
+  ResolvedGuardrailProfile
+} from './profiles';
 
 // Built-in guardrails
-export { PIIDetectionGuardrail, PIIDetectionConfig } from './pii-detection';
+export { PIIDetectionGuardrail, PIIDetectionConfig, PIIDetection } from './pii-detection';
+export {
+  luhnCheck,
+  verhoeffCheck,
+  validateCreditCard,
+  validateSSN,
+  validatePhoneNumber,
+  validateIBAN,
+  validateUKNino,
+  validateEUVat,
+  validateAadhaar,
+  validatePAN,
+  validateIPv4,
+  validateIPv6,
+  validateMacAddress,
+  validateDateOfBirth
+} from './pii-validators';
+export { PII_ENTITY_PACKS, PIIDetectorDefinition, PIIEntityPack, PIIEntityPackName } from './pii-entities';
+export {
+  PIIVault,
+  InMemoryPIIVaultStore,
+  PIIVaultConfig,
+  PIIVaultStore,
+  PIIVaultEntry,
+  PIISpan,
+  PIIDetokenizeTarget,
+  PIITokenizeResult,
+  PIIDetokenizeResult
+} from './pii-vault';
 export { ContentModerationGuardrail, ContentModerationConfig } from './content-moderation';
+export {
+  BaseModerationProvider,
+  OpenAIModerationProvider,
+  AzureContentSafetyProvider,
+  PerspectiveModerationProvider,
+  HttpModerationProvider,
+  ModerationProvider,
+  ModerationProviderOptions,
+  OpenAIModerationProviderOptions,
+  AzureContentSafetyProviderOptions,
+  PerspectiveModerationProviderOptions,
+  HttpModerationProviderOptions
+} from './moderation-providers';
+export {
+  SecretsDetectionGuardrail,
+  SecretsDetectionConfig,
+  SecretDetection,
+  shannonEntropy
+} from './secrets-detection';
 export { PromptInjectionGuardrail, PromptInjectionConfig } from './prompt-injection';
+export {
+  TopicRestrictionGuardrail,
+  TopicRestrictionConfig,
+  TopicDefinition,
+  TopicMatch
+} from './topic-restriction';
+export {
+  normalizeText,
+  TEXT_NORMALIZATIONS,
+  TextNormalization,
+  NormalizedText
+} from './text-normalization';
+export {
+  OnnxTextClassifier,
+  OnnxTextEmbedder,
+  WordPieceTokenizer,
+  TextClassifier,
+  TextEmbedder,
+  ClassifierTokenizer,
+  OnnxTextClassifierConfig,
+  OnnxTextEmbedderConfig,
+  OnnxRuntime,
+  OnnxInferenceSession
+} from './onnx-classifier';
@@ -0,0 +1,156 @@
+/**
+ * Message Text
+ *
+ * Text of chat message content, which is a string or, in multimodal and
+ * Anthropic requests, an array of content parts
+ */
+
+import { TextEdit, applyEdits, diffText } from './text-diff';
+
+/**
+ * Text of message content; parts contribute their `text`, and tool results
+ * their nested content
+ */
+export function getMessageText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return collectText(content, []).map((leaf) => leaf.text).join(' ');
+}
+
+/**
+ * Text of chat messages as text-matching guardrails evaluate it: the text of
+ * each message's content, separated by spaces ('' when not an array)
+ */
+export function getMessagesText(messages: unknown): string {
+  if (!Array.isArray(messages)) {
+    return '';
+  }
+
+  return messages
+    .map((message: unknown) => getMessageText(isMessage(message) ? message.content : undefined))
+    .join(' ');
+}
+
+/**
+ * Messages with a rewrite of their text (as returned by getMessagesText)
+ * applied to the content it came from
+ */
+export interface MessagesRewrite<T> {
+  messages: T[];
+  /** Indexes of the messages whose content changed */
+  messageIndexes: number[];
+}
+
+/**
+ * Apply a rewrite of the text of `messages` back onto their content
+ *
+ * An edit spanning several messages or parts is clipped to each of them; the
+ * replacement goes to the first, so a value split across them is still removed.
+ */
+export function rewriteMessagesText<T extends { content?: unknown }>(
+  messages: T[],
+  rewritten: string
+): MessagesRewrite<T> {
+  // Locate every text leaf in the joined text
+  const leaves: Array<TextLeaf & { messageIndex: number; start: number; edits: TextEdit[] }> = [];
+  let offset = 0;
+  messages.forEach((message, messageIndex) => {
+    const content = message.content;
+    const found = typeof content === 'string' ? [{ path: [], text: content }] : collectText(content, []);
+    for (const leaf of found) {
+      leaves.push({ ...leaf, messageIndex, start: offset, edits: [] });
+      offset += leaf.text.length + 1;
+    }
+    if (found.length === 0) {
+      offset += 1;
+    }
+  });
+
+  for (const edit of diffText(getMessagesText(messages), rewritten)) {
+    const end = edit.position + edit.length;
+    const overlapping = leaves.filter((leaf) =>
+      edit.length === 0
+        ? leaf.start <= edit.position && edit.position <= leaf.start + leaf.text.length
+        : leaf.start < end && edit.position < leaf.start + leaf.text.length
+    );
+    // Edits of separators only attach to the leaf before them
+    const targets = overlapping.length > 0
+      ? overlapping
+      : leaves.filter((leaf) => leaf.start <= edit.position).slice(-1);
+
+    targets.forEach((leaf, index) => {
+      const from = Math.min(Math.max(edit.position - leaf.start, 0), leaf.text.length);
+      const to = Math.min(Math.max(end - leaf.start, from), leaf.text.length);
+      leaf.edits.push({ position: from, length: to - from, replacement: index === 0 ? edit.replacement : '' });
+    });
+  }
+
+  const result = [...messages];
+  const messageIndexes: number[] = [];
+  for (const leaf of leaves) {
+    if (leaf.edits.length === 0) {
+      continue;
+    }
+    const text = applyEdits(leaf.text, leaf.edits);
+    const message = result[leaf.messageIndex];
+    result[leaf.messageIndex] = { ...message, content: setAt(message.content, leaf.path, text) };
+    if (!messageIndexes.includes(leaf.messageIndex)) {
+      messageIndexes.push(leaf.messageIndex);
+    }
+  }
+
+  return { messages: result, messageIndexes };
+}
+
+/**
+ * Non-empty text in content and where it sits
+ */
+interface TextLeaf {
+  path: Array<string | number>;
+  text: string;
+}
+
+function collectText(value: unknown, path: Array<string | number>): TextLeaf[] {
+  if (typeof value === 'string') {
+    return value ? [{ path, text: value }] : [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((part: unknown, index) => collectText(part, [...path, index]));
+  }
+
+  if (value && typeof value === 'object') {
+    const part = value as { text?: unknown; content?: unknown };
+    return typeof part.text === 'string'
+      ? collectText(part.text, [...path, 'text'])
+      : collectText(part.content, [...path, 'content']);
+  }
+
+  return [];
+}
+
+/**
+ * Copy of `value` with the string at `path` replaced
+ */
+function setAt(value: unknown, path: Array<string | number>, text: string): unknown {
+  if (path.length === 0) {
+    return text;
+  }
+
+  const [key, ...rest] = path;
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [...value];
+    copy[key as number] = setAt(copy[key as number], rest, text);
+    return copy;
+  }
+
+  const copy = { ...(value as Record<string, unknown>) };
+  copy[key] = setAt(copy[key], rest, text);
+  return copy;
+}
+
+function isMessage(value: unknown): value is { content?: unknown } {
+  return typeof value === 'object' && value !== null;
+}
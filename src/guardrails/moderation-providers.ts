@@ -0,0 +1,260 @@
+/**
+ * Moderation Providers
+ *
+ * Hosted moderation backends for ContentModerationGuardrail. Each provider
+ * returns scores keyed by the guardrail's category names, so thresholds and
+ * risk scores apply regardless of which service produced them.
+ */
+
+import { FetchLike, HttpTransport } from '../clients/HttpTransport';
+
+/**
+ * Moderation backend
+ */
+export interface ModerationProvider {
+  /** Provider name reported as the violation method (e.g. 'openai') */
+  readonly name: string;
+  /**
+   * Scores (0-1) per guardrail category; throws when the service is
+   * unavailable or the signal aborts
+   */
+  moderate(text: string, signal?: AbortSignal): Promise<Record<string, number>>;
+}
+
+/**
+ * Options shared by the HTTP providers
+ */
+export interface ModerationProviderOptions {
+  /** Provider category -> guardrail category, merged over the provider defaults */
+  categoryMap?: Record<string, string>;
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: FetchLike;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Retries for 429 and 5xx responses before failing over (default: 0) */
+  maxRetries?: number;
+}
+
+/**
+ * HTTP provider with category mapping
+ */
+export abstract class BaseModerationProvider implements ModerationProvider {
+  abstract readonly name: string;
+  protected readonly transport: HttpTransport;
+  private readonly categoryMap: Record<string, string>;
+
+  constructor(provider: string, defaultCategoryMap: Record<string, string>, options: ModerationProviderOptions) {
+    this.transport = new HttpTransport({
+      provider,
+      fetch: options.fetch,
+      timeout: options.timeout ?? 10000,
+      maxRetries: options.maxRetries ?? 0,
+    });
+    this.categoryMap = { ...defaultCategoryMap, ...options.categoryMap };
+  }
+
+  abstract moderate(text: string, signal?: AbortSignal): Promise<Record<string, number>>;
+
+  /**
+   * Rename provider categories; categories mapped to the same name keep the highest score
+   */
+  protected mapCategories(scores: Record<string, number>): Record<string, number> {
+    const mapped: Record<string, number> = {};
+
+    for (const [category, score] of Object.entries(scores)) {
+      if (typeof score !== 'number') continue;
+
+      const name = this.categoryMap[category] ?? category;
+      mapped[name] = Math.max(mapped[name] ?? 0, score);
+    }
+
+    return mapped;
+  }
+}
+
+export interface OpenAIModerationProviderOptions extends ModerationProviderOptions {
+  apiKey: string;
+  /** API base URL (default: https://api.openai.com/v1) */
+  baseURL?: string;
+  /** Moderation model (default: the API default) */
+  model?: string;
+}
+
+/**
+ * OpenAI Moderation API
+ *
+ * OpenAI category names are used by the guardrail as-is.
+ */
+export class OpenAIModerationProvider extends BaseModerationProvider {
+  readonly name = 'openai';
+  private readonly options: OpenAIModerationProviderOptions;
+
+  constructor(options: OpenAIModerationProviderOptions) {
+    super('OpenAI Moderation', {}, options);
+    this.options = options;
+  }
+
+  async moderate(text: string, signal?: AbortSignal): Promise<Record<string, number>> {
+    const baseURL = (this.options.baseURL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    const data = await this.transport.request<{ results?: Array<{ category_scores?: Record<string, number> }> }>({
+      method: 'POST',
+      url: `${baseURL}/moderations`,
+      headers: { Authorization: `Bearer ${this.options.apiKey}` },
+      body: { input: text, ...(this.options.model && { model: this.options.model }) },
+      signal,
+    });
+
+    return this.mapCategories(data.results?.[0]?.category_scores ?? {});
+  }
+}
+
+export interface AzureContentSafetyProviderOptions extends ModerationProviderOptions {
+  /** Content Safety endpoint (e.g., https://your-resource.cognitiveservices.azure.com) */
+  endpoint: string;
+  apiKey: string;
+  /** API version (default: 2023-10-01) */
+  apiVersion?: string;
+}
+
+/**
+ * Azure AI Content Safety text analysis
+ *
+ * Severities (0, 2, 4, 6) are scaled to 0-1.
+ */
+export class AzureContentSafetyProvider extends BaseModerationProvider {
+  readonly name = 'azure';
+  private readonly options: AzureContentSafetyProviderOptions;
+
+  constructor(options: AzureContentSafetyProviderOptions) {
+    super(
+      'Azure AI Content Safety',
+      { Hate: 'hate', SelfHarm: 'self-harm', Sexual: 'sexual', Violence: 'violence' },
+      options
+    );
+    this.options = options;
+  }
+
+  async moderate(text: string, signal?: AbortSignal): Promise<Record<string, number>> {
+    const endpoint = this.options.endpoint.replace(/\/+$/, '');
+    const apiVersion = encodeURIComponent(this.options.apiVersion || '2023-10-01');
+    const data = await this.transport.request<{
+      categoriesAnalysis?: Array<{ category: string; severity?: number }>;
+    }>({
+      method: 'POST',
+      url: `${endpoint}/contentsafety/text:analyze?api-version=${apiVersion}`,
+      headers: { 'Ocp-Apim-Subscription-Key': this.options.apiKey },
+      body: { text, outputType: 'FourSeverityLevels' },
+      signal,
+    });
+
+    const scores: Record<string, number> = {};
+    for (const analysis of data.categoriesAnalysis ?? []) {
+      scores[analysis.category] = Math.min(1, (analysis.severity ?? 0) / 6);
+    }
+    return this.mapCategories(scores);
+  }
+}
+
+export interface PerspectiveModerationProviderOptions extends ModerationProviderOptions {
+  apiKey: string;
+  /** API base URL (default: https://commentanalyzer.googleapis.com/v1alpha1) */
+  baseURL?: string;
+  /** Attributes to request (default: the keys of the category map) */
+  attributes?: string[];
+  /** Comment languages (default: detected by the service) */
+  languages?: string[];
+}
+
+/**
+ * Perspective API (Google Jigsaw) attribute scoring
+ */
+export class PerspectiveModerationProvider extends BaseModerationProvider {
+  readonly name = 'perspective';
+  private readonly options: PerspectiveModerationProviderOptions;
+  private readonly attributes: string[];
+
+  constructor(options: PerspectiveModerationProviderOptions) {
+    const defaults = {
+      TOXICITY: 'harassment',
+      SEVERE_TOXICITY: 'harassment',
+      INSULT: 'harassment',
+      IDENTITY_ATTACK: 'hate',
+      THREAT: 'harassment/threatening',
+      SEXUALLY_EXPLICIT: 'sexual',
+    };
+    super('Perspective', defaults, options);
+    this.options = options;
+    this.attributes = options.attributes ?? Object.keys({ ...defaults, ...options.categoryMap });
+  }
+
+  async moderate(text: string, signal?: AbortSignal): Promise<Record<string, number>> {
+    const baseURL = (this.options.baseURL || 'https://commentanalyzer.googleapis.com/v1alpha1').replace(/\/+$/, '');
+    const data = await this.transport.request<{
+      attributeScores?: Record<string, { summaryScore?: { value?: number } } | undefined>;
+    }>({
+      method: 'POST',
+      url: `${baseURL}/comments:analyze?key=${encodeURIComponent(this.options.apiKey)}`,
+      body: {
+        comment: { text },
+        requestedAttributes: Object.fromEntries(this.attributes.map(attribute => [attribute, {}])),
+        ...(this.options.languages && { languages: this.options.languages }),
+      },
+      signal,
+    });
+
+    const scores: Record<string, number> = {};
+    for (const [attribute, result] of Object.entries(data.attributeScores ?? {})) {
+      const value = result?.summaryScore?.value;
+      if (typeof value === 'number') {
+        scores[attribute] = value;
+      }
+    }
+    return this.mapCategories(scores);
+  }
+}
+
+export interface HttpModerationProviderOptions extends ModerationProviderOptions {
+  /** Moderation endpoint */
+  url: string;
+  /** Provider name reported as the violation method (default: 'http') */
+  name?: string;
+  headers?: Record<string, string>;
+  /** Request body (default: { input: text }) */
+  buildRequest?: (text: string) => unknown;
+  /**
+   * Extract scores per provider category from the response
+   * (default: response.scores, or the response itself)
+   */
+  parseResponse?: (response: unknown) => Record<string, number>;
+}
+
+/**
+ * Generic JSON-over-HTTP moderation service
+ */
+export class HttpModerationProvider extends BaseModerationProvider {
+  readonly name: string;
+  private readonly options: HttpModerationProviderOptions;
+
+  constructor(options: HttpModerationProviderOptions) {
+    super(options.name ?? 'HTTP moderation', {}, options);
+    this.name = options.name ?? 'http';
+    this.options = options;
+  }
+
+  async moderate(text: string, signal?: AbortSignal): Promise<Record<string, number>> {
+    const data = await this.transport.request<unknown>({
+      method: 'POST',
+      url: this.options.url,
+      headers: this.options.headers ?? {},
+      body: this.options.buildRequest ? this.options.buildRequest(text) : { input: text },
+      signal,
+    });
+
+    if (this.options.parseResponse) {
+      return this.mapCategories(this.options.parseResponse(data));
+    }
+
+    const scores: unknown = (data && typeof data === 'object' && 'scores' in data ? data.scores : undefined) ?? data;
+    return this.mapCategories(scores && typeof scores === 'object' ? (scores as Record<string, number>) : {});
+  }
+}
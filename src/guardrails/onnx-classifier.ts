@@ -0,0 +1,401 @@
+/**
+ * ONNX Text Classifier
+ *
+ * Local, CPU-only text classification and embeddings for guardrails. Loads
+ * an exported Hugging Face text-classification model (model.onnx, vocab.txt
+ * and config.json) or sentence embedding model with the optional
+ * onnxruntime-node package, so content is scored without leaving the process.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { loadOptionalModule } from '../utils/modules';
+
+/**
+ * Scores text per label
+ *
+ * Guardrails accept any implementation, so hosted or custom models can be
+ * plugged in the same way as OnnxTextClassifier.
+ */
+export interface TextClassifier {
+  /** Probability (0-1) per label */
+  classify(text: string): Promise<Record<string, number>>;
+}
+
+/**
+ * Embeds text as a vector; related texts have a high cosine similarity
+ */
+export interface TextEmbedder {
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Converts text to model input IDs
+ */
+export interface ClassifierTokenizer {
+  /** Token IDs including special tokens, at most maxLength long */
+  encode(text: string, maxLength: number): number[];
+}
+
+/**
+ * Inference session (compatible with onnxruntime-node)
+ */
+export interface OnnxInferenceSession {
+  readonly inputNames: readonly string[];
+  readonly outputNames: readonly string[];
+  run(feeds: Record<string, unknown>): Promise<Record<string, { data: unknown }>>;
+}
+
+/**
+ * ONNX runtime module (compatible with onnxruntime-node)
+ */
+export interface OnnxRuntime {
+  InferenceSession: {
+    create(modelPath: string, options?: Record<string, unknown>): Promise<OnnxInferenceSession>;
+  };
+  Tensor: new (type: 'int64', data: BigInt64Array, dims: number[]) => unknown;
+}
+
+/**
+ * ONNX classifier configuration
+ */
+export interface OnnxTextClassifierConfig {
+  /** Path to the .onnx model */
+  modelPath: string;
+  /** WordPiece vocabulary (default: vocab.txt next to the model) */
+  vocabPath?: string;
+  /**
+   * Label per output index; name them after guardrail categories to use the
+   * guardrail thresholds and risk scores (default: id2label from config.json
+   * next to the model)
+   */
+  labels?: string[];
+  /**
+   * Output activation (default: sigmoid for multi-label models per
+   * config.json, softmax otherwise)
+   */
+  activation?: 'softmax' | 'sigmoid';
+  /** Maximum tokens per input; longer text is truncated (default: 512) */
+  maxLength?: number;
+  /** Lowercase and strip accents before tokenizing (default: true) */
+  lowercase?: boolean;
+  /** Tokenizer for models without a WordPiece vocabulary */
+  tokenizer?: ClassifierTokenizer;
+  /** Runtime module (default: require('onnxruntime-node')) */
+  runtime?: OnnxRuntime;
+}
+
+/**
+ * ONNX embedding model configuration
+ */
+export interface OnnxTextEmbedderConfig {
+  /** Path to the .onnx model */
+  modelPath: string;
+  /** WordPiece vocabulary (default: vocab.txt next to the model) */
+  vocabPath?: string;
+  /** Maximum tokens per input; longer text is truncated (default: 256) */
+  maxLength?: number;
+  /** Lowercase and strip accents before tokenizing (default: true) */
+  lowercase?: boolean;
+  /** Tokenizer for models without a WordPiece vocabulary */
+  tokenizer?: ClassifierTokenizer;
+  /** Runtime module (default: require('onnxruntime-node')) */
+  runtime?: OnnxRuntime;
+}
+
+/**
+ * BERT-style WordPiece tokenizer
+ */
+export class WordPieceTokenizer implements ClassifierTokenizer {
+  private readonly vocab: Map<string, number>;
+  private readonly lowercase: boolean;
+  private readonly cls: number;
+  private readonly sep: number;
+  private readonly unk: number;
+
+  constructor(vocab: string[], options: { lowercase?: boolean } = {}) {
+    this.vocab = new Map(vocab.map((token, id) => [token, id]));
+    this.lowercase = options.lowercase ?? true;
+    this.cls = this.specialToken('[CLS]');
+    this.sep = this.specialToken('[SEP]');
+    this.unk = this.specialToken('[UNK]');
+  }
+
+  /**
+   * Load a vocab.txt file (one token per line)
+   */
+  static async fromFile(vocabPath: string, options: { lowercase?: boolean } = {}): Promise<WordPieceTokenizer> {
+    const lines = (await fs.readFile(vocabPath, 'utf8')).split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return new WordPieceTokenizer(lines, options);
+  }
+
+  encode(text: string, maxLength: number): number[] {
+    const ids: number[] = [];
+
+    for (const word of this.splitWords(text)) {
+      ids.push(...this.wordPiece(word));
+      if (ids.length >= maxLength - 2) break;
+    }
+
+    return [this.cls, ...ids.slice(0, maxLength - 2), this.sep];
+  }
+
+  private splitWords(text: string): string[] {
+    let cleaned = text.replace(/[^\P{Cc}\t\n\r]|\uFFFD/gu, '');
+    if (this.lowercase) {
+      cleaned = cleaned.toLowerCase().normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+
+    // Punctuation characters become words of their own
+    return cleaned.split(/\s+/).flatMap((word) => word.split(/(\p{P}|\p{S})/u)).filter(Boolean);
+  }
+
+  private wordPiece(word: string): number[] {
+    const chars = Array.from(word);
+    if (chars.length > 100) {
+      return [this.unk];
+    }
+
+    const pieces: number[] = [];
+    let start = 0;
+
+    // Greedy longest-match-first
+    while (start < chars.length) {
+      let end = chars.length;
+      let id: number | undefined;
+
+      while (start < end) {
+        const piece = (start > 0 ? '##' : '') + chars.slice(start, end).join('');
+        id = this.vocab.get(piece);
+        if (id !== undefined) break;
+        end--;
+      }
+
+      if (id === undefined) {
+        return [this.unk];
+      }
+      pieces.push(id);
+      start = end;
+    }
+
+    return pieces;
+  }
+
+  private specialToken(token: string): number {
+    const id = this.vocab.get(token);
+    if (id === undefined) {
+      throw new Error(`WordPiece vocabulary is missing ${token}`);
+    }
+    return id;
+  }
+}
+
+interface LoadedModel {
+  runtime: OnnxRuntime;
+  session: OnnxInferenceSession;
+  tokenizer: ClassifierTokenizer;
+  labels: string[];
+  activation: 'softmax' | 'sigmoid';
+}
+
+/**
+ * Text classifier backed by a local ONNX model
+ *
+ * The model is loaded on first use and kept for the lifetime of the
+ * classifier.
+ */
+export class OnnxTextClassifier implements TextClassifier {
+  private readonly config: OnnxTextClassifierConfig;
+  private model: Promise<LoadedModel> | undefined;
+
+  constructor(config: OnnxTextClassifierConfig) {
+    this.config = config;
+  }
+
+  async classify(text: string): Promise<Record<string, number>> {
+    const { runtime, session, tokenizer, labels, activation } = await this.load();
+
+    const ids = tokenizer.encode(text, this.config.maxLength ?? 512);
+    const outputs = await session.run(createFeeds(runtime, session, ids));
+    const logits = Array.from(outputs[session.outputNames[0]].data as ArrayLike<number>, Number);
+    const probabilities = activation === 'sigmoid' ? logits.map(sigmoid) : softmax(logits);
+
+    const scores: Record<string, number> = {};
+    probabilities.forEach((probability, index) => {
+      scores[labels[index] ?? `LABEL_${index}`] = probability;
+    });
+    return scores;
+  }
+
+  private load(): Promise<LoadedModel> {
+    if (!this.model) {
+      this.model = this.loadModel();
+      // Allow a later call to retry after a failed load
+      this.model.catch(() => {
+        this.model = undefined;
+      });
+    }
+    return this.model;
+  }
+
+  private async loadModel(): Promise<LoadedModel> {
+    const modelDir = path.dirname(this.config.modelPath);
+    const runtime = this.config.runtime ?? loadRuntime('OnnxTextClassifier');
+    const modelConfig = this.config.labels && this.config.activation
+      ? {}
+      : await readModelConfig(path.join(modelDir, 'config.json'));
+
+    const labels = this.config.labels ??
+      Object.entries(modelConfig.id2label ?? {})
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([, label]) => label);
+    const activation = this.config.activation ??
+      (modelConfig.problem_type === 'multi_label_classification' ? 'sigmoid' : 'softmax');
+
+    const tokenizer = this.config.tokenizer ??
+      (await WordPieceTokenizer.fromFile(
+        this.config.vocabPath ?? path.join(modelDir, 'vocab.txt'),
+        this.config.lowercase === undefined ? {} : { lowercase: this.config.lowercase }
+      ));
+
+    const session = await runtime.InferenceSession.create(this.config.modelPath, {
+      executionProviders: ['cpu'],
+    });
+
+    return { runtime, session, tokenizer, labels, activation };
+  }
+}
+
+/**
+ * Sentence embeddings from a local ONNX model, e.g. an exported
+ * sentence-transformers model
+ *
+ * Uses the model's pooled `sentence_embedding` output when it has one and
+ * mean-pools the token embeddings of its first output otherwise. Vectors
+ * are L2-normalized.
+ */
+export class OnnxTextEmbedder implements TextEmbedder {
+  private readonly config: OnnxTextEmbedderConfig;
+  private model: Promise<Omit<LoadedModel, 'labels' | 'activation'>> | undefined;
+
+  constructor(config: OnnxTextEmbedderConfig) {
+    this.config = config;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const { runtime, session, tokenizer } = await this.load();
+
+    const ids = tokenizer.encode(text, this.config.maxLength ?? 256);
+    const outputs = await session.run(createFeeds(runtime, session, ids));
+
+    const pooled = session.outputNames.includes('sentence_embedding');
+    const values = Array.from(
+      outputs[pooled ? 'sentence_embedding' : session.outputNames[0]].data as ArrayLike<number>,
+      Number
+    );
+    return normalize(pooled ? values : meanPool(values, ids.length));
+  }
+
+  private load(): Promise<Omit<LoadedModel, 'labels' | 'activation'>> {
+    if (!this.model) {
+      this.model = this.loadModel();
+      // Allow a later call to retry after a failed load
+      this.model.catch(() => {
+        this.model = undefined;
+      });
+    }
+    return this.model;
+  }
+
+  private async loadModel(): Promise<Omit<LoadedModel, 'labels' | 'activation'>> {
+    const runtime = this.config.runtime ?? loadRuntime('OnnxTextEmbedder');
+    const tokenizer = this.config.tokenizer ??
+      (await WordPieceTokenizer.fromFile(
+        this.config.vocabPath ?? path.join(path.dirname(this.config.modelPath), 'vocab.txt'),
+        this.config.lowercase === undefined ? {} : { lowercase: this.config.lowercase }
+      ));
+    const session = await runtime.InferenceSession.create(this.config.modelPath, {
+      executionProviders: ['cpu'],
+    });
+
+    return { runtime, session, tokenizer };
+  }
+}
+
+/**
+ * Model inputs for one sequence of token IDs
+ */
+function createFeeds(
+  runtime: OnnxRuntime,
+  session: OnnxInferenceSession,
+  ids: number[]
+): Record<string, unknown> {
+  const dims = [1, ids.length];
+  const inputs: Record<string, BigInt64Array> = {
+    input_ids: BigInt64Array.from(ids, BigInt),
+    attention_mask: new BigInt64Array(ids.length).fill(BigInt(1)),
+    token_type_ids: new BigInt64Array(ids.length),
+  };
+
+  const feeds: Record<string, unknown> = {};
+  for (const name of session.inputNames) {
+    if (!inputs[name]) {
+      throw new Error(`Unsupported ONNX model input: ${name}`);
+    }
+    feeds[name] = new runtime.Tensor('int64', inputs[name], dims);
+  }
+  return feeds;
+}
+
+function loadRuntime(owner: string): OnnxRuntime {
+  try {
+    return loadOptionalModule<OnnxRuntime>('onnxruntime-node');
+  } catch {
+    throw new Error(
+      `${owner} requires the "onnxruntime-node" package. Install it or pass a runtime.`
+    );
+  }
+}
+
+async function readModelConfig(
+  configPath: string
+): Promise<{ id2label?: Record<string, string>; problem_type?: string }> {
+  try {
+    return JSON.parse(await fs.readFile(configPath, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function softmax(values: number[]): number[] {
+  const max = Math.max(...values);
+  const exps = values.map((value) => Math.exp(value - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map((value) => value / sum);
+}
+
+/**
+ * Average token embeddings ([tokens × dimensions], row-major)
+ */
+function meanPool(values: number[], tokens: number): number[] {
+  const dimensions = values.length / tokens;
+  const pooled = new Array<number>(dimensions).fill(0);
+  for (let token = 0; token < tokens; token++) {
+    for (let d = 0; d < dimensions; d++) {
+      pooled[d] += values[token * dimensions + d] / tokens;
+    }
+  }
+  return pooled;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
@@ -0,0 +1,149 @@
+/**
+ * Option Schemas
+ *
+ * Minimal schemas for validating declarative guardrail and engine options,
+ * reporting every problem with its path (e.g. guardrails[1].options.action).
+ */
+
+/**
+ * Schema of an option value
+ */
+export type OptionSchema =
+  | { type: 'string'; enum?: readonly string[] }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: OptionSchema }
+  | { type: 'record'; values: OptionSchema }
+  | { type: 'object'; properties: Record<string, OptionSchema>; required?: readonly string[]; additional?: boolean }
+  | { type: 'union'; of: readonly OptionSchema[] };
+
+/**
+ * Validation problem at a path of the document
+ */
+export interface OptionIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Options shared by all guardrails (GuardrailConfig)
+ */
+export const BASE_GUARDRAIL_OPTIONS: Record<string, OptionSchema> = {
+  name: { type: 'string' },
+  enabled: { type: 'boolean' },
+  version: { type: 'string' },
+  description: { type: 'string' },
+  priority: { type: 'number' },
+  cost: { type: 'string', enum: ['low', 'medium', 'high'] },
+  advisory: { type: 'boolean' },
+  weight: { type: 'number', min: 0 },
+  cacheable: { type: 'boolean' },
+};
+
+function describe(schema: OptionSchema): string {
+  switch (schema.type) {
+    case 'array':
+      return `${describe(schema.items)} array`;
+    case 'record':
+    case 'object':
+      return 'object';
+    case 'union':
+      return schema.of.map(describe).join(' or ');
+    default:
+      return schema.type;
+  }
+}
+
+function child(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a value against a schema, appending problems to issues
+ */
+export function validateOption(value: unknown, schema: OptionSchema, path: string, issues: OptionIssue[]): void {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: 'expected string' });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+      }
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path, message: 'expected number' });
+      } else if (schema.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: 'expected integer' });
+      } else if (schema.min !== undefined && value < schema.min) {
+        issues.push({ path, message: `must be at least ${schema.min}` });
+      } else if (schema.max !== undefined && value > schema.max) {
+        issues.push({ path, message: `must be at most ${schema.max}` });
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: 'expected boolean' });
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected ${describe(schema)}` });
+        return;
+      }
+      value.forEach((item, index) => validateOption(item, schema.items, `${path}[${index}]`, issues));
+      return;
+
+    case 'record':
+      if (!isObject(value)) {
+        issues.push({ path, message: 'expected object' });
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        validateOption(item, schema.values, child(path, key), issues);
+      }
+      return;
+
+    case 'object':
+      if (!isObject(value)) {
+        issues.push({ path, message: 'expected object' });
+        return;
+      }
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+          issues.push({ path: child(path, key), message: 'is required' });
+        }
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const property = Object.prototype.hasOwnProperty.call(schema.properties, key)
+          ? schema.properties[key]
+          : undefined;
+        if (property) {
+          validateOption(item, property, child(path, key), issues);
+        } else if (!schema.additional) {
+          issues.push({ path: child(path, key), message: 'unknown option' });
+        }
+      }
+      return;
+
+    case 'union': {
+      // Report the union as a whole rather than each alternative's problems
+      const matches = schema.of.some((alternative) => {
+        const alternativeIssues: OptionIssue[] = [];
+        validateOption(value, alternative, path, alternativeIssues);
+        return alternativeIssues.length === 0;
+      });
+      if (!matches) {
+        issues.push({ path, message: `expected ${describe(schema)}` });
+      }
+      return;
+    }
+  }
+}
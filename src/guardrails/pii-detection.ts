@@ -7,57 +7,116 @@
  * - Social Security Numbers (SSN)
  * - Credit card numbers
  * - Names (basic pattern matching)
+ *
+ * Entity packs add international and technical identifiers (IBAN, UK NINO,
+ * EU VAT, Aadhaar, PAN, passports, IP/MAC addresses, dates of birth), and
+ * custom detectors can be registered through the config.
+ *
+ * Matches are validated (Luhn, SSA allocation rules, phone numbering plans)
+ * and scored by confidence, which is raised by nearby keywords ("SSN",
+ * "call") and lowered by identifier keywords ("order", "invoice").
  */
 
 import { Guardrail, GuardrailConfig, GuardrailResult } from './base';
+import { getMessagesText } from './message-text';
+import { PIIVault } from './pii-vault';
+import { PIIDetectorDefinition, PIIEntityPack, PIIEntityPackName, PII_ENTITY_PACKS } from './pii-entities';
 
-interface PIIDetection {
+export interface PIIDetection {
   type: string;
   value: string;
   position: number;
   length: number;
+  /** Confidence that the match is real PII (0-1) */
+  confidence: number;
 }
 
 export interface PIIDetectionConfig extends GuardrailConfig {
+  /** Types to detect by name, from any pack (default: email, phone, ssn, creditCard) */
   detectTypes?: string[];
+  /** Entity packs whose types are all detected in addition to detectTypes */
+  packs?: Array<PIIEntityPackName | PIIEntityPack>;
+  /** Custom detectors, always enabled (a type here replaces a built-in one) */
+  detectors?: PIIDetectorDefinition[];
   action?: 'block' | 'redact' | 'mask' | 'allow';
   riskScores?: Record<string, number>;
+  /** Detections below this confidence are ignored (default: 0.5) */
+  minConfidence?: number;
+  /** Redact with reversible per-session placeholders (session from context.sessionId) */
+  vault?: PIIVault;
+}
+
+/**
+ * Characters before a match searched for context keywords
+ */
+const CONTEXT_WINDOW = 40;
+
+/**
+ * Words indicating a number is an identifier rather than PII
+ */
+const IDENTIFIER_CONTEXT = /(\b(order|invoice|ref|reference|tracking|sku|serial|ticket|transaction|txn|po|item|part|build|version)\b|#)/;
+
+function containsWord(text: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`).test(text);
 }
 
 export class PIIDetectionGuardrail extends Guardrail {
-  private patterns: Record<string, RegExp>;
+  private detectors: Record<string, PIIDetectorDefinition>;
   private detectTypes: string[];
   private action: 'block' | 'redact' | 'mask' | 'allow';
   private riskScores: Record<string, number>;
+  private minConfidence: number;
+  private vault: PIIVault | undefined;
 
   constructor(config: PIIDetectionConfig = {}) {
     super({
       name: 'PIIDetection',
       description: 'Detects personally identifiable information in text',
       version: '1.0.0',
+      cost: 'low',
+      // Vault tokens are per session
+      cacheable: !config.vault,
       ...config,
     });
 
-    this.patterns = {
-      email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-      phone: /(\+\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g,
-      ssn: /\b\d{3}-\d{2}-\d{4}\b/g,
-      creditCard: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
-      name: /\b[A-Z][a-z]+ [A-Z][a-z]+\b/g,
+    const packs = (config.packs || []).map((pack) => {
+      if (typeof pack !== 'string') {
+        return pack;
+      }
+      if (!PII_ENTITY_PACKS[pack]) {
+        throw new Error(`Unknown PII entity pack: ${pack}`);
+      }
+      return PII_ENTITY_PACKS[pack];
+    });
+
+    // Every built-in type can be enabled by name; packs and custom detectors enable themselves
+    this.detectors = {};
+    const register = (detector: PIIDetectorDefinition) => {
+      const flags = detector.pattern.flags.includes('g') ? detector.pattern.flags : detector.pattern.flags + 'g';
+      this.detectors[detector.type] = { ...detector, pattern: new RegExp(detector.pattern.source, flags) };
     };
+    Object.values(PII_ENTITY_PACKS).forEach((pack) => pack.detectors.forEach(register));
+    packs.forEach((pack) => pack.detectors.forEach(register));
+    (config.detectors || []).forEach(register);
 
-    this.detectTypes = config.detectTypes || ['email', 'phone', 'ssn', 'creditCard'];
+    this.detectTypes = Array.from(new Set([
+      ...(config.detectTypes || ['email', 'phone', 'ssn', 'creditCard']),
+      ...packs.flatMap((pack) => pack.detectors.map((d) => d.type)),
+      ...(config.detectors || []).map((d) => d.type),
+    ]));
     this.action = config.action || 'block';
-    this.riskScores = config.riskScores || {
-      email: 30,
-      phone: 40,
-      ssn: 90,
-      creditCard: 95,
-      name: 20,
-    };
+
+    const defaultRiskScores: Record<string, number> = {};
+    for (const [type, detector] of Object.entries(this.detectors)) {
+      defaultRiskScores[type] = detector.riskScore ?? 50;
+    }
+    this.riskScores = { ...defaultRiskScores, ...config.riskScores };
+    this.minConfidence = config.minConfidence ?? 0.5;
+    this.vault = config.vault;
   }
 
-  async evaluate(input: any, _context?: Record<string, any>): Promise<GuardrailResult> {
+  async evaluate(input: any, context?: Record<string, any>): Promise<GuardrailResult> {
     const text = this.extractText(input);
     const detections = this.detectPII(text);
 
@@ -71,12 +130,20 @@ export class PIIDetectionGuardrail extends Guardrail {
       });
     }
 
-    const maxRiskScore = Math.max(...detections.map((d) => this.riskScores[d.type] || 50));
+    // Scale each type's risk by how confident the detection is
+    const maxRiskScore = Math.max(
+      ...detections.map((d) => Math.round((this.riskScores[d.type] || 50) * d.confidence))
+    );
     const action = this.action;
     const passed = action === 'allow' || action === 'redact' || action === 'mask';
 
     const metadata: Record<string, any> = { detections };
-    if (action === 'redact') {
+    if (action === 'redact' && this.vault) {
+      const sessionId = typeof context?.sessionId === 'string' ? context.sessionId : 'default';
+      const tokenized = await this.vault.tokenize(sessionId, text, detections);
+      metadata.redactedText = tokenized.text;
+      metadata.tokens = tokenized.tokens;
+    } else if (action === 'redact') {
       metadata.redactedText = this.redactPII(text, detections);
     } else if (action === 'mask') {
       metadata.maskedText = this.maskPII(text, detections);
@@ -101,7 +168,7 @@ export class PIIDetectionGuardrail extends Guardrail {
     }
 
     if (input.messages && Array.isArray(input.messages)) {
-      return input.messages.map((m: any) => m.content || '').join(' ');
+      return getMessagesText(input.messages);
     }
 
     if (input.text) {
@@ -115,24 +182,88 @@ export class PIIDetectionGuardrail extends Guardrail {
     const detections: PIIDetection[] = [];
 
     for (const type of this.detectTypes) {
-      const pattern = this.patterns[type];
-      if (!pattern) continue;
+      const detector = this.detectors[type];
+      if (!detector) continue;
 
       // Reset regex lastIndex
+      const pattern = detector.pattern;
       pattern.lastIndex = 0;
 
       let match: RegExpExecArray | null;
       while ((match = pattern.exec(text)) !== null) {
+        // Step past empty matches, which would otherwise never advance
+        if (match[0] === '') {
+          pattern.lastIndex++;
+          continue;
+        }
+
+        // Ignore matches glued to a longer alphanumeric run
+        if (/[A-Za-z0-9]/.test(text[match.index - 1] ?? '')) continue;
+
+        const confidence = this.scoreMatch(detector, match[0], text, match.index);
+        if (confidence < this.minConfidence) continue;
+
         detections.push({
           type,
           value: match[0],
           position: match.index,
           length: match[0].length,
+          confidence,
         });
       }
     }
 
-    return detections;
+    return this.removeOverlaps(detections);
+  }
+
+  /**
+   * Keep the longest, then most confident, of overlapping detections
+   * (e.g. an Aadhaar or phone match within a card number), in text order
+   */
+  private removeOverlaps(detections: PIIDetection[]): PIIDetection[] {
+    const kept: PIIDetection[] = [];
+    const ranked = [...detections].sort(
+      (a, b) => b.length - a.length || b.confidence - a.confidence || a.position - b.position
+    );
+
+    for (const detection of ranked) {
+      const overlaps = kept.some(
+        (other) =>
+          detection.position < other.position + other.length && other.position < detection.position + detection.length
+      );
+      if (!overlaps) {
+        kept.push(detection);
+      }
+    }
+
+    return kept.sort((a, b) => a.position - b.position);
+  }
+
+  /**
+   * Validate a match and adjust its confidence by the preceding text
+   */
+  private scoreMatch(detector: PIIDetectorDefinition, value: string, text: string, position: number): number {
+    const validation = detector.validate ? detector.validate(value) : true;
+    let confidence = typeof validation === 'number'
+      ? validation
+      : validation ? detector.confidence ?? 0.8 : 0;
+    if (confidence <= 0) {
+      return 0;
+    }
+
+    const before = text.slice(Math.max(0, position - CONTEXT_WINDOW), position).toLowerCase();
+    const hasContext = (detector.contextKeywords || []).some((keyword) => containsWord(before, keyword.toLowerCase()));
+    if (detector.requiresContext && !hasContext) {
+      return 0;
+    }
+    if (hasContext) {
+      confidence += 0.15;
+    }
+    if (detector.numeric && IDENTIFIER_CONTEXT.test(before)) {
+      confidence -= 0.4;
+    }
+
+    return Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100;
   }
 
   private redactPII(text: string, detections: PIIDetection[]): string {
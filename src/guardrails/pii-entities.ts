@@ -0,0 +1,197 @@
+/**
+ * PII Entities
+ *
+ * Built-in PII detectors and the entity packs that group them by region
+ */
+
+import {
+  validateAadhaar,
+  validateCreditCard,
+  validateDateOfBirth,
+  validateEUVat,
+  validateIBAN,
+  validateIPv4,
+  validateIPv6,
+  validateMacAddress,
+  validatePAN,
+  validatePhoneNumber,
+  validateSSN,
+  validateUKNino,
+} from './pii-validators';
+
+/**
+ * Pattern and validation for a PII type
+ */
+export interface PIIDetectorDefinition {
+  /** PII type reported in detections (e.g. 'iban') */
+  type: string;
+  /** Candidate pattern (the global flag is added if missing) */
+  pattern: RegExp;
+  /**
+   * Confirm a match: return a confidence (0-1), or a boolean to accept with
+   * the base confidence or reject (default: accept every match)
+   */
+  validate?: (value: string) => number | boolean;
+  /** Confidence of accepted matches when validate does not return one (default: 0.8) */
+  confidence?: number;
+  /** Nearby words that raise confidence */
+  contextKeywords?: string[];
+  /** Only report matches preceded by a context keyword (default: false) */
+  requiresContext?: boolean;
+  /** Lower confidence near identifier words such as "order" or "invoice" (default: false) */
+  numeric?: boolean;
+  /** Default risk score (default: 50) */
+  riskScore?: number;
+}
+
+/**
+ * Named group of detectors
+ */
+export interface PIIEntityPack {
+  name: string;
+  detectors: PIIDetectorDefinition[];
+}
+
+/**
+ * Names of the built-in entity packs
+ */
+export type PIIEntityPackName = 'core' | 'europe' | 'india' | 'network' | 'identity';
+
+const email: PIIDetectorDefinition = {
+  type: 'email',
+  pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
+  confidence: 0.95,
+  contextKeywords: ['email', 'e-mail', 'mail', 'contact'],
+  riskScore: 30,
+};
+
+const phone: PIIDetectorDefinition = {
+  type: 'phone',
+  pattern: /(\+\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g,
+  validate: validatePhoneNumber,
+  contextKeywords: ['phone', 'call', 'tel', 'mobile', 'cell', 'fax', 'contact', 'text', 'whatsapp'],
+  numeric: true,
+  riskScore: 40,
+};
+
+const ssn: PIIDetectorDefinition = {
+  type: 'ssn',
+  pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  validate: validateSSN,
+  contextKeywords: ['ssn', 'social security', 'social sec', 'tax id', 'taxpayer'],
+  numeric: true,
+  riskScore: 90,
+};
+
+const creditCard: PIIDetectorDefinition = {
+  type: 'creditCard',
+  // 4-6-5 (Amex) or 4-4-4 followed by 1-7 digits (13-19 digit cards)
+  pattern: /\b(?:\d{4}[-\s]?\d{6}[-\s]?\d{5}|\d{4}(?:[-\s]?\d{4}){2}[-\s]?\d{1,7})\b/g,
+  validate: validateCreditCard,
+  contextKeywords: ['card', 'credit', 'debit', 'visa', 'mastercard', 'amex', 'payment', 'cc'],
+  numeric: true,
+  riskScore: 95,
+};
+
+const name: PIIDetectorDefinition = {
+  type: 'name',
+  pattern: /\b[A-Z][a-z]+ [A-Z][a-z]+\b/g,
+  confidence: 0.5,
+  contextKeywords: ['name', 'mr', 'mrs', 'ms', 'dr'],
+  riskScore: 20,
+};
+
+const iban: PIIDetectorDefinition = {
+  type: 'iban',
+  pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  validate: validateIBAN,
+  contextKeywords: ['iban', 'account', 'bank', 'transfer', 'sepa'],
+  riskScore: 85,
+};
+
+const ukNino: PIIDetectorDefinition = {
+  type: 'ukNino',
+  pattern: /\b[A-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  validate: validateUKNino,
+  contextKeywords: ['nino', 'national insurance', 'ni number'],
+  riskScore: 80,
+};
+
+const euVat: PIIDetectorDefinition = {
+  type: 'euVat',
+  pattern: /\b(?:AT|BE|BG|CY|CZ|DE|DK|EE|EL|ES|FI|FR|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK|XI) ?[A-Z0-9+*]{8,12}\b/g,
+  validate: validateEUVat,
+  contextKeywords: ['vat', 'tax', 'ust-idnr', 'tva', 'iva', 'btw'],
+  riskScore: 40,
+};
+
+const aadhaar: PIIDetectorDefinition = {
+  type: 'aadhaar',
+  pattern: /\b[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}\b/g,
+  validate: validateAadhaar,
+  contextKeywords: ['aadhaar', 'aadhar', 'uid', 'uidai'],
+  numeric: true,
+  riskScore: 90,
+};
+
+const pan: PIIDetectorDefinition = {
+  type: 'pan',
+  pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g,
+  validate: validatePAN,
+  contextKeywords: ['pan', 'permanent account', 'income tax'],
+  riskScore: 80,
+};
+
+const passport: PIIDetectorDefinition = {
+  type: 'passport',
+  pattern: /\b[A-Z]{0,2}\d{6,9}\b/g,
+  confidence: 0.7,
+  contextKeywords: ['passport', 'travel document'],
+  requiresContext: true,
+  riskScore: 85,
+};
+
+const ipv4: PIIDetectorDefinition = {
+  type: 'ipv4',
+  pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+  validate: validateIPv4,
+  contextKeywords: ['ip', 'address', 'host', 'client'],
+  numeric: true,
+  riskScore: 20,
+};
+
+const ipv6: PIIDetectorDefinition = {
+  type: 'ipv6',
+  pattern: /(?<![A-Za-z0-9:])(?:[A-Fa-f0-9]{0,4}:){2,7}[A-Fa-f0-9]{0,4}(?![A-Za-z0-9:])/g,
+  validate: validateIPv6,
+  contextKeywords: ['ip', 'ipv6', 'address', 'host', 'client'],
+  riskScore: 20,
+};
+
+const macAddress: PIIDetectorDefinition = {
+  type: 'macAddress',
+  pattern: /\b[0-9A-Fa-f]{2}([:-])(?:[0-9A-Fa-f]{2}\1){4}[0-9A-Fa-f]{2}\b/g,
+  validate: validateMacAddress,
+  contextKeywords: ['mac', 'hardware', 'device', 'ethernet', 'wifi'],
+  riskScore: 15,
+};
+
+const dateOfBirth: PIIDetectorDefinition = {
+  type: 'dateOfBirth',
+  pattern: /\b(?:\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{4})\b/g,
+  validate: validateDateOfBirth,
+  contextKeywords: ['dob', 'd.o.b', 'born', 'birth', 'birthday', 'date of birth'],
+  requiresContext: true,
+  riskScore: 50,
+};
+
+/**
+ * Built-in entity packs
+ */
+export const PII_ENTITY_PACKS: Record<PIIEntityPackName, PIIEntityPack> = {
+  core: { name: 'core', detectors: [email, phone, ssn, creditCard, name] },
+  europe: { name: 'europe', detectors: [iban, ukNino, euVat] },
+  india: { name: 'india', detectors: [aadhaar, pan] },
+  network: { name: 'network', detectors: [ipv4, ipv6, macAddress] },
+  identity: { name: 'identity', detectors: [passport, dateOfBirth] },
+};
@@ -0,0 +1,296 @@
+/**
+ * PII Validators
+ *
+ * Checksum and structural validation used to confirm pattern matches
+ * before they are reported as PII
+ */
+
+import { isIPv6 } from 'net';
+
+/**
+ * Strip everything but digits
+ */
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Luhn (mod 10) checksum used by payment card numbers
+ */
+export function luhnCheck(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length === 0) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Issuer prefixes of the major card networks (Visa, Mastercard, Amex,
+ * Discover, Diners, JCB, UnionPay)
+ */
+const CARD_ISSUER_PATTERN = /^(4|5[1-5]|2(2[2-9]|[3-6]\d|7[01]|720)|3[47]|6011|64[4-9]|65|3(0[0-5]|[68])|35(2[89]|[3-8]\d)|62)/;
+
+/**
+ * Validate a payment card number
+ * @returns Confidence: 0.9 for a known issuer, 0.6 for other Luhn-valid numbers, 0 otherwise
+ */
+export function validateCreditCard(value: string): number {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19 || !luhnCheck(digits)) {
+    return 0;
+  }
+  return CARD_ISSUER_PATTERN.test(digits) ? 0.9 : 0.6;
+}
+
+/**
+ * Validate a US Social Security Number against SSA allocation rules:
+ * area 001-899 except 666, group 01-99, serial 0001-9999
+ * @returns Confidence: 0.85 if valid, 0 otherwise
+ */
+export function validateSSN(value: string): number {
+  const digits = digitsOf(value);
+  if (digits.length !== 9) {
+    return 0;
+  }
+
+  const area = Number(digits.slice(0, 3));
+  const group = Number(digits.slice(3, 5));
+  const serial = Number(digits.slice(5));
+
+  if (area === 0 || area === 666 || area >= 900 || group === 0 || serial === 0) {
+    return 0;
+  }
+  return 0.85;
+}
+
+/**
+ * Check a 10-digit NANP number: area code and exchange are NXX
+ * (N = 2-9) and neither is an N11 service code
+ */
+function isValidNanpNumber(digits: string): boolean {
+  return /^[2-9]\d{2}[2-9]\d{6}$/.test(digits)
+    && digits.slice(1, 3) !== '11'
+    && digits.slice(4, 6) !== '11';
+}
+
+/**
+ * Validate a phone number
+ *
+ * NANP numbers (optionally prefixed with 1 or +1) must have valid area
+ * code and exchange; other numbers need an explicit +country code and
+ * 8-15 digits (E.164). Bare digit runs without separators are scored
+ * lower, as they are often order or account numbers.
+ * @returns Confidence: 0.8 for formatted numbers, 0.5 for bare digit runs, 0 if invalid
+ */
+export function validatePhoneNumber(value: string): number {
+  const digits = digitsOf(value);
+  const international = value.trim().startsWith('+');
+
+  let valid: boolean;
+  if (digits.length === 10) {
+    valid = !international && isValidNanpNumber(digits);
+  } else if (digits.length === 11 && digits.startsWith('1')) {
+    valid = isValidNanpNumber(digits.slice(1));
+  } else {
+    valid = international && digits.length >= 8 && digits.length <= 15;
+  }
+
+  if (!valid) {
+    return 0;
+  }
+  return /[-.\s()+]/.test(value.trim()) ? 0.8 : 0.5;
+}
+
+/**
+ * IBAN lengths by country (SEPA members and other common IBAN countries)
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CY: 28,
+  CZ: 24, DE: 22, DK: 18, EE: 20, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GI: 23,
+  GL: 18, GR: 27, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, LI: 21, LT: 20,
+  LU: 20, LV: 21, MC: 27, ME: 22, MK: 19, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25,
+  RO: 24, RS: 22, SA: 24, SE: 24, SI: 19, SK: 24, SM: 27, TR: 26, UA: 29, VA: 22,
+  XK: 20,
+};
+
+/**
+ * Validate an IBAN: known country length and ISO 7064 mod-97 checksum
+ * @returns Confidence: 0.95 if valid, 0 otherwise
+ */
+export function validateIBAN(value: string): number {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) {
+    return 0;
+  }
+
+  // Move the country code and check digits to the end, letters become 10-35
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1 ? 0.95 : 0;
+}
+
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff checksum used by Aadhaar numbers
+ */
+export function verhoeffCheck(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length === 0) {
+    return false;
+  }
+
+  let check = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[i % 8][digit]];
+  }
+  return check === 0;
+}
+
+/**
+ * Validate an Aadhaar number: 12 digits, not starting with 0 or 1, Verhoeff checksum
+ * @returns Confidence: 0.85 if valid, 0 otherwise
+ */
+export function validateAadhaar(value: string): number {
+  const digits = digitsOf(value);
+  return /^[2-9]\d{11}$/.test(digits) && verhoeffCheck(digits) ? 0.85 : 0;
+}
+
+/**
+ * Validate an Indian PAN: AAAAA9999A with a valid holder type in the fourth position
+ * @returns Confidence: 0.8 if valid, 0 otherwise
+ */
+export function validatePAN(value: string): number {
+  return /^[A-Z]{3}[PCHFATBLJG][A-Z]\d{4}[A-Z]$/.test(value) ? 0.8 : 0;
+}
+
+/**
+ * Validate a UK National Insurance number (HMRC prefix rules)
+ * @returns Confidence: 0.85 if valid, 0 otherwise
+ */
+export function validateUKNino(value: string): number {
+  const nino = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(nino)) {
+    return 0;
+  }
+  return ['BG', 'GB', 'NK', 'KN', 'TN', 'NT', 'ZZ'].includes(nino.slice(0, 2)) ? 0 : 0.85;
+}
+
+/**
+ * VAT identification number formats by EU member state (plus XI for Northern Ireland)
+ */
+const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/, BE: /^[01]\d{9}$/, BG: /^\d{9,10}$/, CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/, DE: /^\d{9}$/, DK: /^\d{8}$/, EE: /^\d{9}$/, EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/, FI: /^\d{8}$/, FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/, HU: /^\d{8}$/, IE: /^\d[A-Z0-9+*]\d{5}[A-Z]{1,2}$/, IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/, LU: /^\d{8}$/, LV: /^\d{11}$/, MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/, PL: /^\d{10}$/, PT: /^\d{9}$/, RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/, SI: /^\d{8}$/, SK: /^\d{10}$/, XI: /^(\d{9}|\d{12})$/,
+};
+
+/**
+ * Validate an EU VAT identification number against its member state format
+ * @returns Confidence: 0.7 if valid, 0 otherwise
+ */
+export function validateEUVat(value: string): number {
+  const vat = value.replace(/[\s.-]/g, '').toUpperCase();
+  const format = EU_VAT_FORMATS[vat.slice(0, 2)];
+  return format && format.test(vat.slice(2)) ? 0.7 : 0;
+}
+
+/**
+ * Validate a dotted IPv4 address (octets 0-255, no leading zeros)
+ * @returns Confidence: 0.9 if valid, 0 otherwise
+ */
+export function validateIPv4(value: string): number {
+  const octets = value.split('.');
+  const valid = octets.length === 4
+    && octets.every(o => /^(0|[1-9]\d{0,2})$/.test(o) && Number(o) <= 255);
+  return valid ? 0.9 : 0;
+}
+
+/**
+ * Validate an IPv6 address
+ * @returns Confidence: 0.9 if valid, 0 otherwise
+ */
+export function validateIPv6(value: string): number {
+  return isIPv6(value) ? 0.9 : 0;
+}
+
+/**
+ * Validate a MAC address, ignoring the all-zero and broadcast addresses
+ * @returns Confidence: 0.85 if valid, 0 otherwise
+ */
+export function validateMacAddress(value: string): number {
+  const hex = value.replace(/[:-]/g, '').toLowerCase();
+  if (!/^[0-9a-f]{12}$/.test(hex) || hex === '000000000000' || hex === 'ffffffffffff') {
+    return 0;
+  }
+  return 0.85;
+}
+
+/**
+ * Validate a date of birth (YYYY-MM-DD, DD/MM/YYYY or MM/DD/YYYY):
+ * a real calendar date within the last 120 years
+ * @returns Confidence: 0.6 if valid, 0 otherwise
+ */
+export function validateDateOfBirth(value: string): number {
+  const parts = value.split(/[/.-]/).map(Number);
+  const candidates = parts[0] > 31
+    ? [[parts[0], parts[1], parts[2]]]
+    : [[parts[2], parts[1], parts[0]], [parts[2], parts[0], parts[1]]];
+
+  const now = new Date();
+  const valid = candidates.some(([year, month, day]) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year
+      && date.getUTCMonth() === month - 1
+      && date.getUTCDate() === day
+      && date.getTime() <= now.getTime()
+      && year >= now.getUTCFullYear() - 120;
+  });
+  return valid ? 0.6 : 0;
+}
@@ -0,0 +1,324 @@
+/**
+ * PII Vault
+ *
+ * Reversible PII tokenization: detected values are replaced with stable
+ * per-session placeholders (e.g. "[EMAIL_1]") and kept encrypted in a
+ * pluggable store, so model output and tool parameters can be restored
+ * when policy allows.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+
+/**
+ * Detected PII value to tokenize
+ */
+export interface PIISpan {
+  type: string;
+  value: string;
+  position: number;
+  length: number;
+}
+
+/**
+ * Encrypted vault entry (never contains the plaintext value)
+ */
+export interface PIIVaultEntry {
+  /** Placeholder, e.g. "[EMAIL_1]" */
+  token: string;
+  /** PII type, e.g. "email" */
+  type: string;
+  /** Keyed hash of type and value, used to reuse tokens within a session */
+  fingerprint: string;
+  /** base64 AES-256-GCM payload (IV, auth tag, ciphertext) */
+  ciphertext: string;
+  createdAt: string;
+}
+
+/**
+ * Storage backend for vault entries
+ */
+export interface PIIVaultStore {
+  /** Get an entry by token */
+  get(sessionId: string, token: string): Promise<PIIVaultEntry | undefined>;
+  /** Get an entry by value fingerprint */
+  findByFingerprint(sessionId: string, fingerprint: string): Promise<PIIVaultEntry | undefined>;
+  /** Count entries of a PII type */
+  count(sessionId: string, type: string): Promise<number>;
+  /** Store an entry */
+  set(sessionId: string, entry: PIIVaultEntry): Promise<void>;
+  /** Remove all entries of a session */
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+/**
+ * Where restored values are sent
+ */
+export type PIIDetokenizeTarget = 'output' | 'toolCalls';
+
+/**
+ * PII vault configuration
+ */
+export interface PIIVaultConfig {
+  /**
+   * Encryption key: 32 bytes, or a secret string hashed to 32 bytes
+   * (default: random per process, so tokens cannot outlive the process)
+   */
+  key?: Buffer | string;
+  /** Entry store (default: InMemoryPIIVaultStore) */
+  store?: PIIVaultStore;
+  /**
+   * PII types that may be restored per target: true for all, or a list of
+   * types (default: nothing is restored)
+   */
+  detokenize?: Partial<Record<PIIDetokenizeTarget, boolean | string[]>>;
+}
+
+/**
+ * Result of tokenizing text
+ */
+export interface PIITokenizeResult {
+  text: string;
+  /** Placeholders used, in order of first appearance */
+  tokens: string[];
+}
+
+/**
+ * Result of restoring text
+ */
+export interface PIIDetokenizeResult<T = string> {
+  value: T;
+  /** Placeholders that were restored */
+  restored: string[];
+}
+
+/**
+ * Matches placeholders produced by the vault
+ */
+const TOKEN_PATTERN = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+
+/**
+ * In-memory vault store
+ */
+export class InMemoryPIIVaultStore implements PIIVaultStore {
+  private sessions: Map<string, Map<string, PIIVaultEntry>> = new Map();
+
+  get(sessionId: string, token: string): Promise<PIIVaultEntry | undefined> {
+    return Promise.resolve(this.sessions.get(sessionId)?.get(token));
+  }
+
+  findByFingerprint(sessionId: string, fingerprint: string): Promise<PIIVaultEntry | undefined> {
+    const entries = Array.from(this.sessions.get(sessionId)?.values() ?? []);
+    return Promise.resolve(entries.find((entry) => entry.fingerprint === fingerprint));
+  }
+
+  count(sessionId: string, type: string): Promise<number> {
+    const entries = Array.from(this.sessions.get(sessionId)?.values() ?? []);
+    return Promise.resolve(entries.filter((entry) => entry.type === type).length);
+  }
+
+  set(sessionId: string, entry: PIIVaultEntry): Promise<void> {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = new Map();
+      this.sessions.set(sessionId, session);
+    }
+    session.set(entry.token, entry);
+    return Promise.resolve();
+  }
+
+  deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Reversible PII tokenization vault
+ */
+export class PIIVault {
+  private readonly key: Buffer;
+  private readonly store: PIIVaultStore;
+  private readonly detokenizePolicy: Partial<Record<PIIDetokenizeTarget, boolean | string[]>>;
+  private writeQueue: Promise<void>;
+
+  constructor(config: PIIVaultConfig = {}) {
+    this.key = this.resolveKey(config.key);
+    this.store = config.store || new InMemoryPIIVaultStore();
+    this.detokenizePolicy = config.detokenize || {};
+    this.writeQueue = Promise.resolve();
+  }
+
+  /**
+   * Replace detected values with session placeholders
+   *
+   * The same value always maps to the same placeholder within a session.
+   */
+  async tokenize(sessionId: string, text: string, spans: PIISpan[]): Promise<PIITokenizeResult> {
+    const tokens: string[] = [];
+    const replacements: Array<{ span: PIISpan; token: string }> = [];
+    let end = 0;
+
+    for (const span of [...spans].sort((a, b) => a.position - b.position || b.length - a.length)) {
+      // Skip spans inside one already tokenized (e.g. a phone match within a card number)
+      if (span.position < end) {
+        continue;
+      }
+      end = span.position + span.length;
+
+      const token = await this.getOrCreateToken(sessionId, span.type, span.value);
+      replacements.push({ span, token });
+      if (!tokens.includes(token)) {
+        tokens.push(token);
+      }
+    }
+
+    // Replace in reverse to maintain indices
+    let tokenized = text;
+    for (const { span, token } of replacements.reverse()) {
+      tokenized =
+        tokenized.substring(0, span.position) + token + tokenized.substring(span.position + span.length);
+    }
+
+    return { text: tokenized, tokens };
+  }
+
+  /**
+   * Restore placeholders in text that the policy allows for the target
+   */
+  async detokenize(
+    sessionId: string,
+    text: string,
+    target: PIIDetokenizeTarget
+  ): Promise<PIIDetokenizeResult> {
+    const restored: string[] = [];
+    const values = new Map<string, string>();
+
+    for (const token of new Set(text.match(TOKEN_PATTERN) ?? [])) {
+      const entry = await this.store.get(sessionId, token);
+      if (entry && this.isAllowed(entry.type, target)) {
+        values.set(token, this.decrypt(entry.ciphertext));
+        restored.push(token);
+      }
+    }
+
+    const value = restored.length === 0
+      ? text
+      : text.replace(TOKEN_PATTERN, token => values.get(token) ?? token);
+
+    return { value, restored };
+  }
+
+  /**
+   * Restore placeholders in every string of a parameter object
+   */
+  async detokenizeParameters<T>(
+    sessionId: string,
+    parameters: T,
+    target: PIIDetokenizeTarget = 'toolCalls'
+  ): Promise<PIIDetokenizeResult<T>> {
+    const restored = new Set<string>();
+
+    const walk = async (value: unknown): Promise<unknown> => {
+      if (typeof value === 'string') {
+        const result = await this.detokenize(sessionId, value, target);
+        result.restored.forEach(token => restored.add(token));
+        return result.value;
+      }
+      if (Array.isArray(value)) {
+        const items: unknown[] = [];
+        for (const item of value) {
+          items.push(await walk(item));
+        }
+        return items;
+      }
+      if (value && typeof value === 'object') {
+        const entries: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+          entries[key] = await walk(item);
+        }
+        return entries;
+      }
+      return value;
+    };
+
+    return { value: (await walk(parameters)) as T, restored: Array.from(restored) };
+  }
+
+  /**
+   * Forget all placeholders of a session
+   */
+  async clearSession(sessionId: string): Promise<void> {
+    await this.enqueue(() => this.store.deleteSession(sessionId));
+  }
+
+  private async getOrCreateToken(sessionId: string, type: string, value: string): Promise<string> {
+    const fingerprint = createHmac('sha256', this.key).update(`${type}:${value}`).digest('hex');
+    let token = '';
+
+    // Serialize lookups and inserts so concurrent requests agree on placeholders
+    await this.enqueue(async () => {
+      const existing = await this.store.findByFingerprint(sessionId, fingerprint);
+      if (existing) {
+        token = existing.token;
+        return;
+      }
+
+      const index = (await this.store.count(sessionId, type)) + 1;
+      token = `[${this.formatType(type)}_${index}]`;
+      await this.store.set(sessionId, {
+        token,
+        type,
+        fingerprint,
+        ciphertext: this.encrypt(value),
+        createdAt: new Date().toISOString(),
+      });
+    });
+
+    return token;
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(operation);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private isAllowed(type: string, target: PIIDetokenizeTarget): boolean {
+    const policy = this.detokenizePolicy[target];
+    return Array.isArray(policy) ? policy.includes(type) : policy === true;
+  }
+
+  /**
+   * creditCard -> CREDIT_CARD
+   */
+  private formatType(type: string): string {
+    return type.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+  }
+
+  private encrypt(value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private decrypt(payload: string): string {
+    const data = Buffer.from(payload, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', this.key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  }
+
+  private resolveKey(key: Buffer | string | undefined): Buffer {
+    if (key === undefined) {
+      return randomBytes(32);
+    }
+    if (typeof key === 'string') {
+      return createHash('sha256').update(key).digest();
+    }
+    if (key.length !== 32) {
+      throw new Error('PIIVault key must be 32 bytes');
+    }
+    return key;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Guardrail Profiles
+ *
+ * Named guardrail subsets with their own option overrides and engine
+ * settings, selected per request by rules over the execution context
+ * (tenantId, agentId, channel, locale, ...). Profiles can inherit from
+ * another profile and change only what differs.
+ */
+
+import type { GuardrailConfig } from './base';
+import type { GuardrailEngineOptions } from './engine';
+import { OptionIssue } from './option-schema';
+
+/**
+ * Engine settings a profile can change
+ */
+export type GuardrailProfileEngineOptions = Omit<
+  GuardrailEngineOptions,
+  'cache' | 'profiles' | 'profileRules' | 'defaultProfile'
+>;
+
+/**
+ * Named guardrail profile
+ */
+export interface GuardrailProfile {
+  /** Profile whose settings apply unless this one changes them */
+  extends?: string;
+  /** Guardrails to run, by name (default: inherited, or all registered guardrails) */
+  guardrails?: string[];
+  /** Guardrails removed from the inherited or listed set */
+  exclude?: string[];
+  /**
+   * Options per guardrail name, merged over inherited overrides,
+   * e.g. `{ PIIDetection: { minConfidence: 0.9 } }`
+   */
+  overrides?: Record<string, Partial<GuardrailConfig>>;
+  /** Engine settings, e.g. a stricter `riskThreshold` */
+  engine?: GuardrailProfileEngineOptions;
+}
+
+/**
+ * Rule selecting a profile from the execution context
+ *
+ * Every field in `match` must equal the context field (one of the values
+ * for arrays); `*` in a value matches any characters, e.g. `locale: 'de-*'`.
+ */
+export interface GuardrailProfileRule {
+  match: Record<string, string | string[]>;
+  profile: string;
+}
+
+/**
+ * Profile with its inheritance chain applied
+ */
+export interface ResolvedGuardrailProfile {
+  name: string;
+  /** Guardrail names to run; undefined runs all registered guardrails */
+  guardrails: string[] | undefined;
+  exclude: string[];
+  overrides: Record<string, Partial<GuardrailConfig>>;
+  engine: GuardrailProfileEngineOptions;
+}
+
+/**
+ * Check profile inheritance and rule references; guardrail names are
+ * checked too when `guardrailNames` is given
+ */
+export function validateGuardrailProfiles(
+  options: Pick<GuardrailEngineOptions, 'profiles' | 'profileRules' | 'defaultProfile'>,
+  guardrailNames?: string[]
+): OptionIssue[] {
+  const profiles = options.profiles ?? {};
+  const issues: OptionIssue[] = [];
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (profile.extends !== undefined && !hasProfile(profiles, profile.extends)) {
+      issues.push({ path: `profiles.${name}.extends`, message: `unknown profile "${profile.extends}"` });
+    } else if (inheritsFromItself(profiles, name)) {
+      issues.push({ path: `profiles.${name}.extends`, message: 'circular profile inheritance' });
+    }
+
+    if (guardrailNames) {
+      const references: Array<[string, string[]]> = [
+        ['guardrails', profile.guardrails ?? []],
+        ['exclude', profile.exclude ?? []],
+      ];
+      for (const [field, names] of references) {
+        names.forEach((guardrail, index) => {
+          if (!guardrailNames.includes(guardrail)) {
+            issues.push({ path: `profiles.${name}.${field}[${index}]`, message: `unknown guardrail "${guardrail}"` });
+          }
+        });
+      }
+      for (const guardrail of Object.keys(profile.overrides ?? {})) {
+        if (!guardrailNames.includes(guardrail)) {
+          issues.push({ path: `profiles.${name}.overrides.${guardrail}`, message: `unknown guardrail "${guardrail}"` });
+        }
+      }
+    }
+  }
+
+  (options.profileRules ?? []).forEach((rule, index) => {
+    if (!hasProfile(profiles, rule.profile)) {
+      issues.push({ path: `profileRules[${index}].profile`, message: `unknown profile "${rule.profile}"` });
+    }
+  });
+
+  if (options.defaultProfile !== undefined && !hasProfile(profiles, options.defaultProfile)) {
+    issues.push({ path: 'defaultProfile', message: `unknown profile "${options.defaultProfile}"` });
+  }
+
+  return issues;
+}
+
+/**
+ * Apply a profile's inheritance chain, base profile first
+ */
+export function resolveGuardrailProfile(
+  profiles: Record<string, GuardrailProfile>,
+  name: string
+): ResolvedGuardrailProfile {
+  const chain = inheritanceChain(profiles, name);
+  if (!chain) {
+    throw new Error(`Guardrail profile "${name}" is unknown or inherits from an unknown or circular profile`);
+  }
+
+  const resolved: ResolvedGuardrailProfile = { name, guardrails: undefined, exclude: [], overrides: {}, engine: {} };
+  for (const profile of chain) {
+    if (profile.guardrails) {
+      resolved.guardrails = [...profile.guardrails];
+    }
+    resolved.exclude.push(...(profile.exclude ?? []));
+    for (const [guardrail, overrides] of Object.entries(profile.overrides ?? {})) {
+      resolved.overrides[guardrail] = { ...resolved.overrides[guardrail], ...overrides };
+    }
+    resolved.engine = { ...resolved.engine, ...profile.engine };
+  }
+  return resolved;
+}
+
+/**
+ * Profile of the first rule matching the context
+ */
+export function selectGuardrailProfile(
+  rules: GuardrailProfileRule[],
+  context: Record<string, any>
+): string | undefined {
+  const rule = rules.find((candidate) =>
+    Object.entries(candidate.match).every(([field, expected]) => {
+      const actual = context[field];
+      if (actual === undefined || actual === null) {
+        return false;
+      }
+      const values = Array.isArray(expected) ? expected : [expected];
+      return values.some((value) => matchesValue(String(actual), value));
+    })
+  );
+  return rule?.profile;
+}
+
+function hasProfile(profiles: Record<string, GuardrailProfile>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(profiles, name);
+}
+
+function inheritsFromItself(profiles: Record<string, GuardrailProfile>, name: string): boolean {
+  const visited = new Set<string>();
+  let current: string | undefined = name;
+
+  while (current !== undefined && hasProfile(profiles, current)) {
+    if (visited.has(current)) {
+      return current === name;
+    }
+    visited.add(current);
+    current = profiles[current].extends;
+  }
+  return false;
+}
+
+/**
+ * Profiles from the root ancestor to `name`; undefined for unknown or circular chains
+ */
+function inheritanceChain(
+  profiles: Record<string, GuardrailProfile>,
+  name: string
+): GuardrailProfile[] | undefined {
+  const chain: GuardrailProfile[] = [];
+  const visited = new Set<string>();
+  let current: string | undefined = name;
+
+  while (current !== undefined) {
+    if (visited.has(current) || !hasProfile(profiles, current)) {
+      return undefined;
+    }
+    visited.add(current);
+    const profile: GuardrailProfile = profiles[current];
+    chain.unshift(profile);
+    current = profile.extends;
+  }
+  return chain;
+}
+
+function matchesValue(actual: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return actual === pattern;
+  }
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(actual);
+}
@@ -7,34 +7,104 @@
  * - System prompt leakage attempts
  * - Jailbreak patterns (DAN, etc.)
  * - Encoding-based attacks
+ *
+ * Conversations are analyzed per message: matches are weighted by the role
+ * that carried them (tool results highest, since they hold third-party
+ * content), and risk accumulates across turns of the session named by
+ * `context.sessionId`.
+ *
+ * Patterns run on the raw text and on normalized forms (invisible characters
+ * removed, confusables folded, encodings decoded, leetspeak undone), and each
+ * detection reports the normalization that revealed it. An optional local
+ * classifier adds model-based detections alongside the patterns.
  */
 
+import { createHash } from 'crypto';
 import { Guardrail, GuardrailConfig, GuardrailResult } from './base';
+import { TextClassifier } from './onnx-classifier';
+import { TEXT_NORMALIZATIONS, TextNormalization, normalizeText } from './text-normalization';
 
 interface InjectionDetection {
   type: string;
   pattern: string;
   match: string;
   confidence: number;
+  /** Index of the message in `input.messages` (0 for plain text) */
+  messageIndex: number;
+  /** Role of the message ('tool' for tool results) */
+  role: string;
+  /** Normalization step whose output matched (absent for raw matches) */
+  revealedBy?: TextNormalization;
 }
 
 export interface PromptInjectionConfig extends GuardrailConfig {
   action?: 'block' | 'transform' | 'allow';
   sensitivity?: 'low' | 'medium' | 'high';
+  /**
+   * Multipliers applied per message role to the match count and risk score
+   * (default: system 0.5, user 1, assistant 1.2, tool 1.5)
+   */
+  roleWeights?: Record<string, number>;
+  /** Cumulative risk at which a session is flagged (default: 150) */
+  sessionRiskThreshold?: number;
+  /**
+   * Normalize text before matching: true for every step, false for raw
+   * matching only, or a list of steps (default: true)
+   */
+  normalize?: boolean | TextNormalization[];
+  /**
+   * Local classifier scoring each message; labels named after detection
+   * types (e.g. 'instructionInjection', 'jailbreak') count as detections
+   */
+  classifier?: TextClassifier;
+  /** Minimum classifier probability for a detection (default: 0.5) */
+  classifierThreshold?: number;
 }
 
+/**
+ * Text analyzed as one unit, with the role that carried it
+ */
+interface MessageText {
+  index: number;
+  role: string;
+  text: string;
+}
+
+/**
+ * Risk accumulated by a session
+ */
+interface SessionRisk {
+  risk: number;
+  /** Fingerprints of messages already counted */
+  seen: Set<string>;
+}
+
+/**
+ * Upper bound on tracked sessions; the oldest session is dropped beyond it
+ */
+const MAX_TRACKED_SESSIONS = 1000;
+
 export class PromptInjectionGuardrail extends Guardrail {
   private action: 'block' | 'transform' | 'allow';
   private sensitivity: 'low' | 'medium' | 'high';
   private patterns: Record<string, RegExp[]>;
   private riskScores: Record<string, number>;
   private thresholds: Record<string, number>;
+  private roleWeights: Record<string, number>;
+  private sessionRiskThreshold: number;
+  private normalizations: TextNormalization[];
+  private classifier: TextClassifier | undefined;
+  private classifierThreshold: number;
+  private sessions: Map<string, SessionRisk> = new Map();
 
   constructor(config: PromptInjectionConfig = {}) {
     super({
       name: 'PromptInjection',
       description: 'Detects prompt injection and jailbreak attempts',
       version: '1.0.0',
+      cost: config.classifier ? 'medium' : 'low',
+      // Results depend on the session's cumulative risk
+      cacheable: false,
       ...config,
     });
 
@@ -99,75 +169,205 @@ export class PromptInjectionGuardrail extends Guardrail {
       medium: 1,
       high: 1,
     };
-  }
 
-  async evaluate(input: any, _context?: Record<string, any>): Promise<GuardrailResult> {
-    const text = this.extractText(input);
-    const detections = this.detectInjection(text);
+    this.roleWeights = {
+      system: 0.5,
+      user: 1,
+      assistant: 1.2,
+      tool: 1.5,
+      ...config.roleWeights,
+    };
+    this.sessionRiskThreshold = config.sessionRiskThreshold ?? 150;
+
+    const normalize = config.normalize ?? true;
+    this.normalizations = Array.isArray(normalize) ? normalize : normalize ? TEXT_NORMALIZATIONS : [];
+    this.classifier = config.classifier;
+    this.classifierThreshold = config.classifierThreshold ?? 0.5;
+  }
 
+  async evaluate(input: any, context?: Record<string, any>): Promise<GuardrailResult> {
+    const messages = this.extractMessages(input);
     const threshold = this.thresholds[this.sensitivity];
+    const session = this.getSession(context?.sessionId);
 
-    if (detections.length < threshold) {
+    const detections: InjectionDetection[] = [];
+    const triggering: MessageText[] = [];
+    let maxRiskScore = 0;
+    let sessionRisk = session?.risk ?? 0;
+    let sessionTriggerIndex: number | undefined;
+
+    for (const message of messages) {
+      const found = [...this.detectInjection(message), ...(await this.classifyInjection(message))];
+      if (found.length === 0) continue;
+
+      const weight = this.roleWeights[message.role] ?? 1;
+      const riskScore = Math.min(
+        100,
+        Math.round(Math.max(...found.map((d) => this.riskScores[d.type] || 50)) * weight)
+      );
+      detections.push(...found);
+
+      if (found.length * weight >= threshold) {
+        triggering.push(message);
+        maxRiskScore = Math.max(maxRiskScore, riskScore);
+      }
+
+      // Conversations are resent every turn, so each message counts once per session
+      const fingerprint = createHash('sha256').update(`${message.role}:${message.text}`).digest('hex');
+      if (session?.seen.has(fingerprint)) continue;
+      session?.seen.add(fingerprint);
+
+      sessionRisk += riskScore;
+      if (sessionTriggerIndex === undefined && sessionRisk >= this.sessionRiskThreshold) {
+        sessionTriggerIndex = message.index;
+        maxRiskScore = Math.max(maxRiskScore, riskScore);
+      }
+    }
+
+    if (session) {
+      session.risk = sessionRisk;
+    }
+
+    if (triggering.length === 0 && sessionTriggerIndex === undefined) {
       return new GuardrailResult({
         passed: true,
         action: 'allow',
         reason: 'No prompt injection detected',
-        metadata: { detections: [] },
+        metadata: { detections: [], sessionRisk },
         riskScore: 0,
       });
     }
 
-    const maxRiskScore = Math.max(...detections.map((d) => this.riskScores[d.type] || 50));
+    const revealedBy = Array.from(
+      new Set(detections.flatMap((d) => (d.revealedBy ? [d.revealedBy] : [])))
+    );
+    const triggeringMessage = triggering[0] ?? messages.find((m) => m.index === sessionTriggerIndex)!;
     const action = this.action;
     const passed = action === 'allow' || action === 'transform';
 
-    const metadata: Record<string, any> = { detections };
+    const metadata: Record<string, any> = {
+      detections,
+      triggeringMessageIndex: triggeringMessage.index,
+      triggeringRole: triggeringMessage.role,
+      sessionRisk,
+      revealedBy,
+    };
     if (action === 'transform') {
-      metadata.transformedText = this.transformInjection(text, detections);
+      if (Array.isArray(input?.messages)) {
+        metadata.transformedMessages = this.transformMessages(input.messages as any[], detections);
+      } else {
+        metadata.transformedText = this.transformInjection(triggeringMessage.text, detections);
+      }
     }
 
+    const reason = triggering.length > 0
+      ? `Detected ${detections.length} prompt injection pattern(s) in ${triggeringMessage.role} message ${triggeringMessage.index}: ${detections.map((d) => d.type).join(', ')}`
+      : `Cumulative session injection risk ${sessionRisk} reached ${this.sessionRiskThreshold} at ${triggeringMessage.role} message ${triggeringMessage.index}`;
+    const revealed = revealedBy.length > 0 ? ` (revealed by ${revealedBy.join(', ')})` : '';
+
     return new GuardrailResult({
       passed,
       action,
-      reason: `Detected ${detections.length} prompt injection pattern(s): ${detections.map((d) => d.type).join(', ')}`,
+      reason: reason + revealed,
       metadata,
       riskScore: maxRiskScore,
     });
   }
 
-  private extractText(input: any): string {
+  /**
+   * Forget the cumulative risk of a session
+   */
+  resetSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  private getSession(sessionId: unknown): SessionRisk | undefined {
+    if (typeof sessionId !== 'string' || !sessionId) {
+      return undefined;
+    }
+
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      if (this.sessions.size >= MAX_TRACKED_SESSIONS) {
+        this.sessions.delete(this.sessions.keys().next().value!);
+      }
+      session = { risk: 0, seen: new Set() };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private extractMessages(input: any): MessageText[] {
     if (typeof input === 'string') {
-      return input;
+      return [{ index: 0, role: 'user', text: input }];
     }
 
     if (input.prompt) {
-      return input.prompt;
+      return [{ index: 0, role: 'user', text: input.prompt }];
     }
 
     if (input.messages && Array.isArray(input.messages)) {
-      return input.messages.map((m: any) => m.content || '').join(' ');
+      const messages: MessageText[] = [];
+      input.messages.forEach((m: any, index: number) => {
+        const role = m.role === 'function' ? 'tool' : m.role || 'user';
+
+        if (!Array.isArray(m.content)) {
+          messages.push({ index, role, text: typeof m.content === 'string' ? m.content : '' });
+          return;
+        }
+
+        // Content parts; Anthropic returns tool results as parts of user messages
+        const text: string[] = [];
+        for (const part of m.content) {
+          if (part?.type === 'tool_result') {
+            messages.push({ index, role: 'tool', text: this.partText(part.content) });
+          } else {
+            text.push(this.partText(part));
+          }
+        }
+        messages.push({ index, role, text: text.join(' ') });
+      });
+      return messages;
     }
 
     if (input.text) {
-      return input.text;
+      return [{ index: 0, role: 'user', text: input.text }];
     }
 
-    return JSON.stringify(input);
+    return [{ index: 0, role: 'user', text: JSON.stringify(input) }];
+  }
+
+  private partText(part: any): string {
+    if (typeof part === 'string') {
+      return part;
+    }
+    if (Array.isArray(part)) {
+      return part.map((p) => this.partText(p)).join(' ');
+    }
+    return typeof part?.text === 'string' ? part.text : '';
   }
 
-  private detectInjection(text: string): InjectionDetection[] {
+  private detectInjection(message: MessageText): InjectionDetection[] {
     const detections: InjectionDetection[] = [];
 
-    for (const [type, patterns] of Object.entries(this.patterns)) {
-      for (const pattern of patterns) {
-        const match = text.match(pattern);
-        if (match) {
-          detections.push({
-            type,
-            pattern: pattern.toString(),
-            match: match[0],
-            confidence: this.calculateConfidence(type, match[0]),
-          });
+    // Forms build on each other, so a pattern is credited to the first form it matches
+    for (const form of normalizeText(message.text, this.normalizations)) {
+      for (const [type, patterns] of Object.entries(this.patterns)) {
+        for (const pattern of patterns) {
+          if (detections.some((d) => d.pattern === pattern.toString())) continue;
+
+          const match = form.text.match(pattern);
+          if (match) {
+            detections.push({
+              type,
+              pattern: pattern.toString(),
+              match: match[0],
+              confidence: this.calculateConfidence(type),
+              messageIndex: message.index,
+              role: message.role,
+              ...(form.transformation !== 'raw' && { revealedBy: form.transformation }),
+            });
+          }
         }
       }
     }
@@ -175,7 +375,32 @@ export class PromptInjectionGuardrail extends Guardrail {
     return detections;
   }
 
-  private calculateConfidence(type: string, _match: string): number {
+  private async classifyInjection(message: MessageText): Promise<InjectionDetection[]> {
+    if (!this.classifier || !message.text) {
+      return [];
+    }
+
+    try {
+      const scores = await this.classifier.classify(message.text);
+
+      // Only labels with a risk score are detection types; others (e.g. 'safe') are ignored
+      return Object.entries(scores)
+        .filter(([label, score]) => label in this.riskScores && score >= this.classifierThreshold)
+        .map(([label, score]) => ({
+          type: label,
+          pattern: 'classifier',
+          match: '',
+          confidence: score,
+          messageIndex: message.index,
+          role: message.role,
+        }));
+    } catch (error) {
+      console.error('[PromptInjection] Classifier error, using patterns only:', error);
+      return [];
+    }
+  }
+
+  private calculateConfidence(type: string): number {
     const baseConfidence: Record<string, number> = {
       instructionInjection: 0.85,
       rolePlaying: 0.7,
@@ -189,6 +414,12 @@ export class PromptInjectionGuardrail extends Guardrail {
   }
 
   private transformInjection(text: string, detections: InjectionDetection[]): string {
+    // Classifier detections and matches found in a normalized form cannot be
+    // located in the original text
+    if (detections.some((d) => !d.match || !text.includes(d.match))) {
+      return '[FILTERED_INJECTION]';
+    }
+
     let transformed = text;
 
     // Sort by match length (longest first) to avoid partial replacements
@@ -200,4 +431,15 @@ export class PromptInjectionGuardrail extends Guardrail {
 
     return transformed;
   }
+
+  private transformMessages(messages: any[], detections: InjectionDetection[]): any[] {
+    return messages.map((message, index) => {
+      const found = detections.filter((d) => d.messageIndex === index);
+      const content: unknown = message.content;
+      if (found.length === 0 || typeof content !== 'string') {
+        return message;
+      }
+      return { ...message, content: this.transformInjection(content, found) };
+    });
+  }
 }
@@ -0,0 +1,182 @@
+/**
+ * Guardrail Registry
+ *
+ * Maps type names used in declarative configuration (e.g. 'pii-detection')
+ * to Guardrail subclasses and the schemas of their options.
+ */
+
+import { Guardrail } from './base';
+import { ContentModerationGuardrail } from './content-moderation';
+import { BASE_GUARDRAIL_OPTIONS, OptionIssue, OptionSchema, validateOption } from './option-schema';
+import { PII_ENTITY_PACKS } from './pii-entities';
+import { PIIDetectionGuardrail } from './pii-detection';
+import { PromptInjectionGuardrail } from './prompt-injection';
+import { SecretsDetectionGuardrail } from './secrets-detection';
+import { TEXT_NORMALIZATIONS } from './text-normalization';
+import { TopicRestrictionGuardrail } from './topic-restriction';
+
+/**
+ * Guardrail subclass constructible from options
+ */
+export type GuardrailConstructor = new (config: any) => Guardrail;
+
+/**
+ * Registered guardrail type
+ */
+export interface GuardrailRegistration {
+  guardrail: GuardrailConstructor;
+  /**
+   * Options in addition to the base GuardrailConfig options; without a
+   * schema, other options are passed through unchecked
+   */
+  options?: Record<string, OptionSchema>;
+}
+
+const riskScores: OptionSchema = { type: 'record', values: { type: 'number', min: 0, max: 100 } };
+const probability: OptionSchema = { type: 'number', min: 0, max: 1 };
+
+/**
+ * Built-in guardrail types and their serializable options
+ */
+const BUILT_IN_GUARDRAILS: Record<string, GuardrailRegistration> = {
+  'pii-detection': {
+    guardrail: PIIDetectionGuardrail,
+    options: {
+      detectTypes: { type: 'array', items: { type: 'string' } },
+      packs: { type: 'array', items: { type: 'string', enum: Object.keys(PII_ENTITY_PACKS) } },
+      action: { type: 'string', enum: ['block', 'redact', 'mask', 'allow'] },
+      riskScores,
+      minConfidence: probability,
+    },
+  },
+  'prompt-injection': {
+    guardrail: PromptInjectionGuardrail,
+    options: {
+      action: { type: 'string', enum: ['block', 'transform', 'allow'] },
+      sensitivity: { type: 'string', enum: ['low', 'medium', 'high'] },
+      roleWeights: { type: 'record', values: { type: 'number', min: 0 } },
+      sessionRiskThreshold: { type: 'number', min: 0 },
+      normalize: {
+        type: 'union',
+        of: [{ type: 'boolean' }, { type: 'array', items: { type: 'string', enum: TEXT_NORMALIZATIONS } }],
+      },
+      classifierThreshold: probability,
+    },
+  },
+  'content-moderation': {
+    guardrail: ContentModerationGuardrail,
+    options: {
+      apiKey: { type: 'string' },
+      useOpenAI: { type: 'boolean' },
+      action: { type: 'string', enum: ['block', 'transform', 'allow'] },
+      thresholds: { type: 'record', values: probability },
+      riskScores,
+    },
+  },
+  'secrets-detection': {
+    guardrail: SecretsDetectionGuardrail,
+    options: {
+      detectTypes: { type: 'array', items: { type: 'string' } },
+      action: { type: 'string', enum: ['block', 'redact', 'allow'] },
+      riskScores,
+      entropyThreshold: { type: 'number', min: 0 },
+    },
+  },
+  'topic-restriction': {
+    guardrail: TopicRestrictionGuardrail,
+    options: {
+      topics: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            keywords: { type: 'array', items: { type: 'string' } },
+            description: { type: 'string' },
+            riskScore: { type: 'number', min: 0, max: 100 },
+          },
+          required: ['name'],
+        },
+      },
+      mode: { type: 'string', enum: ['allow-list', 'deny-list'] },
+      action: { type: 'string', enum: ['block', 'allow'] },
+      similarityThreshold: probability,
+      minConfidence: probability,
+      offTopicRiskScore: { type: 'number', min: 0, max: 100 },
+    },
+  },
+};
+
+export class GuardrailRegistry {
+  private registrations: Map<string, GuardrailRegistration> = new Map();
+
+  /**
+   * Registry with the built-in guardrail types
+   */
+  static withBuiltIns(): GuardrailRegistry {
+    const registry = new GuardrailRegistry();
+    for (const [type, registration] of Object.entries(BUILT_IN_GUARDRAILS)) {
+      registry.register(type, registration.guardrail, registration.options);
+    }
+    return registry;
+  }
+
+  /**
+   * Register a guardrail type
+   */
+  register(type: string, guardrail: GuardrailConstructor, options?: Record<string, OptionSchema>): this {
+    if (this.registrations.has(type)) {
+      throw new Error(`Guardrail type "${type}" is already registered`);
+    }
+
+    this.registrations.set(type, options ? { guardrail, options } : { guardrail });
+    return this;
+  }
+
+  unregister(type: string): void {
+    this.registrations.delete(type);
+  }
+
+  has(type: string): boolean {
+    return this.registrations.has(type);
+  }
+
+  getTypes(): string[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  /**
+   * Check options for a type; problems are reported under path
+   */
+  validate(type: string, options: unknown, path = 'options'): OptionIssue[] {
+    const registration = this.registrations.get(type);
+    if (!registration) {
+      return [{ path, message: `unknown guardrail type "${type}"` }];
+    }
+
+    const issues: OptionIssue[] = [];
+    validateOption(
+      options,
+      {
+        type: 'object',
+        properties: { ...BASE_GUARDRAIL_OPTIONS, ...registration.options },
+        additional: !registration.options,
+      },
+      path,
+      issues
+    );
+    return issues;
+  }
+
+  /**
+   * Construct a guardrail of a registered type; options should be validated first
+   */
+  create(type: string, options: Record<string, any> = {}): Guardrail {
+    const registration = this.registrations.get(type);
+    if (!registration) {
+      throw new Error(`Unknown guardrail type "${type}"; registered types: ${this.getTypes().join(', ')}`);
+    }
+
+    return new registration.guardrail(options);
+  }
+}
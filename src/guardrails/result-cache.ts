@@ -0,0 +1,197 @@
+/**
+ * Guardrail Result Cache
+ *
+ * Caches guardrail results by guardrail name, configuration version and a
+ * hash of the input, so repeated system prompts and RAG chunks are not
+ * evaluated (or sent to paid moderation APIs) again. Entries expire after a
+ * TTL; the in-memory store also evicts the least recently used entries.
+ */
+
+import { createHash } from 'crypto';
+import { Guardrail, GuardrailResult, GuardrailResultData } from './base';
+
+/**
+ * Cached guardrail result
+ */
+export interface GuardrailCacheEntry {
+  result: GuardrailResultData;
+  /** Expiry time (epoch milliseconds) */
+  expiresAt: number;
+}
+
+/**
+ * Backing store for cached results
+ */
+export interface GuardrailCacheStore {
+  get(key: string): Promise<GuardrailCacheEntry | undefined>;
+  set(key: string, entry: GuardrailCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Result cache configuration
+ */
+export interface GuardrailResultCacheConfig {
+  /** Entry store (default: InMemoryGuardrailCacheStore) */
+  store?: GuardrailCacheStore;
+  /** Time to live in milliseconds (default: 300000) */
+  ttl?: number;
+  /** Capacity of the default in-memory store (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * Cache hit and miss counters
+ */
+export interface GuardrailCacheStats {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+}
+
+/**
+ * In-memory LRU store
+ */
+export class InMemoryGuardrailCacheStore implements GuardrailCacheStore {
+  private entries: Map<string, GuardrailCacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): Promise<GuardrailCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return Promise.resolve(entry);
+  }
+
+  set(key: string, entry: GuardrailCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Serialize input with sorted object keys so equal input hashes equally
+ */
+function canonicalize(input: any): string {
+  if (typeof input === 'string') {
+    return `s:${input}`;
+  }
+
+  return `j:${JSON.stringify(input, (_key, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value
+  )}`;
+}
+
+export class GuardrailResultCache {
+  private store: GuardrailCacheStore;
+  private ttl: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(config: GuardrailResultCacheConfig = {}) {
+    this.store = config.store ?? new InMemoryGuardrailCacheStore(config.maxEntries);
+    this.ttl = config.ttl ?? 300000;
+  }
+
+  /**
+   * Cache key for a guardrail and input
+   */
+  static key(guardrail: Guardrail, input: any): string {
+    return createHash('sha256')
+      .update(`${guardrail.name}\u0000${guardrail.getConfigVersion()}\u0000${canonicalize(input)}`)
+      .digest('hex');
+  }
+
+  /**
+   * Cached result, or undefined on a miss; store errors count as misses
+   */
+  async get(guardrail: Guardrail, input: any): Promise<GuardrailResult | undefined> {
+    const key = GuardrailResultCache.key(guardrail, input);
+
+    try {
+      const entry = await this.store.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        this.hits++;
+        return new GuardrailResult(entry.result);
+      }
+      if (entry) {
+        await this.store.delete(key);
+      }
+    } catch (error) {
+      console.error('[GuardrailResultCache] Store read failed:', error instanceof Error ? error.message : error);
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Cache a result; store errors are logged and ignored
+   */
+  async set(guardrail: Guardrail, input: any, result: GuardrailResult): Promise<void> {
+    const entry: GuardrailCacheEntry = {
+      result: {
+        passed: result.passed,
+        action: result.action,
+        reason: result.reason,
+        metadata: result.metadata,
+        riskScore: result.riskScore,
+      },
+      expiresAt: Date.now() + this.ttl,
+    };
+
+    try {
+      await this.store.set(GuardrailResultCache.key(guardrail, input), entry);
+    } catch (error) {
+      console.error('[GuardrailResultCache] Store write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  getStats(): GuardrailCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
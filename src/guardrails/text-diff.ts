@@ -0,0 +1,113 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff between a text and its rewritten form. Edits carry the
+ * replacement but not the removed text, so diffs of redactions can be logged
+ * without leaking the values they removed.
+ */
+
+/**
+ * Replacement of a span of the original text
+ */
+export interface TextEdit {
+  /** Start of the replaced span in the text before the change */
+  position: number;
+  /** Length of the replaced span */
+  length: number;
+  /** Text inserted in its place */
+  replacement: string;
+}
+
+/**
+ * Upper bound on the token comparison table; larger rewrites produce one edit
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Compute the edits that turn `before` into `after`, in position order
+ */
+export function diffText(before: string, after: string): TextEdit[] {
+  // Trim the common prefix and suffix so only the changed region is compared
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  if (start === beforeEnd && start === afterEnd) {
+    return [];
+  }
+
+  const a = tokenize(before.slice(start, beforeEnd));
+  const b = tokenize(after.slice(start, afterEnd));
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ position: start, length: beforeEnd - start, replacement: after.slice(start, afterEnd) }];
+  }
+
+  // Longest common subsequence of tokens, filled from the end
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const edits: TextEdit[] = [];
+  let position = start;
+  let pending: TextEdit | undefined;
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      if (pending) {
+        edits.push(pending);
+        pending = undefined;
+      }
+      position += a[i].length;
+      i++;
+      j++;
+      continue;
+    }
+
+    pending = pending ?? { position, length: 0, replacement: '' };
+    if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      pending.replacement += b[j++];
+    } else {
+      pending.length += a[i].length;
+      position += a[i].length;
+      i++;
+    }
+  }
+  if (pending) {
+    edits.push(pending);
+  }
+
+  return edits;
+}
+
+/**
+ * Apply edits produced by diffText
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  let result = text;
+
+  // Apply in reverse to maintain positions
+  for (const edit of [...edits].sort((x, y) => y.position - x.position)) {
+    result = result.substring(0, edit.position) + edit.replacement + result.substring(edit.position + edit.length);
+  }
+
+  return result;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
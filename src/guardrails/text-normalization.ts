@@ -0,0 +1,174 @@
+/**
+ * Text Normalization
+ *
+ * Undoes common obfuscation so guardrail patterns see the text a model sees:
+ * - Invisible characters (zero-width, bidi controls, Unicode tag smuggling)
+ * - Confusable letters (fullwidth, mathematical, Cyrillic and Greek lookalikes)
+ * - Embedded URL, hex and base64 encodings
+ * - Spaced-out letters ("i g n o r e")
+ * - Leetspeak ("1gn0r3")
+ */
+
+/**
+ * Normalization step, applied in the order of TEXT_NORMALIZATIONS
+ */
+export type TextNormalization =
+  | 'invisible'
+  | 'confusables'
+  | 'url'
+  | 'hex'
+  | 'base64'
+  | 'spacing'
+  | 'leetspeak';
+
+/**
+ * Form of the text after a normalization step
+ */
+export interface NormalizedText {
+  /** Step that produced this form ('raw' for the original text) */
+  transformation: TextNormalization | 'raw';
+  text: string;
+}
+
+/**
+ * All normalization steps in application order
+ */
+export const TEXT_NORMALIZATIONS: TextNormalization[] = [
+  'invisible',
+  'confusables',
+  'url',
+  'hex',
+  'base64',
+  'spacing',
+  'leetspeak',
+];
+
+/**
+ * Format characters and fillers, then the combining marks and variation
+ * selectors in classes of their own so none combines with a neighbour
+ */
+const INVISIBLE_PATTERN =
+  /[\u00AD\u061C\u115F\u1160\u180E\u200B-\u200F\u202A-\u202E\u2060-\u206F\u3164\uFEFF\uFFA0]|[\u034F\u17B4\u17B5]|[\u180B-\u180D\u180F]|[\uFE00-\uFE0F]/g;
+
+/**
+ * Unicode tag characters mirror ASCII and render as nothing
+ */
+const TAG_PATTERN = /[\u{E0000}-\u{E007F}]/gu;
+
+/**
+ * Cyrillic and Greek letters that render like Latin ones
+ */
+const CONFUSABLES: Record<string, string> = {
+  а: 'a', в: 'b', е: 'e', ё: 'e', к: 'k', м: 'm', н: 'h', о: 'o', р: 'p', с: 'c', т: 't', у: 'y', х: 'x',
+  ѕ: 's', і: 'i', ї: 'i', ј: 'j', ԁ: 'd', ԛ: 'q', ԝ: 'w', ү: 'y', һ: 'h', ɑ: 'a', ɡ: 'g', ɩ: 'i',
+  А: 'A', В: 'B', Е: 'E', К: 'K', М: 'M', Н: 'H', О: 'O', Р: 'P', С: 'C', Т: 'T', У: 'Y', Х: 'X',
+  Ѕ: 'S', І: 'I', Ј: 'J', Ү: 'Y', Һ: 'H',
+  α: 'a', ε: 'e', ι: 'i', κ: 'k', ν: 'v', ο: 'o', ρ: 'p', τ: 't', υ: 'u', χ: 'x', ω: 'w',
+  Α: 'A', Β: 'B', Ε: 'E', Ζ: 'Z', Η: 'H', Ι: 'I', Κ: 'K', Μ: 'M', Ν: 'N', Ο: 'O', Ρ: 'P', Τ: 'T',
+  Υ: 'Y', Χ: 'X',
+};
+
+const CONFUSABLE_PATTERN = new RegExp(`[${Object.keys(CONFUSABLES).join('')}]`, 'g');
+
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', '$': 's',
+};
+
+/**
+ * Check that decoded bytes read as text rather than binary
+ */
+function isReadable(text: string): boolean {
+  if (text.length < 4 || /[^\P{Cc}\t\n\r]|\uFFFD/u.test(text)) {
+    return false;
+  }
+  const readable = text.match(/[A-Za-z0-9\s.,:;!?'"-]/g)?.length ?? 0;
+  return readable / text.length >= 0.8 && /[A-Za-z]{2}/.test(text);
+}
+
+/**
+ * Replace encoded runs with their decoded text when it is readable
+ */
+function decodeRuns(text: string, pattern: RegExp, decode: (run: string) => string): string {
+  return text.replace(pattern, (run) => {
+    try {
+      const decoded = decode(run);
+      return isReadable(decoded) ? decoded : run;
+    } catch {
+      return run;
+    }
+  });
+}
+
+const NORMALIZERS: Record<TextNormalization, (text: string) => string> = {
+  invisible: (text) =>
+    text
+      .replace(TAG_PATTERN, (tag) => {
+        const code = tag.codePointAt(0)! - 0xe0000;
+        return code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : '';
+      })
+      .replace(INVISIBLE_PATTERN, ''),
+
+  confusables: (text) =>
+    text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .normalize('NFKC')
+      .replace(CONFUSABLE_PATTERN, (char) => CONFUSABLES[char] || char),
+
+  url: (text) => decodeRuns(text, /(?:%[0-9A-Fa-f]{2})+/g, decodeURIComponent),
+
+  hex: (text) => {
+    const fromHex = (run: string): string =>
+      Buffer.from(run.replace(/\\x|0x|[\s:]/gi, ''), 'hex').toString('utf8');
+    return [
+      /(?:\\x[0-9A-Fa-f]{2}){4,}/g,
+      /\b[0-9A-Fa-f]{2}(?:[ :][0-9A-Fa-f]{2}){7,}\b/g,
+      /\b(?:0x)?(?:[0-9A-Fa-f]{2}){8,}\b/g,
+    ].reduce((current, pattern) => decodeRuns(current, pattern, fromHex), text);
+  },
+
+  base64: (text) =>
+    decodeRuns(
+      text,
+      /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/_-]{16,}={0,2}(?![A-Za-z0-9+/=_-])/g,
+      (run) => Buffer.from(run, 'base64').toString('utf8')
+    ),
+
+  spacing: (text) =>
+    text
+      .replace(/\b[A-Za-z](?:[\s.\-_*|][A-Za-z]){2,}\b/g, (run) => run.replace(/[^A-Za-z]/g, ''))
+      .replace(/\s{2,}/g, ' '),
+
+  leetspeak: (text) =>
+    text.replace(/[A-Za-z0-9@$]+/g, (word) =>
+      /[A-Za-z]/.test(word) && /[0-9@$]/.test(word)
+        ? word.replace(/[0134578@$]/g, (char) => LEET[char])
+        : word
+    ),
+};
+
+/**
+ * Normalize text step by step
+ *
+ * Returns the raw text followed by one form per step that changed it; each
+ * form builds on the previous one.
+ */
+export function normalizeText(
+  text: string,
+  steps: TextNormalization[] = TEXT_NORMALIZATIONS
+): NormalizedText[] {
+  const forms: NormalizedText[] = [{ transformation: 'raw', text }];
+  let current = text;
+
+  for (const step of TEXT_NORMALIZATIONS) {
+    if (!steps.includes(step)) continue;
+
+    const next = NORMALIZERS[step](current);
+    if (next !== current) {
+      forms.push({ transformation: step, text: next });
+      current = next;
+    }
+  }
+
+  return forms;
+}
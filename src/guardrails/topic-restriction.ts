@@ -0,0 +1,289 @@
+/**
+ * Topic Restriction Guardrail
+ *
+ * Keeps conversations in scope:
+ * - 'deny-list' mode blocks input about any listed topic (competitors,
+ *   legal or medical advice, ...)
+ * - 'allow-list' mode blocks input that matches none of the listed topics,
+ *   e.g. to keep a customer-service agent on billing and shipping
+ *
+ * Topics are matched by keyword and phrase taxonomies and, with an
+ * embedder, by embedding similarity between the input and each topic
+ * description. Results report the matched topic and the match confidence.
+ */
+
+import { Guardrail, GuardrailConfig, GuardrailResult } from './base';
+import { TextEmbedder } from './onnx-classifier';
+import { getMessagesText } from './message-text';
+
+/**
+ * Topic taxonomy entry
+ */
+export interface TopicDefinition {
+  name: string;
+  /** Words and phrases that indicate the topic; matched case-insensitively as whole words */
+  keywords?: string[];
+  /** What the topic covers, compared with the input by embedding similarity */
+  description?: string;
+  /** Risk score of a full-confidence match in deny-list mode (default: 70) */
+  riskScore?: number;
+}
+
+export interface TopicRestrictionConfig extends GuardrailConfig {
+  /** Allowed topics in 'allow-list' mode, denied topics in 'deny-list' mode */
+  topics: TopicDefinition[];
+  /** (default: 'deny-list') */
+  mode?: 'allow-list' | 'deny-list';
+  /** 'allow' reports matches without blocking (default: 'block') */
+  action?: 'block' | 'allow';
+  /** Local embedding model scoring input against topic descriptions */
+  embedder?: TextEmbedder;
+  /** Cosine similarity at which a description matches (default: 0.6) */
+  similarityThreshold?: number;
+  /** Keyword confidence at which a topic matches (default: 0.6, i.e. one keyword) */
+  minConfidence?: number;
+  /** Risk score of off-topic input in allow-list mode (default: 50) */
+  offTopicRiskScore?: number;
+}
+
+/**
+ * Topic found in the input
+ */
+export interface TopicMatch {
+  topic: string;
+  /** 0-1 */
+  confidence: number;
+  /** Signal that produced the confidence */
+  method: 'keyword' | 'embedding';
+  /** Keywords found in the input */
+  keywords: string[];
+  /** Cosine similarity to the topic description, when an embedder is configured */
+  similarity?: number;
+}
+
+interface CompiledTopic {
+  definition: TopicDefinition;
+  keywords: Array<{ keyword: string; pattern: RegExp }>;
+}
+
+/**
+ * Confidence of a keyword match; each further distinct keyword adds certainty
+ */
+function keywordConfidence(hits: number): number {
+  return hits === 0 ? 0 : Math.min(0.95, 0.6 + 0.15 * (hits - 1));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Whole-word, case-insensitive pattern for a keyword or phrase
+ */
+function keywordPattern(keyword: string): RegExp {
+  const words = keyword.trim().split(/\s+/).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+export class TopicRestrictionGuardrail extends Guardrail {
+  private topics: CompiledTopic[];
+  private mode: 'allow-list' | 'deny-list';
+  private action: 'block' | 'allow';
+  private embedder: TextEmbedder | undefined;
+  private similarityThreshold: number;
+  private minConfidence: number;
+  private offTopicRiskScore: number;
+  private descriptionEmbeddings: Promise<Map<string, number[]>> | undefined;
+
+  constructor(config: TopicRestrictionConfig) {
+    super({
+      name: 'TopicRestriction',
+      description: 'Restricts conversations to allowed topics or blocks denied topics',
+      version: '1.0.0',
+      cost: config.embedder ? 'medium' : 'low',
+      ...config,
+    });
+
+    if (!Array.isArray(config.topics) || config.topics.length === 0) {
+      throw new Error('TopicRestrictionGuardrail requires at least one topic');
+    }
+    for (const topic of config.topics) {
+      const hasKeywords = (topic.keywords ?? []).some((keyword) => keyword.trim() !== '');
+      if (!hasKeywords && !(topic.description && config.embedder)) {
+        throw new Error(`Topic "${topic.name}" needs keywords, or a description and an embedder`);
+      }
+    }
+
+    this.topics = config.topics.map((definition) => ({
+      definition,
+      keywords: (definition.keywords ?? [])
+        .filter((keyword) => keyword.trim() !== '')
+        .map((keyword) => ({ keyword, pattern: keywordPattern(keyword) })),
+    }));
+    this.mode = config.mode ?? 'deny-list';
+    this.action = config.action ?? 'block';
+    this.embedder = config.embedder;
+    this.similarityThreshold = config.similarityThreshold ?? 0.6;
+    this.minConfidence = config.minConfidence ?? 0.6;
+    this.offTopicRiskScore = config.offTopicRiskScore ?? 50;
+  }
+
+  async evaluate(input: any): Promise<GuardrailResult> {
+    const text = this.extractText(input);
+    const scores = await this.scoreTopics(text);
+    const matches = scores
+      .filter((score) => this.isMatch(score))
+      .sort((a, b) => b.confidence - a.confidence);
+    const best = matches[0];
+
+    const metadata: Record<string, any> = {
+      mode: this.mode,
+      matchedTopic: best?.topic ?? null,
+      confidence: best?.confidence ?? 0,
+      method: best?.method ?? null,
+      matches,
+      // Closeness to every topic, for tuning thresholds
+      scores: Object.fromEntries(scores.map((score) => [score.topic, Math.max(score.confidence, score.similarity ?? 0)])),
+    };
+
+    const violation = this.mode === 'deny-list' ? best !== undefined : best === undefined;
+    if (!violation) {
+      return new GuardrailResult({
+        passed: true,
+        action: 'allow',
+        reason: best
+          ? `On-topic: ${best.topic} (confidence ${best.confidence.toFixed(2)})`
+          : 'No denied topics detected',
+        metadata,
+        riskScore: 0,
+      });
+    }
+
+    let reason: string;
+    let riskScore: number;
+    if (best) {
+      const topicRiskScore = this.topics.find((t) => t.definition.name === best.topic)?.definition.riskScore ?? 70;
+      reason = `Denied topic detected: ${best.topic} (confidence ${best.confidence.toFixed(2)})`;
+      riskScore = Math.round(topicRiskScore * best.confidence);
+    } else {
+      reason = `Off-topic: input matches none of the allowed topics (${this.topics.map((t) => t.definition.name).join(', ')})`;
+      riskScore = this.offTopicRiskScore;
+    }
+
+    return new GuardrailResult({
+      passed: this.action !== 'block',
+      action: this.action,
+      reason,
+      metadata,
+      riskScore,
+    });
+  }
+
+  private isMatch(score: TopicMatch): boolean {
+    return score.method === 'embedding'
+      ? score.confidence >= this.similarityThreshold
+      : score.confidence >= this.minConfidence;
+  }
+
+  /**
+   * Score every topic by keywords and, when configured, embedding similarity
+   */
+  private async scoreTopics(text: string): Promise<TopicMatch[]> {
+    const similarities = await this.embedSimilarities(text);
+
+    return this.topics.map(({ definition, keywords }) => {
+      const found = keywords.filter(({ pattern }) => pattern.test(text)).map(({ keyword }) => keyword);
+      const byKeyword = keywordConfidence(found.length);
+      const similarity = similarities?.get(definition.name);
+
+      const match: TopicMatch = {
+        topic: definition.name,
+        confidence: byKeyword,
+        method: 'keyword',
+        keywords: found,
+      };
+      if (similarity !== undefined) {
+        match.similarity = similarity;
+        // Embedding similarity counts when it clears its own threshold and beats the keywords
+        if (similarity >= this.similarityThreshold && (byKeyword < this.minConfidence || similarity > byKeyword)) {
+          match.confidence = similarity;
+          match.method = 'embedding';
+        }
+      }
+      return match;
+    });
+  }
+
+  /**
+   * Cosine similarity of the input to each topic description
+   *
+   * Undefined without an embedder or when embedding fails, in which case
+   * only keywords are used.
+   */
+  private async embedSimilarities(text: string): Promise<Map<string, number> | undefined> {
+    if (!this.embedder || text.trim() === '') {
+      return undefined;
+    }
+
+    try {
+      const [descriptions, embedding] = await Promise.all([this.loadDescriptionEmbeddings(), this.embedder.embed(text)]);
+      const similarities = new Map<string, number>();
+      for (const [topic, vector] of descriptions) {
+        similarities.set(topic, Math.max(0, Math.min(1, cosineSimilarity(embedding, vector))));
+      }
+      return similarities;
+    } catch (error) {
+      console.error('[TopicRestriction] Embedding failed, using keywords only:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Embed topic descriptions once
+   */
+  private loadDescriptionEmbeddings(): Promise<Map<string, number[]>> {
+    if (!this.descriptionEmbeddings) {
+      const embedder = this.embedder as TextEmbedder;
+      this.descriptionEmbeddings = Promise.all(
+        this.topics
+          .filter(({ definition }) => definition.description)
+          .map(async ({ definition }) =>
+            [definition.name, await embedder.embed(definition.description as string)] as [string, number[]]
+          )
+      ).then((entries) => new Map(entries));
+      // Allow a later call to retry after a failure
+      this.descriptionEmbeddings.catch(() => {
+        this.descriptionEmbeddings = undefined;
+      });
+    }
+    return this.descriptionEmbeddings;
+  }
+
+  private extractText(input: any): string {
+    if (typeof input === 'string') {
+      return input;
+    }
+
+    if (input.prompt) {
+      return input.prompt;
+    }
+
+    if (input.messages && Array.isArray(input.messages)) {
+      return getMessagesText(input.messages);
+    }
+
+    if (input.text) {
+      return input.text;
+    }
+
+    return JSON.stringify(input);
+  }
+}
@@ -29,6 +29,12 @@ export {
   createPolicySimulator
 } from './policy/PolicySimulator';
 
+export {
+  LocalPolicyEngine,
+  createLocalPolicyEngine,
+  parsePolicyConfig
+} from './policy/LocalPolicyEngine';
+
 export type {
   PolicyTestResult,
   PolicyTestSuite
@@ -47,9 +53,15 @@ export type {
   BatchSimulationResult
 } from './policy/PolicySimulator';
 
+export type {
+  LocalPolicyEngineOptions,
+  PolicyConfigDocument
+} from './policy/LocalPolicyEngine';
+
 // Types and interfaces
 export type {
   TealTigerConfig,
+  PolicyMode,
   ToolParameters,
   SecurityContext,
   SecurityDecision,
@@ -97,6 +109,23 @@ export {
 
 // Configuration
 export { Configuration, DEFAULT_CONFIG } from './config/Configuration';
+export {
+  FileConfigSource,
+  UrlConfigSource,
+  createConfigSource,
+  parseConfigContent
+} from './config/ConfigSource';
+export type {
+  ConfigFormat,
+  ConfigSource,
+  ConfigSourceContent
+} from './config/ConfigSource';
+export { ConfigReloader } from './config/ConfigReloader';
+export type {
+  ConfigReloadEvent,
+  ConfigReloaderOptions,
+  LoadedConfig
+} from './config/ConfigReloader';
 
 // Guardrails
 export {
@@ -104,17 +133,107 @@ export {
   GuardrailResult,
   GuardrailConfig,
   GuardrailMetadata,
+  GuardrailCost,
   GuardrailResultData,
   GuardrailEngine,
   GuardrailEngineResult,
   GuardrailEngineOptions,
   GuardrailExecutionResult,
+  GuardrailChange,
+  GuardrailAggregationStrategy,
+  diffText,
+  applyEdits,
+  TextEdit,
+  GuardrailResultCache,
+  InMemoryGuardrailCacheStore,
+  GuardrailResultCacheConfig,
+  GuardrailCacheStore,
+  GuardrailCacheEntry,
+  GuardrailCacheStats,
+  GuardrailRegistry,
+  GuardrailConstructor,
+  GuardrailRegistration,
+  parseGuardrailConfig,
+  GuardrailConfigDocument,
+  GuardrailConfigEntry,
+  GuardrailConfigFormat,
+  GuardrailConfigLoadOptions,
+  OptionSchema,
+  OptionIssue,
+  resolveGuardrailProfile,
+  selectGuardrailProfile,
+  validateGuardrailProfiles,
+  GuardrailProfile,
+  GuardrailProfileRule,
+  GuardrailProfileEngineOptions,
+  ResolvedGuardrailProfile,
   PIIDetectionGuardrail,
   PIIDetectionConfig,
+  PIIDetection,
+  luhnCheck,
+  verhoeffCheck,
+  validateCreditCard,
+  validateSSN,
+  validatePhoneNumber,
+  validateIBAN,
+  validateUKNino,
+  validateEUVat,
+  validateAadhaar,
+  validatePAN,
+  validateIPv4,
+  validateIPv6,
+  validateMacAddress,
+  validateDateOfBirth,
+  PII_ENTITY_PACKS,
+  PIIDetectorDefinition,
+  PIIEntityPack,
+  PIIEntityPackName,
+  PIIVault,
+  InMemoryPIIVaultStore,
+  PIIVaultConfig,
+  PIIVaultStore,
+  PIIVaultEntry,
+  PIISpan,
+  PIIDetokenizeTarget,
+  PIITokenizeResult,
+  PIIDetokenizeResult,
   ContentModerationGuardrail,
   ContentModerationConfig,
+  BaseModerationProvider,
+  OpenAIModerationProvider,
+  AzureContentSafetyProvider,
+  PerspectiveModerationProvider,
+  HttpModerationProvider,
+  ModerationProvider,
+  ModerationProviderOptions,
+  OpenAIModerationProviderOptions,
+  AzureContentSafetyProviderOptions,
+  PerspectiveModerationProviderOptions,
+  HttpModerationProviderOptions,
+  SecretsDetectionGuardrail,
+  SecretsDetectionConfig,
+  SecretDetection,
+  shannonEntropy,
   PromptInjectionGuardrail,
-  PromptInjectionConfig
+  PromptInjectionConfig,
+  TopicRestrictionGuardrail,
+  TopicRestrictionConfig,
+  TopicDefinition,
+  TopicMatch,
+  normalizeText,
+  TEXT_NORMALIZATIONS,
+  TextNormalization,
+  NormalizedText,
+  OnnxTextClassifier,
+  OnnxTextEmbedder,
+  WordPieceTokenizer,
+  TextClassifier,
+  TextEmbedder,
+  ClassifierTokenizer,
+  OnnxTextClassifierConfig,
+  OnnxTextEmbedderConfig,
+  OnnxRuntime,
+  OnnxInferenceSession
 } from './guardrails';
 
 // Cost Tracking
@@ -122,8 +241,14 @@ export {
   CostTracker,
   BudgetManager,
   InMemoryCostStorage,
+  JsonlCostStorage,
+  SqliteCostStorage,
   createCostStorage,
-  getModelPricing
+  getModelPricing,
+  BaseTokenizer,
+  BpeTokenizer,
+  AnthropicTokenizer,
+  getTokenizerForModel
 } from './cost';
 
 export type {
@@ -137,34 +262,70 @@ export type {
   CostAlert,
   CostSummary,
   CostTrackerConfig,
-  ICostStorage
+  BudgetThrottleConfig,
+  BudgetScopeAssignment,
+  ResolvedBudgetScope,
+  ICostStorage,
+  CostStorageOptions,
+  JsonlCostStorageOptions,
+  SqliteCostStorageOptions,
+  SqliteDatabase,
+  SqliteStatement,
+  Tokenizer,
+  TokenizerMessage,
+  BpeEncoding
 } from './cost';
 
 export type {
-  BudgetEnforcementResult
+  BudgetEnforcementResult,
+  BudgetManagerOptions
 } from './cost/BudgetManager';
 
 // Drop-in Client Wrappers
 export {
   TealOpenAI,
   createTealOpenAI,
+  ChatCompletionStream,
   TealAnthropic,
   createTealAnthropic,
   TealAzureOpenAI,
-  createTealAzureOpenAI
+  createTealAzureOpenAI,
+  HttpTransport,
+  ToolCallEnforcer,
+  hasRewrites,
+  getRewritingGuardrails,
+  applyRewrites,
+  rewriteText
 } from './clients';
 
 export type {
   TealOpenAIConfig,
   ChatCompletionRequest,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatCompletions,
+  ChatCompletionTool,
+  ChatCompletionToolCall,
+  ChatCompletionToolCallDelta,
   TealAnthropicConfig,
+  AnthropicTool,
   MessageCreateRequest,
   MessageCreateResponse,
   MessageContent,
   TealAzureOpenAIConfig,
   AzureChatCompletionRequest,
-  AzureChatCompletionResponse
+  AzureChatCompletionResponse,
+  FetchLike,
+  HttpTransportOptions,
+  TransportRequest,
+  TransportRequestInit,
+  TransportResponse,
+  ToolCallEvaluator,
+  ToolCallPolicyConfig,
+  ProposedToolCall,
+  ToolCallDecision,
+  GuardrailTransformation,
+  TextRewrite
 } from './clients';
 
 // Version
@@ -0,0 +1,220 @@
+/**
+ * Local Policy Engine
+ *
+ * This module evaluates security policies in-process so that TealTiger
+ * can make security decisions without a reachable SSA instance
+ */
+
+import {
+  SecurityPolicy,
+  ToolExecutionRequest,
+  SecurityDecision,
+  SecurityEvaluationResponse,
+  TealTigerErrorCode
+} from '../types';
+import { PolicyTester } from './PolicyTester';
+import { PolicyValidator } from './PolicyValidator';
+import { generateId } from '../cost/utils';
+import { ConfigReloader } from '../config/ConfigReloader';
+import { ConfigFormat, ConfigSource, createConfigSource, parseConfigContent } from '../config/ConfigSource';
+import { TealTigerConfigError } from '../utils/errors';
+
+/**
+ * Options for the local policy engine
+ */
+export interface LocalPolicyEngineOptions {
+  /** Version label reported in decision metadata (default: 'local') */
+  policyVersion?: string;
+}
+
+/**
+ * Policy set document: `{ version, policies }` or a bare policy array
+ */
+export interface PolicyConfigDocument {
+  version?: string | number;
+  policies: SecurityPolicy[];
+}
+
+/**
+ * Parse and validate a policy set (JSON or YAML)
+ *
+ * Every invalid policy is reported with its path in one TealTigerConfigError.
+ */
+export function parsePolicyConfig(
+  source: string | PolicyConfigDocument | SecurityPolicy[],
+  format?: ConfigFormat
+): PolicyConfigDocument {
+  let parsed: unknown;
+  try {
+    parsed = typeof source === 'string' ? parseConfigContent(source, format) : source;
+  } catch (error) {
+    throw createPolicyConfigError([{ path: '', message: `could not parse: ${(error as Error).message}` }]);
+  }
+
+  const document = (Array.isArray(parsed) ? { policies: parsed } : parsed) as Partial<PolicyConfigDocument> | null;
+  if (typeof document !== 'object' || document === null || !Array.isArray(document.policies)) {
+    throw createPolicyConfigError([{ path: 'policies', message: 'expected array' }]);
+  }
+
+  const issues: Array<{ path: string; message: string }> = [];
+  document.policies.forEach((policy, index) => {
+    if (typeof policy !== 'object' || policy === null) {
+      issues.push({ path: `policies[${index}]`, message: 'expected object' });
+      return;
+    }
+    for (const message of PolicyValidator.validatePolicy(policy).errors) {
+      issues.push({ path: `policies[${index}]`, message });
+    }
+  });
+
+  if (issues.length > 0) {
+    throw createPolicyConfigError(issues);
+  }
+
+  return document as PolicyConfigDocument;
+}
+
+function createPolicyConfigError(issues: Array<{ path: string; message: string }>): TealTigerConfigError {
+  const summary = issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+  return new TealTigerConfigError(
+    `Invalid policy configuration: ${summary}`,
+    TealTigerErrorCode.INVALID_CONFIG,
+    { issues }
+  );
+}
+
+/**
+ * In-process policy evaluation engine
+ *
+ * Produces the same SecurityDecision shape as the Security Sidecar Agent
+ */
+export class LocalPolicyEngine {
+  private readonly tester: PolicyTester;
+  private policies: SecurityPolicy[];
+  private policyVersion: string;
+  private reloader: ConfigReloader<SecurityPolicy[]> | undefined;
+
+  constructor(policies: SecurityPolicy[] = [], options: LocalPolicyEngineOptions = {}) {
+    this.policies = [...policies];
+    this.tester = new PolicyTester(this.policies);
+    this.policyVersion = options.policyVersion || 'local';
+  }
+
+  /**
+   * Replace the active policy set
+   */
+  setPolicies(policies: SecurityPolicy[], policyVersion?: string): LocalPolicyEngine {
+    this.policies = [...policies];
+    this.tester.clearPolicies().addPolicies(this.policies);
+    if (policyVersion !== undefined) {
+      this.policyVersion = policyVersion;
+    }
+    return this;
+  }
+
+  /**
+   * Load the policy set from a file or URL and keep it up to date
+   *
+   * Changes are validated before they replace the active set, and decisions
+   * report the version in `metadata.policyVersion` (the document's `version`,
+   * default: a hash of its content). Throws when the initial policy set is
+   * invalid.
+   */
+  async watch(source: ConfigSource | string): Promise<ConfigReloader<SecurityPolicy[]>> {
+    const reloader = new ConfigReloader<SecurityPolicy[]>({
+      source: typeof source === 'string' ? createConfigSource(source) : source,
+      load: (content, format) => {
+        const document = parsePolicyConfig(content, format);
+        return {
+          value: document.policies,
+          version: document.version === undefined ? undefined : String(document.version)
+        };
+      },
+      apply: (policies, version) => {
+        this.setPolicies(policies, version);
+      }
+    });
+
+    await reloader.start();
+    this.reloader?.stop();
+    this.reloader = reloader;
+    return reloader;
+  }
+
+  /**
+   * Stop watching the policy source
+   */
+  unwatch(): void {
+    this.reloader?.stop();
+    this.reloader = undefined;
+  }
+
+  /**
+   * Add a policy to the active set
+   */
+  addPolicy(policy: SecurityPolicy): LocalPolicyEngine {
+    this.policies.push(policy);
+    this.tester.addPolicy(policy);
+    return this;
+  }
+
+  /**
+   * Get the active policy set
+   */
+  getPolicies(): { policies: SecurityPolicy[]; version: string; count: number } {
+    return {
+      policies: [...this.policies],
+      version: this.policyVersion,
+      count: this.policies.length
+    };
+  }
+
+  /**
+   * Evaluate a tool execution request against the active policies
+   */
+  evaluate(request: ToolExecutionRequest): SecurityDecision {
+    const startTime = Date.now();
+    const result = this.tester.testRequest(request);
+
+    const decision: SecurityDecision = {
+      requestId: `local-${generateId()}`,
+      agentId: request.agentId,
+      toolName: request.toolName,
+      action: result.action || 'allow',
+      reason: result.reason || 'No matching policy - allowed by default',
+      riskLevel: result.riskLevel,
+      timestamp: new Date().toISOString(),
+      metadata: {
+        policyVersion: this.policyVersion,
+        evaluationTime: Date.now() - startTime,
+        ...(result.policyName !== undefined && { matchedPolicy: result.policyName })
+      }
+    };
+
+    if (result.transformedRequest) {
+      decision.transformedRequest = result.transformedRequest;
+    }
+
+    return decision;
+  }
+
+  /**
+   * Evaluate a request and wrap the decision in an SSA-compatible response
+   */
+  evaluateSecurity(request: ToolExecutionRequest): Promise<SecurityEvaluationResponse> {
+    return Promise.resolve({
+      success: true,
+      decision: this.evaluate(request)
+    });
+  }
+}
+
+/**
+ * Create a new local policy engine
+ */
+export function createLocalPolicyEngine(
+  policies?: SecurityPolicy[],
+  options?: LocalPolicyEngineOptions
+): LocalPolicyEngine {
+  return new LocalPolicyEngine(policies, options);
+}
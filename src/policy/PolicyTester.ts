@@ -38,6 +38,9 @@ export interface PolicyTestResult {
   
   /** Transformed request (if action is transform) */
   transformedRequest?: ToolExecutionRequest;
+
+  /** Name of the policy that matched */
+  policyName?: string;
 }
 
 /**
@@ -166,6 +169,7 @@ export class PolicyTester {
     };
 
     if (matched) {
+      result.policyName = policy.name;
       result.action = policy.action;
       result.reason = policy.reason;
 
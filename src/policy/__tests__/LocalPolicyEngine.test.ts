@@ -0,0 +1,261 @@
+/**
+ * LocalPolicyEngine Unit Tests
+ */
+
+import { LocalPolicyEngine, createLocalPolicyEngine, parsePolicyConfig } from '../LocalPolicyEngine';
+import { ConfigSource } from '../../config/ConfigSource';
+import { TealTiger } from '../../client/TealTiger';
+import { SSAClient } from '../../client/SSAClient';
+import { TealTigerAuthError, TealTigerConfigError, TealTigerNetworkError } from '../../utils/errors';
+import { TealTigerErrorCode, SecurityPolicy, ToolExecutionRequest } from '../../types';
+
+describe('LocalPolicyEngine', () => {
+  let engine: LocalPolicyEngine;
+  let policies: SecurityPolicy[];
+
+  beforeEach(() => {
+    policies = [
+      {
+        name: 'deny-system',
+        action: 'deny',
+        reason: 'System operations are dangerous',
+        priority: 5,
+        conditions: [{ type: 'tool_name', pattern: '*system*' }]
+      },
+      {
+        name: 'filter-passwords',
+        action: 'transform',
+        reason: 'Remove sensitive data',
+        priority: 1,
+        conditions: [{ type: 'parameter_exists', parameter: 'password' }],
+        transformation: { type: 'parameter_filter', remove_parameters: ['password'] }
+      }
+    ];
+
+    engine = createLocalPolicyEngine(policies, { policyVersion: 'v1' });
+  });
+
+  describe('evaluate', () => {
+    it('should return a deny decision for a matching policy', () => {
+      const request: ToolExecutionRequest = {
+        agentId: 'test-agent',
+        toolName: 'system-command',
+        parameters: {}
+      };
+
+      const decision = engine.evaluate(request);
+
+      expect(decision.action).toBe('deny');
+      expect(decision.reason).toBe('System operations are dangerous');
+      expect(decision.agentId).toBe('test-agent');
+      expect(decision.toolName).toBe('system-command');
+      expect(decision.requestId).toMatch(/^local-/);
+      expect(decision.metadata?.matchedPolicy).toBe('deny-system');
+      expect(decision.metadata?.policyVersion).toBe('v1');
+    });
+
+    it('should include the transformed request for transform decisions', () => {
+      const decision = engine.evaluate({
+        agentId: 'test-agent',
+        toolName: 'login',
+        parameters: { username: 'alice', password: 'hunter2' }
+      });
+
+      expect(decision.action).toBe('transform');
+      expect(decision.transformedRequest?.parameters).toEqual({ username: 'alice' });
+    });
+
+    it('should fall back to default behavior when no policy matches', () => {
+      const decision = engine.evaluate({
+        agentId: 'test-agent',
+        toolName: 'web-search',
+        parameters: { query: 'test' }
+      });
+
+      expect(decision.action).toBe('allow');
+      expect(decision.metadata?.matchedPolicy).toBeUndefined();
+    });
+
+    it('should wrap decisions in an SSA-compatible response', async () => {
+      const response = await engine.evaluateSecurity({
+        agentId: 'test-agent',
+        toolName: 'system-admin',
+        parameters: {}
+      });
+
+      expect(response.success).toBe(true);
+      expect(response.decision.action).toBe('deny');
+    });
+  });
+
+  describe('policy management', () => {
+    it('should replace policies and version', () => {
+      engine.setPolicies([], 'v2');
+
+      const result = engine.getPolicies();
+      expect(result.count).toBe(0);
+      expect(result.version).toBe('v2');
+      expect(engine.evaluate({
+        agentId: 'test-agent',
+        toolName: 'system-command',
+        parameters: {}
+      }).action).toBe('allow');
+    });
+
+    it('should add policies', () => {
+      engine.addPolicy({
+        name: 'deny-delete',
+        action: 'deny',
+        reason: 'No deletes',
+        conditions: [{ type: 'tool_name', pattern: 'file-delete' }]
+      });
+
+      expect(engine.getPolicies().count).toBe(3);
+      expect(engine.evaluate({
+        agentId: 'test-agent',
+        toolName: 'file-delete',
+        parameters: {}
+      }).action).toBe('deny');
+    });
+  });
+
+  describe('TealTiger integration', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should evaluate locally without SSA credentials in local mode', async () => {
+      const tealTiger = new TealTiger({
+        policyMode: 'local',
+        agentId: 'edge-agent',
+        policies
+      });
+      const ssaSpy = jest.spyOn(SSAClient.prototype, 'evaluateSecurity');
+
+      const decision = await tealTiger.evaluateTool('system-command', {});
+
+      expect(decision.action).toBe('deny');
+      expect(decision.agentId).toBe('edge-agent');
+      expect(ssaSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to local policies when the SSA is unreachable', async () => {
+      jest.spyOn(SSAClient.prototype, 'evaluateSecurity').mockRejectedValue(
+        new TealTigerNetworkError('Unable to connect', TealTigerErrorCode.CONNECTION_ERROR)
+      );
+
+      const tealTiger = new TealTiger({
+        apiKey: 'test-api-key-123',
+        ssaUrl: 'https://ssa.example.com',
+        policyMode: 'fallback',
+        policies
+      });
+
+      const result = await tealTiger.executeTool('system-command', {});
+
+      expect(result.success).toBe(false);
+      expect(result.securityDecision.metadata?.matchedPolicy).toBe('deny-system');
+      expect(result.error?.code).toBe('SECURITY_DENIED');
+    });
+
+    it('should not fall back on authentication errors', async () => {
+      jest.spyOn(SSAClient.prototype, 'evaluateSecurity').mockRejectedValue(
+        new TealTigerAuthError('Authentication failed')
+      );
+
+      const tealTiger = new TealTiger({
+        apiKey: 'test-api-key-123',
+        ssaUrl: 'https://ssa.example.com',
+        policyMode: 'fallback',
+        policies
+      });
+
+      await expect(tealTiger.evaluateTool('system-command', {})).rejects.toThrow('Authentication failed');
+    });
+  });
+
+  describe('hot reload', () => {
+    let content: string;
+    let notify: (() => void) | undefined;
+    const source: ConfigSource = {
+      location: 'memory://policies',
+      read: async () => ({ content }),
+      watch: (onChange) => {
+        notify = onChange;
+        return () => {
+          notify = undefined;
+        };
+      }
+    };
+    const request: ToolExecutionRequest = {
+      agentId: 'test-agent',
+      toolName: 'run-system-command',
+      parameters: {}
+    };
+
+    afterEach(() => {
+      engine.unwatch();
+    });
+
+    it('should report the loaded version in decision metadata', async () => {
+      content = JSON.stringify({ version: 7, policies });
+      const reloader = await engine.watch(source);
+
+      expect(reloader.getActiveVersion()).toBe('7');
+      expect(engine.evaluate(request).metadata?.policyVersion).toBe('7');
+      expect(notify).toBeDefined();
+
+      content = JSON.stringify({ version: 8, policies: [] });
+      await reloader.reload();
+
+      expect(engine.evaluate(request)).toEqual(
+        expect.objectContaining({ action: 'allow', metadata: expect.objectContaining({ policyVersion: '8' }) })
+      );
+
+      await reloader.rollback();
+      expect(engine.evaluate(request)).toEqual(
+        expect.objectContaining({ action: 'deny', metadata: expect.objectContaining({ policyVersion: '7' }) })
+      );
+    });
+
+    it('should keep the active policies when a new version is invalid', async () => {
+      content = JSON.stringify({ version: 'a', policies });
+      const reloader = await engine.watch(source);
+
+      content = JSON.stringify({ version: 'b', policies: [{ name: 'broken', action: 'deny' }] });
+      const event = await reloader.reload();
+
+      expect(event?.type).toBe('rejected');
+      expect(engine.getPolicies()).toEqual(expect.objectContaining({ version: 'a', count: 2 }));
+    });
+
+    it('should reject an invalid initial policy set', async () => {
+      content = 'policies: 3';
+
+      await expect(engine.watch(source)).rejects.toThrow(TealTigerConfigError);
+      expect(engine.getPolicies().version).toBe('v1');
+    });
+  });
+
+  describe('parsePolicyConfig', () => {
+    it('should accept a bare policy array', () => {
+      expect(parsePolicyConfig(JSON.stringify(policies))).toEqual({ policies });
+    });
+
+    it('should report every invalid policy with its path', () => {
+      let error: unknown;
+      try {
+        parsePolicyConfig({ policies: [policies[0], { name: '', reason: 'x', conditions: [] } as any] });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(TealTigerConfigError);
+      expect((error as TealTigerConfigError).details?.issues).toEqual([
+        { path: 'policies[1]', message: 'Policy name is required and cannot be empty' },
+        { path: 'policies[1]', message: 'Policy action is required (allow, deny, or transform)' },
+        { path: 'policies[1]', message: 'Policy must have at least one condition' }
+      ]);
+    });
+  });
+});
@@ -32,8 +32,22 @@ export interface TealTigerConfig {
   
   /** Custom headers to include with requests */
   headers?: Record<string, string> | undefined;
+  
+  /** Where security decisions come from (default: 'remote') */
+  policyMode?: PolicyMode | undefined;
+  
+  /** Policies evaluated in-process when policyMode is 'local' or 'fallback' */
+  policies?: SecurityPolicy[] | undefined;
 }
 
+/**
+ * Security decision source
+ * - remote: always evaluate through the Security Sidecar Agent
+ * - local: always evaluate in-process with the LocalPolicyEngine
+ * - fallback: use the SSA, and the LocalPolicyEngine when the SSA is unreachable
+ */
+export type PolicyMode = 'remote' | 'local' | 'fallback';
+
 /**
  * Tool execution parameters
  */
@@ -316,6 +330,7 @@ export enum TealTigerErrorCode {
   // Server errors
   SERVER_ERROR = 'SERVER_ERROR',
   SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
+  RATE_LIMITED = 'RATE_LIMITED',
   
   // Security errors
   SECURITY_DENIED = 'SECURITY_DENIED',
@@ -169,6 +169,7 @@ export function createTealTigerError(
 
     case TealTigerErrorCode.SERVER_ERROR:
     case TealTigerErrorCode.SERVICE_UNAVAILABLE:
+    case TealTigerErrorCode.RATE_LIMITED:
       return new TealTigerServerError(message, code, details, cause);
 
     case TealTigerErrorCode.SECURITY_DENIED:
@@ -0,0 +1,16 @@
+/**
+ * Optional Modules
+ *
+ * Runtime loading of optional dependencies, so a package is only needed by
+ * the features that use it, and of large modules only needed on first use
+ */
+
+/**
+ * Load a module by id; throws if it is not installed
+ *
+ * The caller names the shape it relies on, as optional packages are not
+ * type-checked against.
+ */
+export function loadOptionalModule<T>(id: string): T {
+  return module.require(id) as T;
+}
@@ -12,55 +12,77 @@ import { TealTigerErrorCode } from '../types';
  * Validate SDK configuration
  */
 export function validateConfig(config: Partial<TealTigerConfig>): void {
-  // Validate API key
-  if (!config.apiKey) {
+  if (config.policyMode !== undefined && !['remote', 'local', 'fallback'].includes(config.policyMode)) {
     throw new TealTigerConfigError(
-      'API key is required',
-      TealTigerErrorCode.MISSING_API_KEY
+      'Policy mode must be one of: remote, local, fallback',
+      TealTigerErrorCode.INVALID_CONFIG,
+      { policyMode: config.policyMode }
     );
   }
 
-  if (typeof config.apiKey !== 'string' || config.apiKey.length < 10) {
+  if (config.policies !== undefined && !Array.isArray(config.policies)) {
     throw new TealTigerConfigError(
-      'API key must be at least 10 characters',
-      TealTigerErrorCode.INVALID_API_KEY_FORMAT,
-      { apiKeyLength: config.apiKey?.length }
+      'Policies must be an array',
+      TealTigerErrorCode.INVALID_CONFIG
     );
   }
 
-  // Validate SSA URL
-  if (!config.ssaUrl) {
-    throw new TealTigerConfigError(
-      'SSA URL is required',
-      TealTigerErrorCode.INVALID_SSA_URL
-    );
-  }
+  // Local-only mode never talks to the SSA, so credentials are optional
+  const requiresSSA = config.policyMode !== 'local';
 
-  if (typeof config.ssaUrl !== 'string') {
-    throw new TealTigerConfigError(
-      'SSA URL must be a string',
-      TealTigerErrorCode.INVALID_SSA_URL
-    );
+  // Validate API key
+  if (requiresSSA || config.apiKey !== undefined) {
+    if (!config.apiKey) {
+      throw new TealTigerConfigError(
+        'API key is required',
+        TealTigerErrorCode.MISSING_API_KEY
+      );
+    }
+
+    if (typeof config.apiKey !== 'string' || config.apiKey.length < 10) {
+      throw new TealTigerConfigError(
+        'API key must be at least 10 characters',
+        TealTigerErrorCode.INVALID_API_KEY_FORMAT,
+        { apiKeyLength: config.apiKey?.length }
+      );
+    }
   }
 
-  try {
-    const url = new URL(config.ssaUrl);
-    if (url.protocol !== 'https:') {
+  // Validate SSA URL
+  if (requiresSSA || config.ssaUrl !== undefined) {
+    if (!config.ssaUrl) {
       throw new TealTigerConfigError(
-        'SSA URL must use HTTPS protocol',
-        TealTigerErrorCode.INVALID_SSA_URL,
-        { ssaUrl: config.ssaUrl, protocol: url.protocol }
+        'SSA URL is required',
+        TealTigerErrorCode.INVALID_SSA_URL
       );
     }
-  } catch (error) {
-    if (error instanceof TealTigerConfigError) {
-      throw error;
+
+    if (typeof config.ssaUrl !== 'string') {
+      throw new TealTigerConfigError(
+        'SSA URL must be a string',
+        TealTigerErrorCode.INVALID_SSA_URL
+      );
+    }
+
+    try {
+      const url = new URL(config.ssaUrl);
+      if (url.protocol !== 'https:') {
+        throw new TealTigerConfigError(
+          'SSA URL must use HTTPS protocol',
+          TealTigerErrorCode.INVALID_SSA_URL,
+          { ssaUrl: config.ssaUrl, protocol: url.protocol }
+        );
+      }
+    } catch (error) {
+      if (error instanceof TealTigerConfigError) {
+        throw error;
+      }
+      throw new TealTigerConfigError(
+        'SSA URL must be a valid URL',
+        TealTigerErrorCode.INVALID_SSA_URL,
+        { ssaUrl: config.ssaUrl }
+      );
     }
-    throw new TealTigerConfigError(
-      'SSA URL must be a valid URL',
-      TealTigerErrorCode.INVALID_SSA_URL,
-      { ssaUrl: config.ssaUrl }
-    );
   }
 
   // Validate optional fields